@@ -5,6 +5,7 @@ import { NodeCharts } from './components/NodeCharts'
 import { NodeNetwork } from './components/NodeNetwork'
 import { GlobeView } from './components/GlobeView'
 import { WebSocketStatus } from './components/WebSocketStatus'
+import { StaleIndicator } from './components/StaleIndicator'
 import { EffectsOverlay } from './components/EffectsOverlay'
 import { Starfield } from './components/Starfield'
 import { ChartModal } from './components/ChartModal'
@@ -14,14 +15,34 @@ import { useNodes } from './hooks/useNodes'
 import { useEffects } from './hooks/useEffects'
 import { useAppConfig } from './hooks/useAppConfig'
 import { RecentStatsProvider } from './hooks/useRecentStats'
+import { AlertsProvider } from './hooks/useAlerts'
+import { NotificationsProvider } from './hooks/useNotifications'
+import { EventsProvider, useEvents } from './hooks/useEvents'
+import { CompareProvider } from './hooks/useCompare'
+import { SavedViewsProvider } from './hooks/useSavedViews'
+import { TrafficForecastProvider } from './hooks/useTrafficForecast'
+import { TableColumnsProvider } from './hooks/useTableColumns'
+import { AnomalyCountsProvider } from './hooks/useAnomalies'
+import { useLiveNode, useLiveNodes } from './hooks/useNodeStatus'
+import { useExpirySettings } from './hooks/useExpirySettings'
+import { AlertsButton, ThreatBadge } from './components/AlertsPanel'
 import { UptimeView } from './components/UptimeView'
-import { ArrowLeft, Settings, Globe, LayoutGrid, List, Shield, Cpu, MemoryStick, HardDrive, Activity, Network, Clock, User, Monitor, Box, Layers, AlertTriangle, ExternalLink } from 'lucide-react'
+import { EventsView } from './components/EventsView'
+import { CompareView } from './components/CompareView'
+import { FleetView } from './components/FleetView'
+import { BillingView } from './components/BillingView'
+import { ExpiryView } from './components/ExpiryView'
+import { TrafficForecast } from './components/TrafficForecast'
+import { CompareBar } from './components/CompareBar'
+import { SavedViewsMenu } from './components/SavedViewsMenu'
+import { ArrowLeft, Settings, Globe, LayoutGrid, List, Shield, Cpu, MemoryStick, HardDrive, Activity, Network, Clock, User, Monitor, Box, Layers, ExternalLink, ScrollText, ChartArea, Wallet, CalendarClock } from 'lucide-react'
 import { useState, useEffect, useCallback, useMemo, memo, createContext, useContext } from 'react'
 import { useTranslation } from 'react-i18next'
-import { Routes, Route, useNavigate, useParams, useLocation, Link } from 'react-router-dom'
+import { Routes, Route, Navigate, useNavigate, useParams, useLocation, Link } from 'react-router-dom'
 import { apiService } from './services/api'
 import { formatSpeed, formatBytes, formatUptime, getUsageStatus, calcTrafficUsage, formatTrafficType, getExpiryStatus, formatExpiry, cn, extractRegionEmoji, extractRegionText } from './lib/utils'
 import type { TrafficLimitType } from './lib/utils'
+import { recentRebootAge } from './lib/reboot'
 import type { NodeWithStatus } from './services/api'
 import { Tooltip, TooltipTrigger, TooltipContent } from './components/ui/tooltip'
 import dayjs from 'dayjs'
@@ -29,10 +50,13 @@ import './App.css'
 
 type ViewMode = 'globe' | 'grid' | 'table' | 'uptime';
 
+function isViewMode(value: string | null): value is ViewMode {
+  return value === 'globe' || value === 'grid' || value === 'table' || value === 'uptime';
+}
+
 function getInitialViewMode(): ViewMode {
   const saved = localStorage.getItem('nodeViewMode');
-  if (saved === 'globe' || saved === 'grid' || saved === 'table' || saved === 'uptime') return saved;
-  return 'globe';
+  return isViewMode(saved) ? saved : 'globe';
 }
 
 /* ══════════════════════════════════════════════════════════════
@@ -73,14 +97,21 @@ const ViewModeContext = createContext<ViewModeContextType>({
 function NodeInfoPanel({ node }: { node: NodeWithStatus }) {
   const { t } = useTranslation();
   const appConfig = useAppConfig();
-  const isOnline = node.status === 'online';
-  const stats = node.stats;
+  const { status, stats } = useLiveNode(node);
+  const isOnline = status === 'online';
   const cpuUsage = stats?.cpu?.usage ?? 0;
   const ramUsage = stats ? (stats.ram.used / stats.ram.total) * 100 : 0;
   const diskUsage = stats ? (stats.disk.used / stats.disk.total) * 100 : 0;
+  const { warningDays } = useExpirySettings();
   const isFree = node.price === -1;
-  const expiryStatus = (isFree || !appConfig.isLoggedIn) ? null : getExpiryStatus(node.expired_at);
+  const expiryStatus = (isFree || !appConfig.isLoggedIn) ? null : getExpiryStatus(node.expired_at, warningDays);
   const hasTraffic = !!(node.traffic_limit && node.traffic_limit > 0 && node.traffic_limit_type && node.traffic_limit_type !== 'no_limit');
+  const rebootAge = isOnline ? recentRebootAge(stats?.uptime) : null;
+  const { events } = useEvents();
+  const reboots = useMemo(
+    () => events.filter(e => e.uuid === node.uuid && e.kind === 'reboot').reverse(),
+    [events, node.uuid],
+  );
 
   return (
     <div className="rounded-lg border border-border/50 bg-card/80 backdrop-blur-xl p-4 commander-corners relative overflow-hidden">
@@ -365,6 +396,27 @@ function NodeInfoPanel({ node }: { node: NodeWithStatus }) {
               <div className="text-lg font-mono font-bold tabular-nums">
                 {formatUptime(stats.uptime, 'minute')}
               </div>
+              {(rebootAge !== null || reboots.length > 0) && (
+                <div className="mt-1.5 pt-1.5 border-t border-border/15 space-y-0.5">
+                  {rebootAge !== null && (
+                    <div className="text-xxs font-mono font-bold text-yellow-500">
+                      ↻ {t('reboot.ago', { time: formatUptime(rebootAge, 'minute') })}
+                    </div>
+                  )}
+                  {reboots.length > 0 && (
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <div className="text-xxs font-mono text-muted-foreground/60 cursor-default">
+                          {t('reboot.recorded', { count: reboots.length })}
+                        </div>
+                      </TooltipTrigger>
+                      <TooltipContent side="bottom" className="text-xs font-mono whitespace-pre-line">
+                        {reboots.slice(0, 10).map(e => dayjs(e.time).format('YYYY-MM-DD HH:mm')).join('\n')}
+                      </TooltipContent>
+                    </Tooltip>
+                  )}
+                </div>
+              )}
             </div>
           </div>
 
@@ -402,6 +454,7 @@ function NodeInfoPanel({ node }: { node: NodeWithStatus }) {
                   );
                 })()}
               </div>
+              <TrafficForecast node={node} stats={stats} detailed className="mt-1.5" />
             </div>
           )}
         </>
@@ -481,13 +534,13 @@ function Dashboard() {
   const navigate = useNavigate();
   const { nodes, loading, refreshNodes } = useNodesContext();
 
-  const handleViewCharts = (uuid: string, name: string) => {
+  const handleViewCharts = useCallback((uuid: string, name: string) => {
     if (viewMode === 'globe') {
       setChartModal({ uuid, name });
     } else {
       navigate(`/node/${uuid}`);
     }
-  };
+  }, [viewMode, navigate]);
 
   return (
     <>
@@ -533,6 +586,31 @@ const ClockDisplay = memo(function ClockDisplay() {
   );
 });
 
+/* ══════════════════════════════════════════════════════════════
+   Fleet throughput — isolated for the same reason, it follows every stats tick
+   ══════════════════════════════════════════════════════════════ */
+const NetworkTotals = memo(function NetworkTotals() {
+  const { nodes } = useNodesContext();
+  const live = useLiveNodes(nodes);
+  const { totalUp, totalDown } = useMemo(() => {
+    let up = 0;
+    let down = 0;
+    live.forEach(node => {
+      if (node.status === 'online' && node.stats?.network) {
+        up += node.stats.network.up || 0;
+        down += node.stats.network.down || 0;
+      }
+    });
+    return { totalUp: up, totalDown: down };
+  }, [live]);
+  return (
+    <>
+      <span>↑ {formatSpeed(totalUp)}</span>
+      <span>↓ {formatSpeed(totalDown)}</span>
+    </>
+  );
+});
+
 /* ══════════════════════════════════════════════════════════════
    App Shell
    ══════════════════════════════════════════════════════════════ */
@@ -542,18 +620,41 @@ function App() {
   const [siteDescription, setSiteDescription] = useState('');
   const [version, setVersion] = useState('');
   const [customBody, setCustomBody] = useState<string>('');
-  const [viewMode, setViewMode] = useState<ViewMode>(getInitialViewMode);
+  const [storedViewMode, setStoredViewMode] = useState<ViewMode>(getInitialViewMode);
   const navigate = useNavigate();
   const location = useLocation();
+  const isDashboard = location.pathname === '/';
+
+  // On the dashboard the `view` query parameter wins so shared links open in
+  // the linked view; elsewhere the last used view is highlighted
+  const viewParam = new URLSearchParams(location.search).get('view');
+  const viewMode: ViewMode = isDashboard && isViewMode(viewParam) ? viewParam : storedViewMode;
 
   const { nodes, loading, refreshNodes } = useNodes();
   const { activeEffects } = useEffects();
   const appConfig = useAppConfig();
 
   const handleSetViewMode = useCallback((mode: ViewMode) => {
-    setViewMode(mode);
-    localStorage.setItem('nodeViewMode', mode);
-  }, []);
+    // Filters and sorting carry over between views; the globe selection does not
+    const params = new URLSearchParams(isDashboard ? location.search : '');
+    params.set('view', mode);
+    if (mode !== 'globe') params.delete('node');
+    navigate({ pathname: '/', search: `?${params}` });
+  }, [isDashboard, location.search, navigate]);
+
+  // Remember the URL's view, or pin the remembered one into a bare dashboard
+  // URL so back/forward returns to the view each history entry showed
+  useEffect(() => {
+    if (!isDashboard) return;
+    if (isViewMode(viewParam)) {
+      setStoredViewMode(viewParam);
+      localStorage.setItem('nodeViewMode', viewParam);
+      return;
+    }
+    const params = new URLSearchParams(location.search);
+    params.set('view', storedViewMode);
+    navigate({ pathname: '/', search: `?${params}` }, { replace: true });
+  }, [isDashboard, viewParam, storedViewMode, location.search, navigate]);
 
   useEffect(() => {
     const init = async () => {
@@ -574,32 +675,11 @@ function App() {
   }, []);
 
 
-  const networkStats = useMemo(() => {
-    let totalUp = 0;
-    let totalDown = 0;
-    nodes.forEach(node => {
-      if (node.status === 'online' && node.stats?.network) {
-        totalUp += node.stats.network.up || 0;
-        totalDown += node.stats.network.down || 0;
-      }
-    });
-    return { totalUp, totalDown };
-  }, [nodes]);
-
-  const isDashboard = location.pathname === '/';
-
   const onlineUuids = useMemo(
     () => nodes.filter(n => n.status === 'online').map(n => n.uuid),
     [nodes],
   );
 
-  const hasCriticalNode = useMemo(() => {
-    return nodes.some(n => {
-      if (!n.stats || n.status !== 'online') return false;
-      return n.stats.cpu.usage > 90 || (n.stats.ram.used / n.stats.ram.total) > 0.95;
-    });
-  }, [nodes]);
-
   const viewButtons = useMemo<{ mode: ViewMode; icon: typeof Globe; label: string }[]>(() => [
     { mode: 'globe', icon: Globe, label: t('view.globe') },
     { mode: 'grid', icon: LayoutGrid, label: t('view.grid') },
@@ -610,6 +690,14 @@ function App() {
   return (
     <NodesContext.Provider value={{ nodes, loading, refreshNodes }}>
       <RecentStatsProvider onlineUuids={onlineUuids}>
+      <AlertsProvider nodes={nodes}>
+      <NotificationsProvider nodes={nodes}>
+      <EventsProvider nodes={nodes}>
+      <CompareProvider>
+      <SavedViewsProvider>
+      <TrafficForecastProvider nodes={nodes}>
+      <TableColumnsProvider>
+      <AnomalyCountsProvider nodes={nodes}>
       <ViewModeContext.Provider value={{ viewMode, setViewMode: handleSetViewMode }}>
         <div className="min-h-screen flex flex-col bg-background text-foreground">
           {/* ═══ Header ═══ */}
@@ -627,13 +715,8 @@ function App() {
                   >
                     {siteName}
                   </button>
-                  {hasCriticalNode && (
-                    <div className="flex items-center gap-1.5 px-2 py-0.5 rounded bg-red-500/10 border border-red-500/20 text-xs font-mono text-red-500 animate-pulse threat-badge">
-                      <AlertTriangle className="h-3 w-3" />
-                      <span className="hidden lg:inline uppercase tracking-widest glitch-text">System Threat Detected</span>
-                      <span className="lg:hidden uppercase">Threat</span>
-                    </div>
-                  )}
+                  <StaleIndicator />
+                  <ThreatBadge />
                 </div>
                 <div className="flex items-center gap-2">
                   <div className="flex border border-border/50 rounded overflow-hidden">
@@ -642,7 +725,6 @@ function App() {
                         key={mode}
                         onClick={() => {
                           handleSetViewMode(mode);
-                          if (!isDashboard) navigate('/');
                         }}
                         className={`p-1.5 transition-colors cursor-pointer ${viewMode === mode ? 'bg-primary text-primary-foreground' : 'hover:bg-muted/50'}`}
                         title={label}
@@ -651,6 +733,40 @@ function App() {
                       </button>
                     ))}
                   </div>
+                  <SavedViewsMenu />
+                  <button
+                    onClick={() => navigate('/fleet')}
+                    className={`p-1.5 rounded border border-border/50 transition-colors cursor-pointer ${location.pathname === '/fleet' ? 'bg-primary text-primary-foreground' : 'hover:bg-muted/50'}`}
+                    title={t('fleet.overview')}
+                  >
+                    <ChartArea className="h-3.5 w-3.5" />
+                  </button>
+                  {appConfig.isLoggedIn && (
+                    <button
+                      onClick={() => navigate('/billing')}
+                      className={`p-1.5 rounded border border-border/50 transition-colors cursor-pointer ${location.pathname === '/billing' ? 'bg-primary text-primary-foreground' : 'hover:bg-muted/50'}`}
+                      title={t('billing.title')}
+                    >
+                      <Wallet className="h-3.5 w-3.5" />
+                    </button>
+                  )}
+                  {appConfig.isLoggedIn && (
+                    <button
+                      onClick={() => navigate('/expiry')}
+                      className={`p-1.5 rounded border border-border/50 transition-colors cursor-pointer ${location.pathname === '/expiry' ? 'bg-primary text-primary-foreground' : 'hover:bg-muted/50'}`}
+                      title={t('expiry.title')}
+                    >
+                      <CalendarClock className="h-3.5 w-3.5" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => navigate('/events')}
+                    className={`p-1.5 rounded border border-border/50 transition-colors cursor-pointer ${location.pathname === '/events' ? 'bg-primary text-primary-foreground' : 'hover:bg-muted/50'}`}
+                    title={t('events.title')}
+                  >
+                    <ScrollText className="h-3.5 w-3.5" />
+                  </button>
+                  <AlertsButton nodes={nodes} />
                   <LanguageSwitcher />
                   <ThemeSwitcher />
                   {appConfig.isLoggedIn ? (
@@ -686,12 +802,8 @@ function App() {
                 >
                   {siteName}
                 </button>
-                {hasCriticalNode && (
-                  <div className="flex items-center gap-1.5 px-2 py-0.5 rounded bg-red-500/10 border border-red-500/20 text-xs font-mono text-red-500 animate-pulse threat-badge shrink-0">
-                    <AlertTriangle className="h-3 w-3" />
-                    <span className="uppercase">Threat</span>
-                  </div>
-                )}
+                <StaleIndicator className="ml-auto mr-2" />
+                <ThreatBadge compact className="shrink-0" />
               </div>
               {/* Mobile: Row 2 — view switcher + controls */}
               <div className="sm:hidden flex items-center justify-between pb-1.5">
@@ -701,7 +813,6 @@ function App() {
                       key={mode}
                       onClick={() => {
                         handleSetViewMode(mode);
-                        if (!isDashboard) navigate('/');
                       }}
                       className={`p-1.5 transition-colors cursor-pointer ${viewMode === mode ? 'bg-primary text-primary-foreground' : 'hover:bg-muted/50'}`}
                       title={label}
@@ -711,6 +822,40 @@ function App() {
                   ))}
                 </div>
                 <div className="flex items-center gap-1.5">
+                  <SavedViewsMenu />
+                  <button
+                    onClick={() => navigate('/fleet')}
+                    className={`p-1.5 rounded border border-border/50 transition-colors cursor-pointer ${location.pathname === '/fleet' ? 'bg-primary text-primary-foreground' : 'hover:bg-muted/50'}`}
+                    title={t('fleet.overview')}
+                  >
+                    <ChartArea className="h-3.5 w-3.5" />
+                  </button>
+                  {appConfig.isLoggedIn && (
+                    <button
+                      onClick={() => navigate('/billing')}
+                      className={`p-1.5 rounded border border-border/50 transition-colors cursor-pointer ${location.pathname === '/billing' ? 'bg-primary text-primary-foreground' : 'hover:bg-muted/50'}`}
+                      title={t('billing.title')}
+                    >
+                      <Wallet className="h-3.5 w-3.5" />
+                    </button>
+                  )}
+                  {appConfig.isLoggedIn && (
+                    <button
+                      onClick={() => navigate('/expiry')}
+                      className={`p-1.5 rounded border border-border/50 transition-colors cursor-pointer ${location.pathname === '/expiry' ? 'bg-primary text-primary-foreground' : 'hover:bg-muted/50'}`}
+                      title={t('expiry.title')}
+                    >
+                      <CalendarClock className="h-3.5 w-3.5" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => navigate('/events')}
+                    className={`p-1.5 rounded border border-border/50 transition-colors cursor-pointer ${location.pathname === '/events' ? 'bg-primary text-primary-foreground' : 'hover:bg-muted/50'}`}
+                    title={t('events.title')}
+                  >
+                    <ScrollText className="h-3.5 w-3.5" />
+                  </button>
+                  <AlertsButton nodes={nodes} />
                   <LanguageSwitcher />
                   <ThemeSwitcher />
                   {appConfig.isLoggedIn ? (
@@ -743,7 +888,19 @@ function App() {
               <Route path="/" element={<Dashboard />} />
               <Route path="/node/:uuid" element={<NodeDetailRoute />} />
               <Route path="/node/:uuid/network" element={<NodeNetworkRoute />} />
+              <Route path="/events" element={<EventsView nodes={nodes} />} />
+              <Route path="/compare" element={<CompareView nodes={nodes} />} />
+              <Route path="/fleet" element={<FleetView nodes={nodes} />} />
+              <Route
+                path="/billing"
+                element={!appConfig.loaded ? null : appConfig.isLoggedIn ? <BillingView nodes={nodes} /> : <Navigate to="/" replace />}
+              />
+              <Route
+                path="/expiry"
+                element={!appConfig.loaded ? null : appConfig.isLoggedIn ? <ExpiryView nodes={nodes} /> : <Navigate to="/" replace />}
+              />
             </Routes>
+            <CompareBar />
           </main>
 
           {/* ═══ Footer ═══ */}
@@ -756,8 +913,7 @@ function App() {
                 <span className="hidden sm:inline"><ClockDisplay /></span>
                 <span className="hidden sm:inline text-muted-foreground/60">|</span>
                 <div className="hidden sm:flex items-center gap-2">
-                  <span>↑ {formatSpeed(networkStats.totalUp)}</span>
-                  <span>↓ {formatSpeed(networkStats.totalDown)}</span>
+                  <NetworkTotals />
                 </div>
               </div>
               <div className="flex items-center gap-2">
@@ -801,6 +957,14 @@ function App() {
           <EffectsOverlay activeEffects={activeEffects} />
         </div>
       </ViewModeContext.Provider>
+      </AnomalyCountsProvider>
+      </TableColumnsProvider>
+      </TrafficForecastProvider>
+      </SavedViewsProvider>
+      </CompareProvider>
+      </EventsProvider>
+      </NotificationsProvider>
+      </AlertsProvider>
       </RecentStatsProvider>
     </NodesContext.Provider>
   );
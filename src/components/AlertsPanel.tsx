@@ -0,0 +1,545 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useNavigate } from 'react-router-dom';
+import { motion } from 'motion/react';
+import { X, Bell, Plus, Pencil, Trash2, RotateCcw, AlertTriangle, Send } from 'lucide-react';
+import type { NodeWithStatus } from '@/services/api';
+import { useAlerts } from '@/hooks/useAlerts';
+import { useNotifications } from '@/hooks/useNotifications';
+import type { NotificationSettings } from '@/lib/notifier';
+import {
+  ALERT_METRICS,
+  ALERT_COMPARATORS,
+  formatCondition,
+  type AlertRule,
+  type AlertMetric,
+  type AlertComparator,
+  type AlertScopeType,
+  type AlertSeverity,
+} from '@/lib/alert-rules';
+import { Switch } from './ui/switch';
+import { cn, formatUptime, splitTags } from '@/lib/utils';
+
+const scopeKeys: Record<AlertScopeType, string> = {
+  all: 'alert.scopeAll',
+  node: 'alert.scopeNode',
+  group: 'alert.scopeGroup',
+  tag: 'alert.scopeTag',
+};
+
+const inputClass = 'h-7 w-full px-2 rounded bg-muted/30 border border-border/40 text-xs font-mono focus:outline-none focus:border-primary/50';
+
+function newRule(): AlertRule {
+  return {
+    id: `rule-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    name: '',
+    enabled: true,
+    scope: 'all',
+    target: '',
+    metric: 'cpu',
+    comparator: '>',
+    threshold: 80,
+    forSeconds: 60,
+    severity: 'warning',
+  };
+}
+
+function formatValue(value: number, metric: AlertMetric): string {
+  const digits = Math.abs(value) >= 100 ? 0 : 1;
+  return `${value.toFixed(digits)}${ALERT_METRICS[metric].unit}`;
+}
+
+function formatSince(ms: number): string {
+  const seconds = Math.max(0, Math.floor((Date.now() - ms) / 1000));
+  return seconds < 60 ? `${seconds}s` : formatUptime(seconds, 'minute');
+}
+
+/* ── Rule editor form ── */
+function RuleForm({
+  rule,
+  nodes,
+  onSave,
+  onCancel,
+}: {
+  rule: AlertRule;
+  nodes: NodeWithStatus[];
+  onSave: (rule: AlertRule) => void;
+  onCancel: () => void;
+}) {
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState<AlertRule>(rule);
+  const update = (patch: Partial<AlertRule>) => setDraft(d => ({ ...d, ...patch }));
+
+  const targetOptions = useMemo(() => {
+    switch (draft.scope) {
+      case 'node':
+        return nodes.map(n => ({ value: n.uuid, label: n.name }));
+      case 'group':
+        return Array.from(new Set(nodes.map(n => n.group).filter(Boolean))).sort().map(g => ({ value: g, label: g }));
+      case 'tag':
+        return Array.from(new Set(nodes.flatMap(n => splitTags(n.tags)))).sort().map(tag => ({ value: tag, label: tag }));
+      default:
+        return [];
+    }
+  }, [draft.scope, nodes]);
+
+  const canSave = draft.scope === 'all' || draft.target !== '';
+
+  return (
+    <div className="p-3 space-y-2 border border-primary/30 rounded bg-primary/5">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        <label className="col-span-2 space-y-0.5">
+          <span className="text-xxs font-mono text-muted-foreground uppercase">{t('alert.name')}</span>
+          <input className={inputClass} value={draft.name} onChange={e => update({ name: e.target.value })} />
+        </label>
+        <label className="space-y-0.5">
+          <span className="text-xxs font-mono text-muted-foreground uppercase">{t('alert.scope')}</span>
+          <select
+            className={inputClass}
+            value={draft.scope}
+            onChange={e => update({ scope: e.target.value as AlertScopeType, target: '' })}
+          >
+            {(Object.keys(scopeKeys) as AlertScopeType[]).map(s => (
+              <option key={s} value={s}>{t(scopeKeys[s])}</option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-0.5">
+          <span className="text-xxs font-mono text-muted-foreground uppercase">{t('alert.target')}</span>
+          <select
+            className={inputClass}
+            value={draft.target}
+            disabled={draft.scope === 'all'}
+            onChange={e => update({ target: e.target.value })}
+          >
+            <option value="">—</option>
+            {targetOptions.map(o => (
+              <option key={o.value} value={o.value}>{o.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-0.5">
+          <span className="text-xxs font-mono text-muted-foreground uppercase">{t('alert.metric')}</span>
+          <select
+            className={inputClass}
+            value={draft.metric}
+            onChange={e => update({ metric: e.target.value as AlertMetric })}
+          >
+            {(Object.keys(ALERT_METRICS) as AlertMetric[]).map(m => (
+              <option key={m} value={m}>{t(ALERT_METRICS[m].labelKey)}</option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-0.5">
+          <span className="text-xxs font-mono text-muted-foreground uppercase">{t('alert.threshold')}</span>
+          <div className="flex gap-1">
+            <select
+              className={cn(inputClass, 'w-14')}
+              value={draft.comparator}
+              onChange={e => update({ comparator: e.target.value as AlertComparator })}
+            >
+              {ALERT_COMPARATORS.map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+            <input
+              type="number"
+              className={inputClass}
+              value={draft.threshold}
+              onChange={e => update({ threshold: Number(e.target.value) })}
+            />
+          </div>
+        </label>
+        <label className="space-y-0.5">
+          <span className="text-xxs font-mono text-muted-foreground uppercase">{t('alert.forSeconds')}</span>
+          <input
+            type="number"
+            min={0}
+            className={inputClass}
+            value={draft.forSeconds}
+            onChange={e => update({ forSeconds: Math.max(0, Number(e.target.value)) })}
+          />
+        </label>
+        <label className="space-y-0.5">
+          <span className="text-xxs font-mono text-muted-foreground uppercase">{t('alert.severity')}</span>
+          <select
+            className={inputClass}
+            value={draft.severity}
+            onChange={e => update({ severity: e.target.value as AlertSeverity })}
+          >
+            <option value="warning">{t('alert.severityWarning')}</option>
+            <option value="critical">{t('alert.severityCritical')}</option>
+          </select>
+        </label>
+      </div>
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          className="h-7 px-3 rounded text-xs font-mono text-muted-foreground hover:bg-muted/50 transition-colors cursor-pointer"
+        >
+          {t('alert.cancel')}
+        </button>
+        <button
+          disabled={!canSave}
+          onClick={() => onSave({ ...draft, name: draft.name.trim() || formatCondition(draft) })}
+          className="h-7 px-3 rounded text-xs font-mono font-bold bg-primary/15 text-primary border border-primary/30 hover:bg-primary/25 transition-colors cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {t('alert.save')}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/* ── Notification preferences ── */
+function SettingRow({ label, checked, disabled, onChange }: { label: string; checked: boolean; disabled?: boolean; onChange: (v: boolean) => void }) {
+  return (
+    <label className={cn('flex items-center justify-between gap-3 px-3 py-2 rounded border border-border/30', disabled && 'opacity-50')}>
+      <span className="text-xs font-mono">{label}</span>
+      <Switch size="sm" checked={checked} disabled={disabled} onCheckedChange={onChange} />
+    </label>
+  );
+}
+
+function NotificationSettingsForm() {
+  const { t } = useTranslation();
+  const { settings, updateSettings, permission, requestPermission, sendTest } = useNotifications();
+  const active = settings.enabled || settings.sound;
+  const [testFailed, setTestFailed] = useState(false);
+
+  const setEnabled = async (enabled: boolean) => {
+    if (enabled && permission === 'default') await requestPermission();
+    updateSettings({ enabled });
+  };
+  const setQuiet = (patch: Partial<NotificationSettings['quietHours']>) =>
+    updateSettings({ quietHours: { ...settings.quietHours, ...patch } });
+
+  return (
+    <div className="space-y-1.5">
+      <SettingRow
+        label={t('notify.desktop')}
+        checked={settings.enabled && permission === 'granted'}
+        disabled={permission === 'unsupported' || permission === 'denied'}
+        onChange={setEnabled}
+      />
+      {(permission === 'unsupported' || permission === 'denied') && (
+        <div className="px-3 text-xxs font-mono text-yellow-500">
+          {permission === 'denied' ? t('notify.denied') : t('notify.unsupported')}
+        </div>
+      )}
+      {permission === 'default' && settings.enabled && (
+        <button
+          onClick={requestPermission}
+          className="ml-3 text-xxs font-mono text-primary hover:underline cursor-pointer"
+        >
+          {t('notify.grant')}
+        </button>
+      )}
+      <SettingRow label={t('notify.sound')} checked={settings.sound} onChange={sound => updateSettings({ sound })} />
+      <div className="pt-2 space-y-1.5">
+        <SettingRow label={t('notify.onOffline')} checked={settings.onOffline} disabled={!active} onChange={onOffline => updateSettings({ onOffline })} />
+        <SettingRow label={t('notify.onRecovery')} checked={settings.onRecovery} disabled={!active} onChange={onRecovery => updateSettings({ onRecovery })} />
+        <SettingRow label={t('notify.onCritical')} checked={settings.onCritical} disabled={!active} onChange={onCritical => updateSettings({ onCritical })} />
+        <SettingRow label={t('notify.onlyWhenHidden')} checked={settings.onlyWhenHidden} disabled={!settings.enabled} onChange={onlyWhenHidden => updateSettings({ onlyWhenHidden })} />
+      </div>
+      <div className={cn('flex items-center justify-between gap-3 px-3 py-2 rounded border border-border/30', !active && 'opacity-50')}>
+        <span className="text-xs font-mono">{t('notify.quietHours')}</span>
+        <div className="flex items-center gap-2">
+          <input
+            type="time"
+            className={cn(inputClass, 'w-24')}
+            value={settings.quietHours.start}
+            disabled={!active || !settings.quietHours.enabled}
+            onChange={e => setQuiet({ start: e.target.value })}
+          />
+          <span className="text-xs font-mono text-muted-foreground">–</span>
+          <input
+            type="time"
+            className={cn(inputClass, 'w-24')}
+            value={settings.quietHours.end}
+            disabled={!active || !settings.quietHours.enabled}
+            onChange={e => setQuiet({ end: e.target.value })}
+          />
+          <Switch
+            size="sm"
+            checked={settings.quietHours.enabled}
+            disabled={!active}
+            onCheckedChange={enabled => setQuiet({ enabled })}
+          />
+        </div>
+      </div>
+      <div className="flex items-center justify-end gap-3 pt-1">
+        {testFailed && (
+          <span className="text-xxs font-mono text-yellow-500">{t('notify.testFailed')}</span>
+        )}
+        <button
+          onClick={() => setTestFailed(!sendTest())}
+          disabled={!active}
+          className="flex items-center gap-1.5 h-7 px-2.5 rounded text-xs font-mono text-muted-foreground hover:bg-muted/50 transition-colors cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <Send className="h-3 w-3" />
+          {t('notify.sendTest')}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/* ══════════════════════════════════════════════════════════════
+   AlertsPanel — active alerts list and rule management
+   ══════════════════════════════════════════════════════════════ */
+
+export function AlertsPanel({ nodes, onClose }: { nodes: NodeWithStatus[]; onClose: () => void }) {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const { rules, alerts, saveRule, removeRule, resetRules } = useAlerts();
+  const [tab, setTab] = useState<'active' | 'rules' | 'notify'>('active');
+  const [editing, setEditing] = useState<AlertRule | null>(null);
+
+  const nodeNames = useMemo(() => new Map(nodes.map(n => [n.uuid, n.name])), [nodes]);
+
+  useEffect(() => {
+    const handler = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    document.addEventListener('keydown', handler);
+    return () => document.removeEventListener('keydown', handler);
+  }, [onClose]);
+
+  const describeScope = (rule: AlertRule) =>
+    rule.scope === 'all'
+      ? t(scopeKeys.all)
+      : `${t(scopeKeys[rule.scope])}: ${rule.scope === 'node' ? nodeNames.get(rule.target) ?? rule.target : rule.target}`;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center" onClick={onClose}>
+      <motion.div
+        className="absolute inset-0 bg-background/60 backdrop-blur-sm"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        transition={{ duration: 0.2 }}
+      />
+      <motion.div
+        className="relative w-[92vw] max-w-3xl max-h-[85vh] flex flex-col bg-card/95 backdrop-blur-xl border border-border/50 rounded-lg shadow-2xl overflow-hidden commander-corners"
+        onClick={(e) => e.stopPropagation()}
+        initial={{ opacity: 0, scale: 0.92, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        transition={{ duration: 0.25, ease: [0.16, 1, 0.3, 1] }}
+      >
+        <span className="corner-bottom" />
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-2.5 border-b border-border/50">
+          <div className="flex items-center gap-3">
+            <span className="flex items-center gap-1.5 text-xs font-mono font-bold uppercase tracking-wider">
+              <Bell className="h-3.5 w-3.5 text-primary" />
+              {t('alert.title')}
+            </span>
+            <div className="flex items-center gap-0.5">
+              {(['active', 'rules', 'notify'] as const).map(id => (
+                <button
+                  key={id}
+                  onClick={() => setTab(id)}
+                  className={cn(
+                    'px-3 py-1 text-xs font-mono font-bold rounded transition-colors cursor-pointer',
+                    tab === id
+                      ? 'bg-primary/15 text-primary border border-primary/30'
+                      : 'text-muted-foreground hover:text-foreground hover:bg-muted/30',
+                  )}
+                >
+                  {id === 'notify' ? t('notify.tab') : t(`alert.${id}`)}
+                  {id === 'active' && alerts.length > 0 && <span className="ml-1.5 tabular-nums">{alerts.length}</span>}
+                </button>
+              ))}
+            </div>
+          </div>
+          <button onClick={onClose} className="p-1 rounded hover:bg-muted/50 transition-colors cursor-pointer">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-3">
+          {tab === 'notify' ? (
+            <NotificationSettingsForm />
+          ) : tab === 'active' ? (
+            alerts.length === 0 ? (
+              <div className="py-10 text-center text-xs font-mono text-muted-foreground">{t('alert.noActive')}</div>
+            ) : (
+              <div className="space-y-1">
+                {alerts.map(alert => (
+                  <button
+                    key={`${alert.ruleId}:${alert.uuid}`}
+                    onClick={() => { onClose(); navigate(`/node/${alert.uuid}`); }}
+                    className="w-full flex items-center gap-3 px-3 py-2 rounded border border-border/30 hover:bg-primary/5 text-left transition-colors cursor-pointer"
+                  >
+                    <span className={cn(
+                      'w-2 h-2 rounded-full shrink-0',
+                      alert.rule.severity === 'critical' ? 'bg-red-500' : 'bg-yellow-500',
+                      alert.phase === 'firing' && 'animate-pulse',
+                    )} />
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-baseline gap-2 min-w-0">
+                        <span className="text-sm font-display font-bold truncate">{alert.node.name}</span>
+                        <span className="text-xs font-mono text-muted-foreground truncate">{alert.rule.name}</span>
+                      </div>
+                      <div className="text-xxs font-mono text-muted-foreground/70">
+                        {formatCondition(alert.rule)} · {formatValue(alert.value, alert.rule.metric)}
+                      </div>
+                    </div>
+                    <span className={cn(
+                      'text-xxs font-mono font-bold px-1.5 py-0.5 rounded-sm border shrink-0',
+                      alert.phase === 'pending'
+                        ? 'text-muted-foreground bg-muted/30 border-border/30'
+                        : alert.rule.severity === 'critical'
+                          ? 'text-red-500 bg-red-500/10 border-red-500/20'
+                          : 'text-yellow-500 bg-yellow-500/10 border-yellow-500/20',
+                    )}>
+                      {alert.phase === 'firing' ? t('alert.firing') : t('alert.pending')}
+                    </span>
+                    <span className="text-xxs font-mono text-muted-foreground tabular-nums w-16 text-right shrink-0">
+                      {formatSince(alert.firedAt ?? alert.since)}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )
+          ) : (
+            <div className="space-y-2">
+              {rules.length === 0 && !editing && (
+                <div className="py-6 text-center text-xs font-mono text-muted-foreground">{t('alert.noRules')}</div>
+              )}
+              {rules.map(rule => (
+                editing?.id === rule.id ? (
+                  <RuleForm
+                    key={rule.id}
+                    rule={editing}
+                    nodes={nodes}
+                    onSave={(r) => { saveRule(r); setEditing(null); }}
+                    onCancel={() => setEditing(null)}
+                  />
+                ) : (
+                  <div key={rule.id} className="flex items-center gap-3 px-3 py-2 rounded border border-border/30">
+                    <Switch
+                      size="sm"
+                      checked={rule.enabled}
+                      onCheckedChange={(enabled) => saveRule({ ...rule, enabled })}
+                    />
+                    <div className={cn('flex-1 min-w-0', !rule.enabled && 'opacity-50')}>
+                      <div className="flex items-baseline gap-2 min-w-0">
+                        <span className="text-xs font-mono font-bold truncate">{rule.name}</span>
+                        <span className={cn(
+                          'text-xxs font-mono',
+                          rule.severity === 'critical' ? 'text-red-500' : 'text-yellow-500',
+                        )}>
+                          {rule.severity === 'critical' ? t('alert.severityCritical') : t('alert.severityWarning')}
+                        </span>
+                      </div>
+                      <div className="text-xxs font-mono text-muted-foreground/70 truncate">
+                        {describeScope(rule)} · {formatCondition(rule)}
+                        {rule.forSeconds > 0 && ` · ${t('alert.for')} ${rule.forSeconds}s`}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => setEditing(rule)}
+                      title={t('alert.editRule')}
+                      className="p-1 rounded text-muted-foreground hover:text-primary hover:bg-primary/10 transition-colors cursor-pointer"
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </button>
+                    <button
+                      onClick={() => removeRule(rule.id)}
+                      title={t('alert.delete')}
+                      className="p-1 rounded text-muted-foreground hover:text-red-500 hover:bg-red-500/10 transition-colors cursor-pointer"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </button>
+                  </div>
+                )
+              ))}
+              {editing && !rules.some(r => r.id === editing.id) && (
+                <RuleForm
+                  rule={editing}
+                  nodes={nodes}
+                  onSave={(r) => { saveRule(r); setEditing(null); }}
+                  onCancel={() => setEditing(null)}
+                />
+              )}
+              <div className="flex justify-between pt-1">
+                <button
+                  onClick={() => { resetRules(); setEditing(null); }}
+                  className="flex items-center gap-1.5 h-7 px-2.5 rounded text-xs font-mono text-muted-foreground hover:bg-muted/50 transition-colors cursor-pointer"
+                >
+                  <RotateCcw className="h-3 w-3" />
+                  {t('alert.resetRules')}
+                </button>
+                <button
+                  onClick={() => setEditing(newRule())}
+                  disabled={editing !== null}
+                  className="flex items-center gap-1.5 h-7 px-2.5 rounded text-xs font-mono font-bold bg-primary/15 text-primary border border-primary/30 hover:bg-primary/25 transition-colors cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  <Plus className="h-3 w-3" />
+                  {t('alert.addRule')}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
+
+/** Header bell — shows the firing count and opens the alerts panel */
+export function AlertsButton({ nodes }: { nodes: NodeWithStatus[] }) {
+  const { t } = useTranslation();
+  const { firing } = useAlerts();
+  const [open, setOpen] = useState(false);
+  const hasCritical = firing.some(a => a.rule.severity === 'critical');
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        title={t('alert.title')}
+        className={cn(
+          'relative p-1.5 rounded border border-border/50 transition-colors cursor-pointer hover:bg-muted/50',
+          firing.length > 0 && (hasCritical ? 'text-red-500' : 'text-yellow-500'),
+        )}
+      >
+        <Bell className="h-3.5 w-3.5" />
+        {firing.length > 0 && (
+          <span className={cn(
+            'absolute -top-1.5 -right-1.5 min-w-4 h-4 px-0.5 rounded-full text-xxs font-mono font-bold leading-4 text-white',
+            hasCritical ? 'bg-red-500' : 'bg-yellow-500',
+          )}>
+            {firing.length > 99 ? '99+' : firing.length}
+          </span>
+        )}
+      </button>
+      {open && <AlertsPanel nodes={nodes} onClose={() => setOpen(false)} />}
+    </>
+  );
+}
+
+/** Threat badge — visible while any alert is firing */
+export function ThreatBadge({ compact = false, className }: { compact?: boolean; className?: string }) {
+  const { firing } = useAlerts();
+  if (firing.length === 0) return null;
+  const hasCritical = firing.some(a => a.rule.severity === 'critical');
+
+  return (
+    <div className={cn(
+      'flex items-center gap-1.5 px-2 py-0.5 rounded text-xs font-mono threat-badge',
+      hasCritical
+        ? 'bg-red-500/10 border border-red-500/20 text-red-500 animate-pulse'
+        : 'bg-yellow-500/10 border border-yellow-500/20 text-yellow-500',
+      className,
+    )}>
+      <AlertTriangle className="h-3 w-3" />
+      {compact ? (
+        <span className="uppercase">Threat</span>
+      ) : (
+        <>
+          <span className="hidden lg:inline uppercase tracking-widest glitch-text">System Threat Detected</span>
+          <span className="lg:hidden uppercase">Threat</span>
+        </>
+      )}
+      <span className="tabular-nums">{firing.length}</span>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import { useTranslation } from 'react-i18next';
+import { TriangleAlert } from 'lucide-react';
+import type { AnomalyRegion } from '@/lib/anomaly';
+import { labelFormatter } from '@/lib/chart-utils';
+import { cn } from '@/lib/utils';
+
+/** Anomaly count for the visible range; toggles the shaded regions on the charts */
+export function AnomalyBadge({
+  regions,
+  labels,
+  shown,
+  onToggle,
+}: {
+  regions: AnomalyRegion[];
+  /** Display name per metric key */
+  labels: Record<string, string>;
+  shown: boolean;
+  onToggle: () => void;
+}) {
+  const { t } = useTranslation();
+  if (!regions.length) return null;
+
+  const list = regions.map(r => `${labelFormatter(r.start)} — ${r.keys.map(key => labels[key] ?? key).join(', ')}`).join('\n');
+
+  return (
+    <button
+      onClick={onToggle}
+      className={cn(
+        'flex items-center gap-1 text-xxs font-mono font-bold px-1.5 py-0.5 rounded-sm border transition-colors cursor-pointer',
+        shown
+          ? 'text-orange-500 bg-orange-500/10 border-orange-500/20'
+          : 'text-muted-foreground/60 border-border/40 line-through',
+      )}
+      title={`${t('chart.anomaliesHint')}\n\n${list}`}
+    >
+      <TriangleAlert className="h-3 w-3" />
+      {t('chart.anomalies', { count: regions.length })}
+    </button>
+  );
+}
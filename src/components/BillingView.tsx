@@ -0,0 +1,424 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Link } from 'react-router-dom';
+import dayjs from 'dayjs';
+import { Wallet, ChevronLeft, ChevronRight, Download, Settings2, RefreshCw, AlertTriangle } from 'lucide-react';
+import type { NodeWithStatus } from '@/services/api';
+import {
+  costBreakdown,
+  cycleLabel,
+  expiryDate,
+  formatMoney,
+  isBillable,
+  loadBillingSettings,
+  nodeCost,
+  rebaseRates,
+  saveBillingSettings,
+  DEFAULT_BILLING_SETTINGS,
+  type BillingSettings,
+  type BreakdownKey,
+  type NodeCost,
+} from '@/lib/billing';
+import { toCsv, downloadText, fileTimestamp } from '@/lib/export';
+import { cn, formatExpiry, getExpiryStatus } from '@/lib/utils';
+import { useExpirySettings } from '@/hooks/useExpirySettings';
+
+const breakdownKeys: Record<BreakdownKey, string> = {
+  group: 'billing.byGroup',
+  tag: 'billing.byTag',
+  region: 'billing.byRegion',
+};
+
+type SortKey = 'name' | 'monthly' | 'perVcpu' | 'perGb' | 'expiry';
+
+const inputClass = 'h-7 px-2 rounded bg-muted/30 border border-border/40 text-xs font-mono focus:outline-none focus:border-primary/50';
+
+function StatCard({ label, value, sub }: { label: string; value: string; sub?: string }) {
+  return (
+    <div className="p-2.5 rounded-lg border border-border/50 bg-card/80 backdrop-blur-xl">
+      <div className="text-xxs font-mono text-muted-foreground uppercase tracking-wider">{label}</div>
+      <div className="text-lg font-mono font-bold tabular-nums">{value}</div>
+      {sub && <div className="text-xxs font-mono text-muted-foreground/60">{sub}</div>}
+    </div>
+  );
+}
+
+/* ── Exchange rate editor ── */
+function RateEditor({
+  settings,
+  currencies,
+  onChange,
+}: {
+  settings: BillingSettings;
+  currencies: string[];
+  onChange: (settings: BillingSettings) => void;
+}) {
+  const { t } = useTranslation();
+  const [newCurrency, setNewCurrency] = useState('');
+  const all = Array.from(new Set([...currencies, ...Object.keys(settings.rates)]))
+    .filter(c => c !== settings.baseCurrency)
+    .sort();
+
+  const setRate = (currency: string, rate: number) =>
+    onChange({ ...settings, rates: { ...settings.rates, [currency]: rate } });
+
+  return (
+    <div className="rounded-lg border border-border/50 bg-card/80 backdrop-blur-xl p-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-xs font-mono">
+        <span className="text-muted-foreground">{t('billing.baseCurrency')}</span>
+        <select
+          className={inputClass}
+          value={settings.baseCurrency}
+          onChange={e => onChange(rebaseRates(settings, e.target.value))}
+        >
+          {[settings.baseCurrency, ...all].map(c => <option key={c} value={c}>{c}</option>)}
+        </select>
+        <button
+          onClick={() => onChange(DEFAULT_BILLING_SETTINGS)}
+          className="ml-auto flex items-center gap-1 px-2 py-1 rounded text-muted-foreground hover:text-foreground hover:bg-muted/30 transition-colors cursor-pointer"
+        >
+          <RefreshCw className="h-3 w-3" />
+          {t('billing.resetRates')}
+        </button>
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-6 gap-2">
+        {all.map(c => (
+          <label key={c} className={cn('flex items-center gap-1.5 text-xs font-mono', !currencies.includes(c) && 'opacity-60')}>
+            <span className="w-10 shrink-0 text-right">1 {c}</span>
+            <span className="text-muted-foreground">=</span>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              className={cn(inputClass, 'w-full min-w-0')}
+              value={settings.rates[c] ?? ''}
+              onChange={e => setRate(c, Number(e.target.value))}
+            />
+          </label>
+        ))}
+        <form
+          className="flex items-center gap-1.5"
+          onSubmit={e => {
+            e.preventDefault();
+            const c = newCurrency.trim();
+            if (c && !(c in settings.rates)) setRate(c, 1);
+            setNewCurrency('');
+          }}
+        >
+          <input
+            className={cn(inputClass, 'w-full min-w-0')}
+            placeholder={t('billing.addCurrency')}
+            value={newCurrency}
+            onChange={e => setNewCurrency(e.target.value)}
+          />
+        </form>
+      </div>
+    </div>
+  );
+}
+
+/* ── Month grid of upcoming renewals ── */
+function RenewalCalendar({
+  nodes,
+  costs,
+  currency,
+}: {
+  nodes: NodeWithStatus[];
+  costs: Map<string, NodeCost>;
+  currency: string;
+}) {
+  const { t } = useTranslation();
+  const [month, setMonth] = useState(() => dayjs().startOf('month'));
+
+  const byDay = useMemo(() => {
+    const map = new Map<string, NodeWithStatus[]>();
+    for (const node of nodes) {
+      const d = expiryDate(node);
+      if (!d || !d.isSame(month, 'month')) continue;
+      const key = d.format('YYYY-MM-DD');
+      map.set(key, [...(map.get(key) ?? []), node]);
+    }
+    return map;
+  }, [nodes, month]);
+
+  // Monday-first grid covering the whole month
+  const start = month.subtract((month.day() + 6) % 7, 'day');
+  const days = Array.from({ length: Math.ceil(((month.day() + 6) % 7 + month.daysInMonth()) / 7) * 7 }, (_, i) => start.add(i, 'day'));
+  const today = dayjs().format('YYYY-MM-DD');
+  const monthTotal = Array.from(byDay.values()).flat()
+    .reduce((sum, n) => sum + (costs.get(n.uuid)?.price ?? 0), 0);
+
+  return (
+    <div className="rounded-lg border border-border/50 bg-card/80 backdrop-blur-xl p-3">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs font-display font-bold text-muted-foreground uppercase tracking-wider">
+          {t('billing.renewals')}
+        </span>
+        <div className="flex items-center gap-1 text-xs font-mono">
+          <span className="text-muted-foreground mr-2 tabular-nums">{formatMoney(monthTotal, currency)}</span>
+          <button onClick={() => setMonth(m => m.subtract(1, 'month'))} className="p-1 rounded hover:bg-muted/50 cursor-pointer">
+            <ChevronLeft className="h-3.5 w-3.5" />
+          </button>
+          <span className="w-20 text-center font-bold">{month.format('YYYY-MM')}</span>
+          <button onClick={() => setMonth(m => m.add(1, 'month'))} className="p-1 rounded hover:bg-muted/50 cursor-pointer">
+            <ChevronRight className="h-3.5 w-3.5" />
+          </button>
+        </div>
+      </div>
+      <div className="grid grid-cols-7 gap-px bg-border/30 rounded overflow-hidden">
+        {days.map(d => {
+          const key = d.format('YYYY-MM-DD');
+          const due = byDay.get(key) ?? [];
+          const inMonth = d.isSame(month, 'month');
+          return (
+            <div
+              key={key}
+              className={cn(
+                'min-h-16 p-1 bg-card text-xxs font-mono',
+                !inMonth && 'opacity-30',
+                key === today && 'ring-1 ring-inset ring-primary/50',
+              )}
+            >
+              <div className="text-muted-foreground/70 tabular-nums">{d.date()}</div>
+              {due.map(n => (
+                <Link
+                  key={n.uuid}
+                  to={`/node/${n.uuid}`}
+                  title={`${n.name} · ${formatMoney(costs.get(n.uuid)?.price ?? null, currency)}${n.auto_renewal ? ` · ${t('billing.autoRenew')}` : ''}`}
+                  className={cn(
+                    'block truncate px-1 rounded-sm mt-0.5',
+                    n.auto_renewal ? 'bg-primary/15 text-primary' : 'bg-yellow-500/15 text-yellow-500',
+                  )}
+                >
+                  {n.name}
+                </Link>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+/* ══════════════════════════════════════════════════════════════
+   BillingView — normalised cost, breakdowns and renewals (admin)
+   ══════════════════════════════════════════════════════════════ */
+export function BillingView({ nodes }: { nodes: NodeWithStatus[] }) {
+  const { t } = useTranslation();
+  const [settings, setSettings] = useState<BillingSettings>(loadBillingSettings);
+  const { warningDays } = useExpirySettings();
+  const [showRates, setShowRates] = useState(false);
+  const [breakdownBy, setBreakdownBy] = useState<BreakdownKey>('group');
+  const [sortKey, setSortKey] = useState<SortKey>('monthly');
+
+  useEffect(() => {
+    saveBillingSettings(settings);
+  }, [settings]);
+
+  const billable = useMemo(() => nodes.filter(isBillable), [nodes]);
+  const costs = useMemo(() => new Map(billable.map(n => [n.uuid, nodeCost(n, settings)])), [billable, settings]);
+  const currencies = useMemo(() => Array.from(new Set(billable.map(n => n.currency).filter(Boolean))), [billable]);
+  const base = settings.baseCurrency;
+
+  const totals = useMemo(() => {
+    let monthly = 0;
+    let missing = 0;
+    for (const c of costs.values()) {
+      if (c.monthly !== null) monthly += c.monthly;
+      if (c.missingRate) missing++;
+    }
+    return { monthly, yearly: monthly * 12, missing };
+  }, [costs]);
+
+  const breakdown = useMemo(() => costBreakdown(billable, costs, breakdownBy), [billable, costs, breakdownBy]);
+  const maxBreakdown = Math.max(0, ...breakdown.map(r => r.monthly));
+
+  const rows = useMemo(() => {
+    const value = (n: NodeWithStatus): number | string => {
+      const c = costs.get(n.uuid)!;
+      switch (sortKey) {
+        case 'name': return n.name;
+        case 'expiry': return expiryDate(n)?.valueOf() ?? Infinity;
+        default: return c[sortKey] ?? -Infinity;
+      }
+    };
+    return [...billable].sort((a, b) => {
+      const va = value(a);
+      const vb = value(b);
+      if (typeof va === 'string' || typeof vb === 'string') return String(va).localeCompare(String(vb));
+      return sortKey === 'expiry' ? va - vb : vb - va;
+    });
+  }, [billable, costs, sortKey]);
+
+  const exportCsv = () => {
+    const csv = toCsv(rows, [
+      { header: 'name', value: n => n.name },
+      { header: 'group', value: n => n.group },
+      { header: 'region', value: n => n.region },
+      { header: 'price', value: n => n.price },
+      { header: 'currency', value: n => n.currency },
+      { header: 'cycle_days', value: n => n.billing_cycle },
+      { header: `monthly_${base}`, value: n => costs.get(n.uuid)?.monthly?.toFixed(2) },
+      { header: `yearly_${base}`, value: n => costs.get(n.uuid)?.yearly?.toFixed(2) },
+      { header: `per_vcpu_${base}`, value: n => costs.get(n.uuid)?.perVcpu?.toFixed(2) },
+      { header: `per_gb_${base}`, value: n => costs.get(n.uuid)?.perGb?.toFixed(4) },
+      { header: 'expires', value: n => expiryDate(n)?.format('YYYY-MM-DD') },
+      { header: 'auto_renewal', value: n => n.auto_renewal ?? false },
+    ]);
+    downloadText(`billing-${fileTimestamp()}.csv`, csv, 'text/csv;charset=utf-8');
+  };
+
+  const th = (key: SortKey, label: string, align: 'left' | 'right' = 'right') => (
+    <th
+      onClick={() => setSortKey(key)}
+      className={cn(
+        'px-3 py-2 text-xs font-mono font-bold uppercase cursor-pointer select-none hover:text-primary transition-colors',
+        align === 'right' ? 'text-right' : 'text-left',
+        sortKey === key ? 'text-primary' : 'text-muted-foreground/60',
+      )}
+    >
+      {label}
+    </th>
+  );
+
+  return (
+    <div className="space-y-4">
+      {/* ═══ Header bar ═══ */}
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+        <div className="flex items-center gap-3">
+          <Wallet className="h-5 w-5 text-primary" />
+          <h2 className="text-sm font-display font-bold">{t('billing.title')}</h2>
+          <span className="text-xs font-mono text-muted-foreground tabular-nums">{billable.length}/{nodes.length}</span>
+        </div>
+        <div className="flex items-center gap-2 sm:ml-auto">
+          <button
+            onClick={() => setShowRates(s => !s)}
+            className={cn(
+              'flex items-center gap-1 px-2 py-1 rounded border text-xs font-mono transition-colors cursor-pointer',
+              showRates ? 'bg-primary/15 text-primary border-primary/30' : 'border-border/50 hover:bg-muted/50',
+            )}
+          >
+            <Settings2 className="h-3 w-3" /> {t('billing.rates')} ({base})
+          </button>
+          <button
+            onClick={exportCsv}
+            disabled={rows.length === 0}
+            className="flex items-center gap-1 px-2 py-1 rounded border border-border/50 text-xs font-mono hover:bg-muted/50 transition-colors disabled:opacity-40 cursor-pointer"
+          >
+            <Download className="h-3 w-3" /> CSV
+          </button>
+        </div>
+      </div>
+
+      {showRates && <RateEditor settings={settings} currencies={currencies} onChange={setSettings} />}
+
+      {totals.missing > 0 && (
+        <div className="flex items-center gap-2 px-3 py-2 rounded border border-yellow-500/30 bg-yellow-500/10 text-xs font-mono text-yellow-500">
+          <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+          {t('billing.missingRates', { count: totals.missing })}
+        </div>
+      )}
+
+      {/* ═══ Summary ═══ */}
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <StatCard label={t('billing.monthly')} value={formatMoney(totals.monthly, base)} />
+        <StatCard label={t('billing.yearly')} value={formatMoney(totals.yearly, base, 0)} />
+        <StatCard
+          label={t('billing.avgPerNode')}
+          value={formatMoney(billable.length ? totals.monthly / billable.length : null, base)}
+          sub={t('billing.perMonth')}
+        />
+        <StatCard
+          label={t('billing.free')}
+          value={`${nodes.filter(n => n.price === -1).length}`}
+          sub={`${t('label.notSet')}: ${nodes.filter(n => n.price === 0).length}`}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-[1fr_2fr] gap-4">
+        {/* ═══ Breakdown ═══ */}
+        <div className="rounded-lg border border-border/50 bg-card/80 backdrop-blur-xl p-3">
+          <div className="flex items-center gap-0.5 mb-2">
+            {(Object.keys(breakdownKeys) as BreakdownKey[]).map(key => (
+              <button
+                key={key}
+                onClick={() => setBreakdownBy(key)}
+                className={cn(
+                  'px-3 py-1 text-xs font-mono font-bold rounded transition-colors cursor-pointer',
+                  breakdownBy === key
+                    ? 'bg-primary/15 text-primary border border-primary/30'
+                    : 'text-muted-foreground hover:text-foreground hover:bg-muted/30',
+                )}
+              >
+                {t(breakdownKeys[key])}
+              </button>
+            ))}
+          </div>
+          <div className="space-y-1.5">
+            {breakdown.map(row => (
+              <div key={row.key} className="text-xs font-mono">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="truncate">{row.key} <span className="text-muted-foreground/60">×{row.count}</span></span>
+                  <span className="font-bold tabular-nums">{formatMoney(row.monthly, base)}</span>
+                </div>
+                <div className="h-[3px] w-full bg-muted/40 rounded-full overflow-hidden mt-0.5">
+                  <div className="h-full bg-primary rounded-full" style={{ width: `${maxBreakdown ? (row.monthly / maxBreakdown) * 100 : 0}%` }} />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <RenewalCalendar nodes={billable} costs={costs} currency={base} />
+      </div>
+
+      {/* ═══ Per-node costs ═══ */}
+      <div className="rounded-lg border border-border/50 bg-card/80 backdrop-blur-xl overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-border/40 bg-muted/15">
+              {th('name', t('table.node'), 'left')}
+              <th className="px-3 py-2 text-right text-xs font-mono font-bold uppercase text-muted-foreground/60">{t('billing.price')}</th>
+              {th('monthly', t('billing.monthly'))}
+              {th('perVcpu', t('billing.perVcpu'))}
+              {th('perGb', t('billing.perGb'))}
+              {th('expiry', t('billing.nextRenewal'))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(n => {
+              const c = costs.get(n.uuid)!;
+              const expiry = getExpiryStatus(n.expired_at, warningDays);
+              return (
+                <tr key={n.uuid} className="border-b border-border/20 last:border-0 hover:bg-primary/5 transition-colors">
+                  <td className="px-3 py-2">
+                    <Link to={`/node/${n.uuid}`} className="text-xs font-mono font-bold hover:text-primary transition-colors">{n.name}</Link>
+                    {n.group && <span className="ml-2 text-xxs font-mono text-muted-foreground/60">{n.group}</span>}
+                  </td>
+                  <td className="px-3 py-2 text-right text-xs font-mono tabular-nums">
+                    {n.currency}{n.price} / {cycleLabel(n.billing_cycle)}
+                    {c.missingRate && <AlertTriangle className="inline h-3 w-3 ml-1 text-yellow-500" />}
+                  </td>
+                  <td className="px-3 py-2 text-right text-xs font-mono font-bold tabular-nums">{formatMoney(c.monthly, base)}</td>
+                  <td className="px-3 py-2 text-right text-xs font-mono tabular-nums">{formatMoney(c.perVcpu, base)}</td>
+                  <td className="px-3 py-2 text-right text-xs font-mono tabular-nums">{formatMoney(c.perGb, base, 4)}</td>
+                  <td className={cn(
+                    'px-3 py-2 text-right text-xs font-mono tabular-nums',
+                    expiry === 'expired' ? 'text-red-500' : expiry === 'warning' ? 'text-yellow-500' : 'text-muted-foreground',
+                  )}>
+                    {formatExpiry(n.expired_at) || '—'}
+                    {n.auto_renewal && <span className="ml-1 text-primary" title={t('billing.autoRenew')}>↻</span>}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {rows.length === 0 && (
+          <div className="py-10 text-center text-xs font-mono text-muted-foreground">{t('billing.noPrices')}</div>
+        )}
+      </div>
+    </div>
+  );
+}
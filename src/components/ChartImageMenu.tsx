@@ -0,0 +1,106 @@
+import { useState, useRef, useEffect, type RefObject } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ImageDown, Copy, Check } from 'lucide-react';
+import { captureChart, chartToPng, canCopyImages, copyPng, type ChartCaption } from '@/lib/chart-image';
+import { downloadBlob, fileSlug, fileTimestamp } from '@/lib/export';
+import { cn } from '@/lib/utils';
+
+/**
+ * PNG/SVG download and clipboard copy for one chart. Without `targetRef` the
+ * chart is looked up in the surrounding card.
+ */
+export function ChartImageMenu({
+  caption,
+  fileName,
+  targetRef,
+  className,
+}: {
+  caption: ChartCaption;
+  /** Base filename; the timestamp and extension are appended */
+  fileName: string;
+  targetRef?: RefObject<HTMLElement | null>;
+  className?: string;
+}) {
+  const { t } = useTranslation();
+  const [open, setOpen] = useState(false);
+  const [status, setStatus] = useState<'copied' | 'failed' | null>(null);
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  // Close on outside click
+  useEffect(() => {
+    if (!open) return;
+    const handler = (e: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handler);
+    return () => document.removeEventListener('mousedown', handler);
+  }, [open]);
+
+  const capture = () => {
+    const target = targetRef?.current ?? panelRef.current?.closest('[data-slot="card"]');
+    const image = target ? captureChart(target, caption) : null;
+    if (!image) throw new Error('No chart rendered');
+    return image;
+  };
+
+  const name = () => `${fileSlug(fileName)}-${fileTimestamp()}`;
+
+  const run = async (action: 'png' | 'svg' | 'copy') => {
+    setStatus(null);
+    try {
+      const image = capture();
+      if (action === 'svg') {
+        downloadBlob(`${name()}.svg`, new Blob([image.svg], { type: 'image/svg+xml;charset=utf-8' }));
+      } else if (action === 'png') {
+        downloadBlob(`${name()}.png`, await chartToPng(image));
+      } else {
+        await copyPng(chartToPng(image));
+        setStatus('copied');
+        return;
+      }
+      setOpen(false);
+    } catch {
+      setStatus('failed');
+    }
+  };
+
+  const itemClass = 'w-full flex items-center gap-2 px-2 py-1.5 rounded-md text-left text-xs font-mono transition-colors hover:bg-primary/10 hover:text-primary disabled:opacity-40 cursor-pointer';
+
+  return (
+    <div className={cn('relative', className)} ref={panelRef}>
+      <button
+        onClick={() => { setOpen(o => !o); setStatus(null); }}
+        className={cn(
+          'p-1 rounded transition-colors cursor-pointer',
+          open ? 'text-primary bg-primary/10' : 'text-muted-foreground/60 hover:text-primary hover:bg-muted/30',
+        )}
+        title={t('chartImage.title')}
+      >
+        <ImageDown className="h-3.5 w-3.5" />
+      </button>
+
+      {open && (
+        <div className="absolute top-full right-0 mt-1 z-50 w-44 p-1 rounded-md border border-border/50 bg-popover backdrop-blur-none shadow-lg commander-dropdown font-normal">
+          <button onClick={() => run('png')} className={itemClass}>
+            <ImageDown className="h-3 w-3" /> {t('chartImage.png')}
+          </button>
+          <button onClick={() => run('svg')} className={itemClass}>
+            <ImageDown className="h-3 w-3" /> {t('chartImage.svg')}
+          </button>
+          <button
+            onClick={() => run('copy')}
+            disabled={!canCopyImages()}
+            className={itemClass}
+            title={canCopyImages() ? undefined : t('chartImage.copyUnsupported')}
+          >
+            {status === 'copied' ? <Check className="h-3 w-3 text-green-500" /> : <Copy className="h-3 w-3" />}
+            {status === 'copied' ? t('chartImage.copied') : t('chartImage.copy')}
+          </button>
+          {status === 'failed' && (
+            <div className="px-2 py-1 text-xxs font-mono text-red-500">{t('chartImage.failed')}</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,13 @@
-import { useEffect, useMemo, useState, useCallback } from 'react';
+import { useEffect, useMemo, useState, useCallback, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
 import { X } from 'lucide-react';
 import { HudSpinner } from './HudSpinner';
+import { ChartImageMenu } from './ChartImageMenu';
+import { CustomRangePicker, ZoomControls } from './TimeRangeControls';
 import { motion } from 'motion/react';
 import { apiService } from '@/services/api';
+import { useAppConfig } from '@/hooks/useAppConfig';
+import { useChartZoom } from '@/hooks/useChartZoom';
 import {
   ChartContainer,
   ChartTooltip,
@@ -19,6 +23,7 @@ import {
   CartesianGrid,
   AreaChart,
   Area,
+  ReferenceArea,
 } from 'recharts';
 import {
   chartColors,
@@ -33,6 +38,7 @@ import {
   type TaskInfo,
   type ChartDataPoint,
 } from '@/lib/chart-utils';
+import { clipToWindow, formatWindow, windowFetchHours, type TimeWindow } from '@/lib/time-window';
 
 interface ChartModalProps {
   nodeUuid: string;
@@ -55,22 +61,42 @@ const chartTabKeys: Record<ChartType, string> = {
   ping: 'chart.ping',
 };
 
+const rangeLabel = (hours: number) => (hours <= 24 ? `${hours}H` : `${hours / 24}D`);
+
 export function ChartModal({ nodeUuid, nodeName, onClose }: ChartModalProps) {
   const { t } = useTranslation();
+  const { recordPreserveTime, pingRecordPreserveTime } = useAppConfig();
   const [loadData, setLoadData] = useState<LoadRecord[] | null>(null);
   const [pingData, setPingData] = useState<PingRecord[] | null>(null);
   const [tasks, setTasks] = useState<TaskInfo[]>([]);
   const [loading, setLoading] = useState(true);
   const [activeChart, setActiveChart] = useState<ChartType>('load');
   const [timeRange, setTimeRange] = useState(6);
+  const [custom, setCustom] = useState<TimeWindow | null>(null);
   const [hiddenLines, setHiddenLines] = useState<Record<string, boolean>>({});
   const [smooth, setSmooth] = useState(false);
+  const chartAreaRef = useRef<HTMLDivElement>(null);
+
+  // A custom window is fetched as the look-back reaching its start; ping
+  // history is kept for a shorter time than load history
+  const fetchHours = custom ? windowFetchHours(custom) : timeRange;
+  const pingHours = Math.min(fetchHours, pingRecordPreserveTime || fetchHours);
+  const maxHours = activeChart === 'ping' ? pingRecordPreserveTime : recordPreserveTime;
+
+  const selectRange = (hours: number) => {
+    setTimeRange(hours);
+    setCustom(null);
+  };
+
+  const { zoom, depth, undo, reset, chartProps, dragArea } = useChartZoom(`${timeRange}:${custom?.from}:${custom?.to}`);
+  const shownWindow = zoom ?? custom;
+  const shownRange = shownWindow ? formatWindow(shownWindow) : rangeLabel(timeRange);
 
   const fetchData = useCallback(() => {
     setLoading(true);
     Promise.all([
-      apiService.getLoadHistory(nodeUuid, timeRange),
-      apiService.getPingHistory(nodeUuid, timeRange),
+      apiService.getLoadHistory(nodeUuid, fetchHours),
+      apiService.getPingHistory(nodeUuid, pingHours),
     ])
       .then(([loadHistory, pingHistory]) => {
         if (loadHistory?.records) {
@@ -88,7 +114,7 @@ export function ChartModal({ nodeUuid, nodeName, onClose }: ChartModalProps) {
         setLoading(false);
       })
       .catch(() => setLoading(false));
-  }, [nodeUuid, timeRange]);
+  }, [nodeUuid, fetchHours, pingHours]);
 
   useEffect(() => { fetchData(); }, [fetchData]);
 
@@ -100,20 +126,20 @@ export function ChartModal({ nodeUuid, nodeName, onClose }: ChartModalProps) {
 
   const chartData: ChartDataPoint[] = useMemo(() => {
     if (!loadData?.length) return [];
-    return transformLoadRecords(loadData);
-  }, [loadData]);
+    return clipToWindow(transformLoadRecords(loadData), shownWindow);
+  }, [loadData, shownWindow]);
 
   const pingChartData = useMemo(() => {
-    const data = pingData || [];
+    const data = clipToWindow(pingData || [], shownWindow);
     if (!data.length) return [];
     const taskKeys = tasks.map(t => String(t.id));
-    let processed = processPingRecords(data, tasks, timeRange);
+    let processed = processPingRecords(data, tasks, pingHours);
     processed = interpolatePingNulls(processed, taskKeys);
     if (smooth) {
       processed = ewmaSmooth(processed, taskKeys, 0.3);
     }
     return processed;
-  }, [pingData, tasks, timeRange, smooth]);
+  }, [pingData, tasks, pingHours, shownWindow, smooth]);
 
   const pingConfig = useMemo(() => {
     const c: Record<string, { label: string; color: string }> = {};
@@ -160,6 +186,10 @@ export function ChartModal({ nodeUuid, nodeName, onClose }: ChartModalProps) {
     width: 38,
   };
 
+  const zoomArea = dragArea && (
+    <ReferenceArea x1={dragArea.start} x2={dragArea.end} fill="var(--primary)" fillOpacity={0.12} strokeOpacity={0} />
+  );
+
   const renderChart = () => {
     if (loading) {
       return (
@@ -180,7 +210,7 @@ export function ChartModal({ nodeUuid, nodeName, onClose }: ChartModalProps) {
       }
       return (
         <ChartContainer config={pingConfig} className="h-full w-full">
-          <LineChart data={pingChartData} margin={margin}>
+          <LineChart data={pingChartData} margin={margin} {...chartProps}>
             <CartesianGrid vertical={false} stroke={gridStrokeColor} strokeOpacity={0.3} />
             <XAxis {...xAxisProps} />
             <YAxis {...yPlainProps} unit="ms" width={42} />
@@ -204,6 +234,7 @@ export function ChartModal({ nodeUuid, nodeName, onClose }: ChartModalProps) {
                 hide={!!hiddenLines[task.id]}
               />
             ))}
+            {zoomArea}
           </LineChart>
         </ChartContainer>
       );
@@ -221,82 +252,88 @@ export function ChartModal({ nodeUuid, nodeName, onClose }: ChartModalProps) {
       case 'load':
         return (
           <ChartContainer config={{ load: { label: t('label.load'), color: chartColors[1] } }} className="h-full w-full">
-            <LineChart data={chartData} margin={margin}>
+            <LineChart data={chartData} margin={margin} {...chartProps}>
               <CartesianGrid vertical={false} stroke={gridStrokeColor} strokeOpacity={0.3} />
               <XAxis {...xAxisProps} />
               <YAxis {...yPlainProps} />
               <ChartTooltip cursor={false} content={<ChartTooltipContent labelFormatter={labelFormatter} indicator="dot" />} />
               <Line dataKey="load" stroke={chartColors[1]} dot={false} strokeWidth={2} isAnimationActive={false} />
+              {zoomArea}
             </LineChart>
           </ChartContainer>
         );
       case 'cpu':
         return (
           <ChartContainer config={{ cpu: { label: t('label.cpu'), color: chartColors[0] } }} className="h-full w-full">
-            <LineChart data={chartData} margin={margin}>
+            <LineChart data={chartData} margin={margin} {...chartProps}>
               <CartesianGrid vertical={false} stroke={gridStrokeColor} strokeOpacity={0.3} />
               <XAxis {...xAxisProps} />
               <YAxis {...yPctProps} />
               <ChartTooltip cursor={false} formatter={(v: number | string) => `${Number(v).toFixed(1)}%`} content={<ChartTooltipContent labelFormatter={labelFormatter} indicator="dot" />} />
               <Line dataKey="cpu" stroke={chartColors[0]} dot={false} strokeWidth={2} isAnimationActive={false} />
+              {zoomArea}
             </LineChart>
           </ChartContainer>
         );
       case 'ram':
         return (
           <ChartContainer config={{ ram: { label: t('label.ram'), color: chartColors[2] }, swap: { label: t('label.swap'), color: chartColors[8] } }} className="h-full w-full">
-            <LineChart data={chartData} margin={margin}>
+            <LineChart data={chartData} margin={margin} {...chartProps}>
               <CartesianGrid vertical={false} stroke={gridStrokeColor} strokeOpacity={0.3} />
               <XAxis {...xAxisProps} />
               <YAxis {...yPctProps} />
               <ChartTooltip cursor={false} formatter={(v: number | string) => `${Number(v).toFixed(1)}%`} content={<ChartTooltipContent labelFormatter={labelFormatter} indicator="dot" />} />
               <Line dataKey="ram" stroke={chartColors[2]} dot={false} strokeWidth={2} isAnimationActive={false} />
               <Line dataKey="swap" stroke={chartColors[8]} dot={false} strokeWidth={1.5} isAnimationActive={false} strokeDasharray="4 2" />
+              {zoomArea}
             </LineChart>
           </ChartContainer>
         );
       case 'disk':
         return (
           <ChartContainer config={{ disk: { label: t('label.disk'), color: chartColors[3] } }} className="h-full w-full">
-            <LineChart data={chartData} margin={margin}>
+            <LineChart data={chartData} margin={margin} {...chartProps}>
               <CartesianGrid vertical={false} stroke={gridStrokeColor} strokeOpacity={0.3} />
               <XAxis {...xAxisProps} />
               <YAxis {...yPctProps} />
               <ChartTooltip cursor={false} formatter={(v: number | string) => `${Number(v).toFixed(1)}%`} content={<ChartTooltipContent labelFormatter={labelFormatter} indicator="dot" />} />
               <Line dataKey="disk" stroke={chartColors[3]} dot={false} strokeWidth={2} isAnimationActive={false} />
+              {zoomArea}
             </LineChart>
           </ChartContainer>
         );
       case 'network':
         return (
           <ChartContainer config={{ connections: { label: t('label.tcp'), color: chartColors[4] }, connections_udp: { label: t('label.udp'), color: chartColors[5] } }} className="h-full w-full">
-            <LineChart data={chartData} margin={margin}>
+            <LineChart data={chartData} margin={margin} {...chartProps}>
               <CartesianGrid vertical={false} stroke={gridStrokeColor} strokeOpacity={0.3} />
               <XAxis {...xAxisProps} />
               <YAxis {...yPlainProps} />
               <ChartTooltip cursor={false} content={<ChartTooltipContent labelFormatter={labelFormatter} indicator="dot" />} />
               <Line dataKey="connections" stroke={chartColors[4]} dot={false} strokeWidth={2} isAnimationActive={false} />
               <Line dataKey="connections_udp" stroke={chartColors[5]} dot={false} strokeWidth={1.5} isAnimationActive={false} />
+              {zoomArea}
             </LineChart>
           </ChartContainer>
         );
       case 'connections':
         return (
           <ChartContainer config={{ connections: { label: t('label.tcp'), color: chartColors[4] }, connections_udp: { label: t('label.udp'), color: chartColors[5] } }} className="h-full w-full">
-            <LineChart data={chartData} margin={margin}>
+            <LineChart data={chartData} margin={margin} {...chartProps}>
               <CartesianGrid vertical={false} stroke={gridStrokeColor} strokeOpacity={0.3} />
               <XAxis {...xAxisProps} />
               <YAxis {...yPlainProps} />
               <ChartTooltip cursor={false} content={<ChartTooltipContent labelFormatter={labelFormatter} indicator="dot" />} />
               <Line dataKey="connections" stroke={chartColors[4]} dot={false} strokeWidth={2} isAnimationActive={false} />
               <Line dataKey="connections_udp" stroke={chartColors[5]} dot={false} strokeWidth={1.5} isAnimationActive={false} />
+              {zoomArea}
             </LineChart>
           </ChartContainer>
         );
       case 'traffic':
         return (
           <ChartContainer config={{ network_in: { label: t('label.in'), color: chartColors[6] }, network_out: { label: t('label.out'), color: chartColors[7] } }} className="h-full w-full">
-            <AreaChart data={chartData} margin={margin}>
+            <AreaChart data={chartData} margin={margin} {...chartProps}>
               <CartesianGrid vertical={false} stroke={gridStrokeColor} strokeOpacity={0.3} />
               <XAxis {...xAxisProps} />
               <YAxis {...yPlainProps} unit="KB" width={42} />
@@ -308,6 +345,7 @@ export function ChartModal({ nodeUuid, nodeName, onClose }: ChartModalProps) {
               <ChartLegend content={<ChartLegendContent />} />
               <Area dataKey="network_in" stroke={chartColors[6]} fill={chartColors[6]} fillOpacity={0.12} strokeWidth={1.5} isAnimationActive={false} />
               <Area dataKey="network_out" stroke={chartColors[7]} fill={chartColors[7]} fillOpacity={0.12} strokeWidth={1.5} isAnimationActive={false} />
+              {zoomArea}
             </AreaChart>
           </ChartContainer>
         );
@@ -341,17 +379,32 @@ export function ChartModal({ nodeUuid, nodeName, onClose }: ChartModalProps) {
               {[1, 6, 24, 168].map(h => (
                 <button
                   key={h}
-                  onClick={() => setTimeRange(h)}
+                  onClick={() => selectRange(h)}
                   className={`px-2 py-0.5 text-xs font-mono rounded transition-colors ${
-                    timeRange === h
+                    !custom && timeRange === h
                       ? 'bg-primary text-primary-foreground'
                       : 'text-muted-foreground hover:bg-muted/50'
                   }`}
                 >
-                  {h <= 24 ? `${h}H` : `${h / 24}D`}
+                  {rangeLabel(h)}
                 </button>
               ))}
+              <CustomRangePicker
+                value={custom}
+                maxHours={maxHours}
+                onApply={setCustom}
+                buttonClassName={`px-2 py-0.5 text-xs font-mono rounded transition-colors ${
+                  custom
+                    ? 'bg-primary text-primary-foreground'
+                    : 'text-muted-foreground hover:bg-muted/50'
+                }`}
+              />
             </div>
+            <ChartImageMenu
+              targetRef={chartAreaRef}
+              caption={{ title: `${nodeName} — ${t(chartTabKeys[activeChart])}`, range: shownRange }}
+              fileName={`${nodeName}-${activeChart}-${shownRange}`}
+            />
             <button onClick={onClose} className="p-1 rounded hover:bg-muted/50 transition-colors">
               <X className="h-4 w-4" />
             </button>
@@ -376,31 +429,34 @@ export function ChartModal({ nodeUuid, nodeName, onClose }: ChartModalProps) {
                 </button>
               ))}
             </div>
-            {activeChart === 'ping' && (
-              <button
-                onClick={() => setSmooth(s => !s)}
-                title={t('chart.ewmaTooltip')}
-                className={`flex items-center gap-1 px-1.5 py-0.5 rounded text-xs font-mono tracking-widest transition-all duration-200 cursor-pointer shrink-0 ${
-                  smooth
-                    ? 'bg-primary/10 text-primary/80'
-                    : 'text-muted-foreground/40 hover:text-muted-foreground/60'
-                }`}
-              >
-                <span className={`w-1.5 h-1.5 rounded-full transition-all duration-300 ${
-                  smooth
-                    ? 'bg-primary shadow-[0_0_4px_var(--color-primary)]'
-                    : 'bg-muted-foreground/20'
-                }`} />
-                <span>{smooth ? 'SMOOTH' : 'RAW'}</span>
-              </button>
-            )}
+            <div className="flex items-center gap-2 shrink-0">
+              <ZoomControls zoom={zoom} depth={depth} onUndo={undo} onReset={reset} />
+              {activeChart === 'ping' && (
+                <button
+                  onClick={() => setSmooth(s => !s)}
+                  title={t('chart.ewmaTooltip')}
+                  className={`flex items-center gap-1 px-1.5 py-0.5 rounded text-xs font-mono tracking-widest transition-all duration-200 cursor-pointer shrink-0 ${
+                    smooth
+                      ? 'bg-primary/10 text-primary/80'
+                      : 'text-muted-foreground/40 hover:text-muted-foreground/60'
+                  }`}
+                >
+                  <span className={`w-1.5 h-1.5 rounded-full transition-all duration-300 ${
+                    smooth
+                      ? 'bg-primary shadow-[0_0_4px_var(--color-primary)]'
+                      : 'bg-muted-foreground/20'
+                  }`} />
+                  <span>{smooth ? 'SMOOTH' : 'RAW'}</span>
+                </button>
+              )}
+            </div>
           </div>
           {/* Fade hint for horizontal scroll on mobile */}
           <div className="absolute right-0 top-0 bottom-0 w-6 bg-gradient-to-l from-card/95 to-transparent pointer-events-none sm:hidden" />
         </div>
 
         {/* Chart area */}
-        <div className="h-[300px] sm:h-[360px] p-3">
+        <div ref={chartAreaRef} className="h-[300px] sm:h-[360px] p-3 select-none">
           {renderChart()}
         </div>
       </motion.div>
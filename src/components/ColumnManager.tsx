@@ -0,0 +1,109 @@
+import { useState, useRef, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Columns3, GripVertical, Pin, PinOff, RotateCcw } from 'lucide-react';
+import { useTableColumns } from '@/hooks/useTableColumns';
+import { COLUMN_LABELS, moveColumn } from '@/lib/table-columns';
+import { cn } from '@/lib/utils';
+
+/** Dropdown to show/hide, drag-reorder and pin NodeTable columns */
+export function ColumnManager({ className }: { className?: string }) {
+  const { t } = useTranslation();
+  const { columns, setColumns, resetColumns } = useTableColumns();
+  const [open, setOpen] = useState(false);
+  const [dragging, setDragging] = useState<string | null>(null);
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  // Close on outside click
+  useEffect(() => {
+    if (!open) return;
+    const handler = (e: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handler);
+    return () => document.removeEventListener('mousedown', handler);
+  }, [open]);
+
+  const hidden = new Set(columns.hidden);
+  const visibleCount = columns.order.length - hidden.size;
+
+  const toggle = (id: string) => setColumns(prev => ({
+    ...prev,
+    hidden: hidden.has(id) ? prev.hidden.filter(c => c !== id) : [...prev.hidden, id],
+  }));
+
+  return (
+    <div className={cn('relative', className)} ref={panelRef}>
+      <button
+        onClick={() => setOpen(o => !o)}
+        className={cn(
+          'flex items-center gap-1.5 h-7 px-2.5 rounded text-xs font-mono transition-colors cursor-pointer',
+          'border border-border/40 hover:border-primary/40 hover:text-primary',
+          open ? 'bg-primary/10 border-primary/30 text-primary' : 'bg-muted/30 text-muted-foreground',
+        )}
+      >
+        <Columns3 className="h-3 w-3" />
+        <span className="text-muted-foreground/60">{t('table.columns')}:</span>
+        <span className="font-bold tabular-nums">{visibleCount}</span>
+      </button>
+
+      {open && (
+        <div className="absolute top-full right-0 mt-1 z-50 w-56 rounded-md border border-border/50 bg-popover backdrop-blur-none shadow-lg commander-dropdown">
+          <div className="flex items-center justify-between px-3 py-1.5 border-b border-border/50">
+            <span className="text-xxs font-mono font-bold uppercase tracking-wider text-muted-foreground">
+              {t('table.columns')}
+            </span>
+            <button
+              onClick={resetColumns}
+              className="flex items-center gap-1 text-xxs font-mono text-muted-foreground hover:text-primary transition-colors cursor-pointer"
+              title={t('table.resetColumns')}
+            >
+              <RotateCcw className="h-3 w-3" /> {t('table.resetColumns')}
+            </button>
+          </div>
+          <div className="p-1 max-h-80 overflow-y-auto">
+            {columns.order.map(id => (
+              <div
+                key={id}
+                draggable
+                onDragStart={e => { setDragging(id); e.dataTransfer.effectAllowed = 'move'; }}
+                onDragOver={e => {
+                  if (!dragging || dragging === id) return;
+                  e.preventDefault();
+                  setColumns(prev => ({ ...prev, order: moveColumn(prev.order, dragging, id) }));
+                }}
+                onDragEnd={() => setDragging(null)}
+                className={cn(
+                  'flex items-center gap-2 px-2 py-1 rounded-md text-xs font-mono transition-colors hover:bg-muted/50',
+                  dragging === id && 'opacity-50 bg-primary/10',
+                )}
+              >
+                <GripVertical className="h-3 w-3 text-muted-foreground/50 cursor-grab shrink-0" />
+                <label className="flex-1 flex items-center gap-2 min-w-0 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={!hidden.has(id)}
+                    disabled={id === 'name'}
+                    onChange={() => toggle(id)}
+                  />
+                  <span className="truncate">{t(COLUMN_LABELS[id])}</span>
+                </label>
+                {id === 'name' && (
+                  <button
+                    onClick={() => setColumns(prev => ({ ...prev, pinName: !prev.pinName }))}
+                    className={cn('p-0.5 rounded cursor-pointer', columns.pinName ? 'text-primary' : 'text-muted-foreground hover:text-primary')}
+                    title={columns.pinName ? t('table.unpin') : t('table.pin')}
+                  >
+                    {columns.pinName ? <Pin className="h-3 w-3" /> : <PinOff className="h-3 w-3" />}
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+          <div className="px-3 py-1.5 border-t border-border/50 text-xxs font-mono text-muted-foreground/60">
+            {t('table.columnsHint')}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { useTranslation } from 'react-i18next';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { AnimatePresence, motion } from 'motion/react';
+import { GitCompareArrows, Check, X } from 'lucide-react';
+import { useCompare } from '@/hooks/useCompare';
+import { MAX_COMPARE, MIN_COMPARE, compareUrl } from '@/lib/compare';
+import { cn } from '@/lib/utils';
+
+/** Checkbox that adds/removes a node from the comparison selection */
+export function CompareCheckbox({ uuid, className }: { uuid: string; className?: string }) {
+  const { t } = useTranslation();
+  const { isSelected, toggle, selected } = useCompare();
+  const checked = isSelected(uuid);
+  const full = !checked && selected.length >= MAX_COMPARE;
+
+  return (
+    <span
+      role="checkbox"
+      aria-checked={checked}
+      aria-disabled={full}
+      title={full ? t('compare.limit', { max: MAX_COMPARE }) : t('compare.select')}
+      onClick={(e) => {
+        e.stopPropagation();
+        if (!full) toggle(uuid);
+      }}
+      className={cn(
+        'inline-flex items-center justify-center w-3.5 h-3.5 rounded-sm border transition-colors shrink-0',
+        checked
+          ? 'bg-primary border-primary text-primary-foreground'
+          : 'border-border/60 hover:border-primary/60',
+        full ? 'opacity-30 cursor-not-allowed' : 'cursor-pointer',
+        className,
+      )}
+    >
+      {checked && <Check className="h-2.5 w-2.5" />}
+    </span>
+  );
+}
+
+/** Floating action bar shown while nodes are picked for comparison */
+export function CompareBar() {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { selected, clear } = useCompare();
+  const visible = selected.length > 0 && location.pathname !== '/compare';
+
+  return (
+    <AnimatePresence>
+      {visible && (
+        <motion.div
+          initial={{ opacity: 0, y: 16 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 16 }}
+          className="fixed bottom-14 left-1/2 -translate-x-1/2 z-50 flex items-center gap-2 px-3 py-1.5 rounded-lg border border-primary/30 bg-card/95 backdrop-blur-xl shadow-2xl"
+        >
+          <GitCompareArrows className="h-3.5 w-3.5 text-primary" />
+          <span className="text-xs font-mono tabular-nums">
+            {selected.length}/{MAX_COMPARE}
+          </span>
+          <button
+            onClick={() => navigate(compareUrl(selected))}
+            disabled={selected.length < MIN_COMPARE}
+            className="px-2.5 py-1 text-xs font-mono font-bold rounded bg-primary/15 text-primary border border-primary/30 hover:bg-primary/25 transition-colors disabled:opacity-40 cursor-pointer disabled:cursor-not-allowed"
+          >
+            {t('compare.button')}
+          </button>
+          <button
+            onClick={clear}
+            title={t('action.clear')}
+            className="p-1 rounded hover:bg-muted/50 transition-colors cursor-pointer"
+          >
+            <X className="h-3.5 w-3.5 text-muted-foreground" />
+          </button>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,355 @@
+import { useEffect, useMemo, useState, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Link } from 'react-router-dom';
+import { GitCompareArrows, Cpu, MemoryStick, Activity, ArrowDown, ArrowUp, Signal, Clock, X } from 'lucide-react';
+import { HudSpinner } from './HudSpinner';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from './ui/chart';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid } from 'recharts';
+import { apiService } from '@/services/api';
+import type { NodeWithStatus } from '@/services/api';
+import { useAppConfig } from '@/hooks/useAppConfig';
+import { useCompare } from '@/hooks/useCompare';
+import { useQueryParams } from '@/hooks/useQueryParams';
+import {
+  chartCardClass,
+  chartContainerClass,
+  gridStrokeColor,
+  labelFormatter,
+  transformLoadRecords,
+  processPingRecords,
+  bucketSizeFor,
+  type LoadRecord,
+  type PingRecord,
+  type TaskInfo,
+  type ChartDataPoint,
+  type ChartDataRow,
+} from '@/lib/chart-utils';
+import {
+  COMPARE_PARAM,
+  MAX_COMPARE,
+  MIN_COMPARE,
+  alignSeries,
+  compareColors,
+  parseCompareParam,
+  type CompareSeries,
+} from '@/lib/compare';
+import { cn } from '@/lib/utils';
+
+interface NodeHistory {
+  load: ChartDataPoint[];
+  ping: PingRecord[];
+  tasks: TaskInfo[];
+}
+
+type LoadMetric = 'cpu' | 'ram' | 'load' | 'network_in' | 'network_out';
+
+const loadCharts: { metric: LoadMetric; icon: typeof Cpu; titleKey: string; suffixKey?: string; unit: string }[] = [
+  { metric: 'cpu', icon: Cpu, titleKey: 'chart.cpuUsage', unit: '%' },
+  { metric: 'ram', icon: MemoryStick, titleKey: 'chart.memory', unit: '%' },
+  { metric: 'load', icon: Activity, titleKey: 'chart.systemLoad', unit: '' },
+  { metric: 'network_in', icon: ArrowDown, titleKey: 'chart.networkTraffic', suffixKey: 'label.in', unit: ' KB/s' },
+  { metric: 'network_out', icon: ArrowUp, titleKey: 'chart.networkTraffic', suffixKey: 'label.out', unit: ' KB/s' },
+];
+
+const timeRangeCandidates = [
+  { value: 1, label: '1H' },
+  { value: 6, label: '6H' },
+  { value: 24, label: '24H' },
+  { value: 168, label: '7D' },
+  { value: 720, label: '30D' },
+];
+
+const selectClass = 'h-7 px-2 rounded bg-muted/30 border border-border/40 text-xs font-mono focus:outline-none focus:border-primary/50';
+
+function CompareChart({
+  title,
+  icon: Icon,
+  rows,
+  config,
+  keys,
+  unit,
+  percent,
+}: {
+  title: string;
+  icon: typeof Cpu;
+  rows: ChartDataRow[];
+  config: Record<string, { label: string; color: string }>;
+  keys: string[];
+  unit: string;
+  percent?: boolean;
+}) {
+  const { t } = useTranslation();
+  return (
+    <Card className={chartCardClass}>
+      <CardHeader className="pb-2 px-4 pt-3">
+        <CardTitle className="flex items-center gap-2 text-sm font-semibold">
+          <Icon className="h-4 w-4 text-primary" />
+          {title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="px-4 pb-3">
+        {rows.length === 0 ? (
+          <div className={cn(chartContainerClass, 'flex items-center justify-center text-xs font-mono text-muted-foreground')}>
+            {t('chart.noData')}
+          </div>
+        ) : (
+          <ChartContainer config={config} className={chartContainerClass}>
+            <LineChart data={rows} margin={{ top: 10, right: 16, bottom: 10, left: 16 }}>
+              <CartesianGrid vertical={false} stroke={gridStrokeColor} strokeOpacity={0.3} />
+              <XAxis
+                dataKey="time"
+                tickLine={false}
+                axisLine={false}
+                minTickGap={40}
+                tick={{ fontSize: 11 }}
+                tickFormatter={(v: string) => new Date(v).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              />
+              <YAxis
+                tickLine={false}
+                axisLine={false}
+                width={45}
+                tick={{ fontSize: 11, dx: -5 }}
+                domain={percent ? [0, 100] : undefined}
+                unit={percent ? '%' : undefined}
+              />
+              <ChartTooltip
+                cursor={{ stroke: 'var(--border)' }}
+                formatter={(v: number | string) => `${typeof v === 'number' ? v.toFixed(2) : v}${unit}`}
+                content={<ChartTooltipContent labelFormatter={labelFormatter} indicator="dot" />}
+              />
+              {keys.map(key => (
+                <Line
+                  key={key}
+                  dataKey={key}
+                  name={config[key]?.label ?? key}
+                  stroke={config[key]?.color}
+                  dot={false}
+                  isAnimationActive={false}
+                  strokeWidth={1.5}
+                  type="linear"
+                />
+              ))}
+            </LineChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/* ══════════════════════════════════════════════════════════════
+   CompareView — overlay 2–8 nodes on shared time axes
+   ══════════════════════════════════════════════════════════════ */
+export function CompareView({ nodes }: { nodes: NodeWithStatus[] }) {
+  const { t } = useTranslation();
+  const [searchParams, updateParams] = useQueryParams();
+  const { setSelected } = useCompare();
+  const { recordPreserveTime, pingRecordPreserveTime } = useAppConfig();
+  const [timeRange, setTimeRange] = useState(6);
+  const [history, setHistory] = useState<Record<string, NodeHistory>>({});
+  const [loading, setLoading] = useState(false);
+  const [pingTask, setPingTask] = useState('');
+
+  // Keyed on the raw param so other query changes keep the same array
+  const compareParam = searchParams.get(COMPARE_PARAM);
+  const uuids = useMemo(() => parseCompareParam(compareParam), [compareParam]);
+
+  // Keep the table/sidebar selection in step with what is being compared
+  useEffect(() => {
+    setSelected(uuids);
+  }, [uuids, setSelected]);
+
+  const nodeMap = useMemo(() => new Map(nodes.map(n => [n.uuid, n])), [nodes]);
+
+  const setUuids = useCallback((next: string[]) => {
+    updateParams({ [COMPARE_PARAM]: next.join(',') }, { replace: true });
+  }, [updateParams]);
+
+  const timeRanges = useMemo(() => {
+    const limit = recordPreserveTime > 0 ? recordPreserveTime : 720;
+    return timeRangeCandidates.filter(r => r.value <= limit);
+  }, [recordPreserveTime]);
+
+  useEffect(() => {
+    if (uuids.length === 0) {
+      setLoading(false);
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    const pingHours = Math.min(timeRange, pingRecordPreserveTime || timeRange);
+    Promise.all(uuids.map(uuid => Promise.all([
+      apiService.getLoadHistory(uuid, timeRange).catch(() => null),
+      apiService.getPingHistory(uuid, pingHours).catch(() => null),
+    ]).then(([load, ping]): [string, NodeHistory] => {
+      const loadRecords = ((load?.records || []) as LoadRecord[])
+        .slice()
+        .sort((a, b) => new Date(a.time).getTime() - new Date(b.time).getTime());
+      const pingRecords = ((ping?.records || []) as PingRecord[])
+        .slice()
+        .sort((a, b) => new Date(a.time).getTime() - new Date(b.time).getTime());
+      return [uuid, { load: transformLoadRecords(loadRecords), ping: pingRecords, tasks: ping?.tasks || [] }];
+    }))).then(entries => {
+      if (cancelled) return;
+      setHistory(Object.fromEntries(entries));
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [uuids, timeRange, pingRecordPreserveTime]);
+
+  const config = useMemo(() => {
+    const c: Record<string, { label: string; color: string }> = {};
+    uuids.forEach((uuid, i) => {
+      c[uuid] = { label: nodeMap.get(uuid)?.name ?? uuid.slice(0, 8), color: compareColors[i % compareColors.length] };
+    });
+    return c;
+  }, [uuids, nodeMap]);
+
+  const bucketMs = bucketSizeFor(timeRange);
+
+  const loadRows = useMemo(() => {
+    const result = {} as Record<LoadMetric, ChartDataRow[]>;
+    for (const { metric } of loadCharts) {
+      const series: CompareSeries[] = uuids.map(uuid => ({
+        key: uuid,
+        points: (history[uuid]?.load ?? []).map(p => ({ time: new Date(p.time).getTime(), value: p[metric] })),
+      }));
+      result[metric] = alignSeries(series, bucketMs);
+    }
+    return result;
+  }, [uuids, history, bucketMs]);
+
+  // Ping tasks are matched by name across nodes; default to the most widely shared one
+  const taskNames = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const uuid of uuids) {
+      for (const task of history[uuid]?.tasks ?? []) counts.set(task.name, (counts.get(task.name) ?? 0) + 1);
+    }
+    return Array.from(counts).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([name]) => name);
+  }, [uuids, history]);
+
+  const activeTask = taskNames.includes(pingTask) ? pingTask : taskNames[0] ?? '';
+
+  const pingRows = useMemo(() => {
+    if (!activeTask) return [];
+    const hours = Math.min(timeRange, pingRecordPreserveTime || timeRange);
+    const series: CompareSeries[] = uuids.map(uuid => {
+      const h = history[uuid];
+      const task = h?.tasks.find(tk => tk.name === activeTask);
+      if (!h || !task) return { key: uuid, points: [] };
+      const key = String(task.id);
+      return {
+        key: uuid,
+        points: processPingRecords(h.ping.filter(r => r.task_id === task.id), [task], hours)
+          .map(row => ({ time: new Date(row.time).getTime(), value: row[key] as number | null })),
+      };
+    });
+    return alignSeries(series, bucketMs);
+  }, [activeTask, uuids, history, timeRange, pingRecordPreserveTime, bucketMs]);
+
+  const addable = nodes.filter(n => !uuids.includes(n.uuid));
+
+  return (
+    <div className="space-y-4">
+      {/* ═══ Header bar ═══ */}
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+        <div className="flex items-center gap-3">
+          <GitCompareArrows className="h-5 w-5 text-primary" />
+          <h2 className="text-sm font-display font-bold">{t('compare.title')}</h2>
+          <span className="text-xs font-mono text-muted-foreground tabular-nums">{uuids.length}/{MAX_COMPARE}</span>
+        </div>
+        <div className="flex items-center gap-1 sm:ml-auto">
+          <Clock className="h-3.5 w-3.5 text-primary mr-1" />
+          {timeRanges.map(tr => (
+            <button
+              key={tr.value}
+              onClick={() => setTimeRange(tr.value)}
+              className={cn(
+                'px-2.5 py-1 text-xs font-mono rounded transition-all duration-200 cursor-pointer',
+                timeRange === tr.value
+                  ? 'bg-primary/15 text-primary border border-primary/30'
+                  : 'text-muted-foreground hover:text-foreground hover:bg-muted/30',
+              )}
+            >
+              {tr.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* ═══ Node chips ═══ */}
+      <div className="flex flex-wrap items-center gap-2">
+        {uuids.map(uuid => (
+          <span
+            key={uuid}
+            className="flex items-center gap-1.5 pl-2 pr-1 py-0.5 rounded border border-border/40 bg-card/80 text-xs font-mono"
+          >
+            <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: config[uuid]?.color }} />
+            <Link to={`/node/${uuid}`} className="font-bold hover:text-primary transition-colors">
+              {config[uuid]?.label}
+            </Link>
+            <button
+              onClick={() => setUuids(uuids.filter(u => u !== uuid))}
+              className="p-0.5 rounded hover:bg-muted/50 cursor-pointer"
+            >
+              <X className="h-3 w-3 text-muted-foreground" />
+            </button>
+          </span>
+        ))}
+        {uuids.length < MAX_COMPARE && addable.length > 0 && (
+          <select
+            className={selectClass}
+            value=""
+            onChange={e => e.target.value && setUuids([...uuids, e.target.value])}
+          >
+            <option value="">{t('compare.addNode')}</option>
+            {addable.map(n => <option key={n.uuid} value={n.uuid}>{n.name}</option>)}
+          </select>
+        )}
+      </div>
+
+      {uuids.length < MIN_COMPARE ? (
+        <div className="rounded-lg border border-border/50 bg-card/80 backdrop-blur-xl py-10 text-center text-xs font-mono text-muted-foreground">
+          {t('compare.needMore', { min: MIN_COMPARE, max: MAX_COMPARE })}
+        </div>
+      ) : loading ? (
+        <div className="flex items-center justify-center h-64">
+          <HudSpinner size="lg" />
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 w-full">
+          {loadCharts.map(({ metric, icon, titleKey, suffixKey, unit }) => (
+            <CompareChart
+              key={metric}
+              title={suffixKey ? `${t(titleKey)} · ${t(suffixKey)}` : t(titleKey)}
+              icon={icon}
+              rows={loadRows[metric]}
+              config={config}
+              keys={uuids}
+              unit={unit}
+              percent={unit === '%'}
+            />
+          ))}
+          <div className="space-y-2">
+            {taskNames.length > 1 && (
+              <select className={cn(selectClass, 'w-full')} value={activeTask} onChange={e => setPingTask(e.target.value)}>
+                {taskNames.map(name => <option key={name} value={name}>{name}</option>)}
+              </select>
+            )}
+            <CompareChart
+              title={activeTask ? `${t('chart.pingLatency')} · ${activeTask}` : t('chart.pingLatency')}
+              icon={Signal}
+              rows={pingRows}
+              config={config}
+              keys={uuids}
+              unit=" ms"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+import { useState, useMemo, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Link } from 'react-router-dom';
+import { ScrollText, Download, Trash2 } from 'lucide-react';
+import dayjs from 'dayjs';
+import { HudSpinner } from './HudSpinner';
+import type { NodeWithStatus } from '@/services/api';
+import { useEvents } from '@/hooks/useEvents';
+import type { EventKind, EventSeverity, TimelineEvent } from '@/lib/event-log';
+import { toCsv, downloadText, fileTimestamp, type CsvColumn } from '@/lib/export';
+import { cn } from '@/lib/utils';
+
+const kindKeys: Record<EventKind, string> = {
+  offline: 'events.kindOffline',
+  online: 'events.kindOnline',
+  alert: 'events.kindAlert',
+  resolved: 'events.kindResolved',
+  reboot: 'events.kindReboot',
+  quota: 'events.kindQuota',
+  expiry: 'events.kindExpiry',
+};
+
+const severityKeys: Record<EventSeverity, string> = {
+  info: 'events.severityInfo',
+  warning: 'events.severityWarning',
+  critical: 'events.severityCritical',
+};
+
+const severityDot: Record<EventSeverity, string> = {
+  info: 'bg-green-500',
+  warning: 'bg-yellow-500',
+  critical: 'bg-red-500',
+};
+
+const TIME_RANGES = [
+  { label: '1h', ms: 3600_000 },
+  { label: '6h', ms: 6 * 3600_000 },
+  { label: '24h', ms: 86400_000 },
+  { label: '7d', ms: 7 * 86400_000 },
+  { label: '30d', ms: 0 },
+] as const;
+
+const PAGE_SIZE = 200;
+
+const csvColumns: CsvColumn<TimelineEvent>[] = [
+  { header: 'time', value: e => new Date(e.time).toISOString() },
+  { header: 'node', value: e => e.node },
+  { header: 'uuid', value: e => e.uuid },
+  { header: 'group', value: e => e.group },
+  { header: 'kind', value: e => e.kind },
+  { header: 'severity', value: e => e.severity },
+  { header: 'message', value: e => e.message },
+];
+
+const selectClass = 'h-7 px-2 rounded bg-muted/30 border border-border/40 text-xs font-mono focus:outline-none focus:border-primary/50';
+
+/* ══════════════════════════════════════════════════════════════
+   EventsView — persisted incident log with filters and export
+   ══════════════════════════════════════════════════════════════ */
+export function EventsView({ nodes }: { nodes: NodeWithStatus[] }) {
+  const { t } = useTranslation();
+  const { events, loaded, clearEvents } = useEvents();
+
+  const [nodeFilter, setNodeFilter] = useState('');
+  const [groupFilter, setGroupFilter] = useState('');
+  const [severityFilter, setSeverityFilter] = useState<EventSeverity | ''>('');
+  const [rangeIdx, setRangeIdx] = useState(2);
+  const [limit, setLimit] = useState(PAGE_SIZE);
+
+  // Nodes that have events but were since removed are still selectable
+  const nodeOptions = useMemo(() => {
+    const names = new Map(nodes.map(n => [n.uuid, n.name]));
+    for (const e of events) if (!names.has(e.uuid)) names.set(e.uuid, e.node);
+    return Array.from(names, ([uuid, name]) => ({ uuid, name })).sort((a, b) => a.name.localeCompare(b.name));
+  }, [nodes, events]);
+
+  const groupOptions = useMemo(
+    () => Array.from(new Set([...nodes.map(n => n.group), ...events.map(e => e.group)].filter(Boolean))).sort(),
+    [nodes, events],
+  );
+
+  const filtered = useMemo(() => {
+    const range = TIME_RANGES[rangeIdx];
+    const cutoff = range.ms > 0 ? Date.now() - range.ms : 0;
+    return events
+      .filter(e =>
+        e.time >= cutoff &&
+        (!nodeFilter || e.uuid === nodeFilter) &&
+        (!groupFilter || e.group === groupFilter) &&
+        (!severityFilter || e.severity === severityFilter))
+      .reverse();
+  }, [events, nodeFilter, groupFilter, severityFilter, rangeIdx]);
+
+  useEffect(() => {
+    setLimit(PAGE_SIZE);
+  }, [nodeFilter, groupFilter, severityFilter, rangeIdx]);
+
+  const exportCsv = () => {
+    downloadText(`events-${fileTimestamp()}.csv`, toCsv(filtered, csvColumns), 'text/csv;charset=utf-8');
+  };
+
+  const exportJson = () => {
+    downloadText(`events-${fileTimestamp()}.json`, JSON.stringify(filtered, null, 2), 'application/json');
+  };
+
+  const handleClear = () => {
+    if (window.confirm(t('events.clearConfirm'))) clearEvents();
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* ═══ Header bar ═══ */}
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+        <div className="flex items-center gap-3">
+          <ScrollText className="h-5 w-5 text-primary" />
+          <h2 className="text-sm font-display font-bold">{t('events.title')}</h2>
+          <span className="text-xs font-mono text-muted-foreground tabular-nums">
+            {filtered.length}/{events.length}
+          </span>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 sm:ml-auto">
+          <button
+            onClick={exportCsv}
+            disabled={filtered.length === 0}
+            className="flex items-center gap-1 px-2 py-1 rounded border border-border/50 text-xs font-mono hover:bg-muted/50 transition-colors disabled:opacity-40 cursor-pointer"
+          >
+            <Download className="h-3 w-3" /> CSV
+          </button>
+          <button
+            onClick={exportJson}
+            disabled={filtered.length === 0}
+            className="flex items-center gap-1 px-2 py-1 rounded border border-border/50 text-xs font-mono hover:bg-muted/50 transition-colors disabled:opacity-40 cursor-pointer"
+          >
+            <Download className="h-3 w-3" /> JSON
+          </button>
+          <button
+            onClick={handleClear}
+            disabled={events.length === 0}
+            className="p-1.5 rounded hover:bg-red-500/10 hover:text-red-500 text-muted-foreground transition-colors disabled:opacity-40 cursor-pointer"
+            title={t('events.clear')}
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </button>
+        </div>
+      </div>
+
+      {/* ═══ Filters ═══ */}
+      <div className="flex flex-wrap items-center gap-2">
+        <select className={selectClass} value={nodeFilter} onChange={e => setNodeFilter(e.target.value)}>
+          <option value="">{t('events.allNodes')}</option>
+          {nodeOptions.map(o => <option key={o.uuid} value={o.uuid}>{o.name}</option>)}
+        </select>
+        <select className={selectClass} value={groupFilter} onChange={e => setGroupFilter(e.target.value)}>
+          <option value="">{t('events.allGroups')}</option>
+          {groupOptions.map(g => <option key={g} value={g}>{g}</option>)}
+        </select>
+        <select
+          className={selectClass}
+          value={severityFilter}
+          onChange={e => setSeverityFilter(e.target.value as EventSeverity | '')}
+        >
+          <option value="">{t('events.allSeverities')}</option>
+          {(Object.keys(severityKeys) as EventSeverity[]).map(s => (
+            <option key={s} value={s}>{t(severityKeys[s])}</option>
+          ))}
+        </select>
+
+        <div className="flex border border-border/50 rounded overflow-hidden sm:ml-auto">
+          {TIME_RANGES.map((r, idx) => (
+            <button
+              key={r.label}
+              onClick={() => setRangeIdx(idx)}
+              className={cn(
+                'px-2 py-1 text-xs font-mono transition-colors',
+                rangeIdx === idx
+                  ? 'bg-primary text-primary-foreground'
+                  : 'hover:bg-muted/50 text-muted-foreground',
+              )}
+            >
+              {r.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* ═══ Event list ═══ */}
+      <div className="rounded-lg border border-border/50 bg-card/80 backdrop-blur-xl overflow-hidden">
+        {!loaded ? (
+          <div className="flex items-center justify-center gap-2 py-10 text-xs font-mono text-muted-foreground">
+            <HudSpinner size="md" />
+          </div>
+        ) : filtered.length === 0 ? (
+          <div className="py-10 text-center text-xs font-mono text-muted-foreground">{t('events.empty')}</div>
+        ) : (
+          <div className="divide-y divide-border/30">
+            {filtered.slice(0, limit).map(event => (
+              <div key={event.id} className="flex items-center gap-3 px-3 py-2 hover:bg-primary/5 transition-colors">
+                <span className="text-xxs font-mono text-muted-foreground tabular-nums w-28 shrink-0">
+                  {dayjs(event.time).format('MM-DD HH:mm:ss')}
+                </span>
+                <span className={cn('w-2 h-2 rounded-full shrink-0', severityDot[event.severity])} />
+                <span className="text-xxs font-mono font-bold uppercase w-16 shrink-0">
+                  {t(kindKeys[event.kind])}
+                </span>
+                <div className="flex-1 min-w-0 flex items-baseline gap-2">
+                  <Link
+                    to={`/node/${event.uuid}`}
+                    className="text-xs font-mono font-bold truncate hover:text-primary transition-colors"
+                  >
+                    {event.node}
+                  </Link>
+                  {event.group && (
+                    <span className="text-xxs font-mono text-muted-foreground/70 shrink-0">{event.group}</span>
+                  )}
+                  <span className="text-xs font-mono text-muted-foreground truncate">{event.message}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {filtered.length > limit && (
+        <div className="flex justify-center">
+          <button
+            onClick={() => setLimit(l => l + PAGE_SIZE)}
+            className="px-3 py-1 rounded border border-border/50 text-xs font-mono text-muted-foreground hover:text-foreground hover:bg-muted/50 transition-colors cursor-pointer"
+          >
+            {t('events.loadMore', { count: filtered.length - limit })}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,288 @@
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Link } from 'react-router-dom';
+import dayjs from 'dayjs';
+import { CalendarClock, CalendarPlus, Settings2, RefreshCw, AlertTriangle } from 'lucide-react';
+import type { NodeWithStatus } from '@/services/api';
+import { cycleLabel, expiryDate, formatMoney, loadBillingSettings, nodeCost } from '@/lib/billing';
+import { setExpirySettings, parseReminderDays, type ExpirySettings } from '@/lib/expiry';
+import { useExpirySettings } from '@/hooks/useExpirySettings';
+import { buildIcs, type IcsEvent } from '@/lib/ical';
+import { downloadText, fileTimestamp } from '@/lib/export';
+import { cn, formatExpiry, getExpiryStatus } from '@/lib/utils';
+
+type Grouping = 'day' | 'week' | 'month';
+
+const groupings: { key: Grouping; label: string }[] = [
+  { key: 'day', label: 'expiry.byDay' },
+  { key: 'week', label: 'expiry.byWeek' },
+  { key: 'month', label: 'expiry.byMonth' },
+];
+
+/** Look-ahead in days; 0 means no limit */
+const horizons = [30, 90, 365, 0];
+
+const inputClass = 'h-7 px-2 rounded bg-muted/30 border border-border/40 text-xs font-mono focus:outline-none focus:border-primary/50';
+
+interface Entry {
+  node: NodeWithStatus;
+  date: dayjs.Dayjs;
+  status: 'normal' | 'warning' | 'expired';
+}
+
+function groupKey(date: dayjs.Dayjs, grouping: Grouping): string {
+  if (grouping === 'month') return date.format('YYYY-MM');
+  if (grouping === 'week') return date.subtract((date.day() + 6) % 7, 'day').format('YYYY-MM-DD');
+  return date.format('YYYY-MM-DD');
+}
+
+function groupLabel(key: string, grouping: Grouping): string {
+  if (grouping !== 'week') return key;
+  const start = dayjs(key);
+  return `${start.format('YYYY-MM-DD')} – ${start.add(6, 'day').format('MM-DD')}`;
+}
+
+const statusClass: Record<Entry['status'], string> = {
+  normal: 'text-muted-foreground',
+  warning: 'text-yellow-500',
+  expired: 'text-red-500',
+};
+
+/* ── Warning window and reminder settings ── */
+function SettingsPanel({
+  settings,
+  onChange,
+}: {
+  settings: ExpirySettings;
+  onChange: (settings: ExpirySettings) => void;
+}) {
+  const { t } = useTranslation();
+  const [reminders, setReminders] = useState(settings.reminderDays.join(', '));
+
+  return (
+    <div className="rounded-lg border border-border/50 bg-card/80 backdrop-blur-xl p-3 grid grid-cols-1 sm:grid-cols-2 gap-3 text-xs font-mono">
+      <label className="flex flex-col gap-1">
+        <span className="text-xxs text-muted-foreground uppercase tracking-wider">{t('expiry.warningDays')}</span>
+        <input
+          type="number"
+          min={0}
+          className={cn(inputClass, 'w-24')}
+          value={settings.warningDays}
+          onChange={e => {
+            const days = Math.max(0, Math.floor(Number(e.target.value) || 0));
+            onChange({ ...settings, warningDays: days });
+          }}
+        />
+        <span className="text-xxs text-muted-foreground/60">{t('expiry.warningDaysHint')}</span>
+      </label>
+      <label className="flex flex-col gap-1">
+        <span className="text-xxs text-muted-foreground uppercase tracking-wider">{t('expiry.reminders')}</span>
+        <input
+          className={cn(inputClass, 'w-full min-w-0')}
+          placeholder="30, 7, 1"
+          value={reminders}
+          onChange={e => setReminders(e.target.value)}
+          onBlur={() => {
+            const days = parseReminderDays(reminders);
+            setReminders(days.join(', '));
+            onChange({ ...settings, reminderDays: days });
+          }}
+        />
+        <span className="text-xxs text-muted-foreground/60">{t('expiry.remindersHint')}</span>
+      </label>
+    </div>
+  );
+}
+
+/* ══════════════════════════════════════════════════════════════
+   ExpiryView — upcoming expiry dates with .ics export (admin)
+   ══════════════════════════════════════════════════════════════ */
+export function ExpiryView({ nodes }: { nodes: NodeWithStatus[] }) {
+  const { t } = useTranslation();
+  const settings = useExpirySettings();
+  const [showSettings, setShowSettings] = useState(false);
+  const [grouping, setGrouping] = useState<Grouping>('week');
+  const [horizon, setHorizon] = useState(90);
+  const [showExpired, setShowExpired] = useState(true);
+
+  // Free nodes (price -1) never expire in a meaningful way
+  const entries = useMemo<Entry[]>(() => {
+    const list: Entry[] = [];
+    for (const node of nodes) {
+      if (node.price === -1) continue;
+      const date = expiryDate(node);
+      const status = getExpiryStatus(node.expired_at, settings.warningDays);
+      if (!date || !status) continue;
+      list.push({ node, date, status });
+    }
+    return list.sort((a, b) => a.date.valueOf() - b.date.valueOf());
+  }, [nodes, settings.warningDays]);
+
+  const visible = useMemo(() => {
+    const limit = horizon > 0 ? dayjs().add(horizon, 'day') : null;
+    return entries.filter(e => {
+      if (e.status === 'expired') return showExpired;
+      return !limit || e.date.isBefore(limit);
+    });
+  }, [entries, horizon, showExpired]);
+
+  const billing = useMemo(loadBillingSettings, []);
+
+  const groups = useMemo(() => {
+    const map = new Map<string, Entry[]>();
+    for (const e of visible) {
+      // Everything already past collapses into one bucket at the top
+      const key = e.status === 'expired' ? '' : groupKey(e.date, grouping);
+      map.set(key, [...(map.get(key) ?? []), e]);
+    }
+    return Array.from(map, ([key, items]) => ({
+      key,
+      items,
+      total: items.reduce((sum, e) => sum + (nodeCost(e.node, billing).price ?? 0), 0),
+    }));
+  }, [visible, grouping, billing]);
+
+  const counts = useMemo(() => ({
+    expired: entries.filter(e => e.status === 'expired').length,
+    warning: entries.filter(e => e.status === 'warning').length,
+    manual: entries.filter(e => e.status !== 'expired' && !e.node.auto_renewal).length,
+  }), [entries]);
+
+  const exportIcs = () => {
+    const events: IcsEvent[] = entries
+      .filter(e => e.status !== 'expired')
+      .map(({ node, date }) => ({
+        uid: `${node.uuid}-${date.format('YYYYMMDD')}@komari`,
+        date: date.toDate(),
+        summary: t('expiry.icsSummary', { name: node.name }),
+        description: [
+          node.price > 0 ? `${t('billing.price')}: ${formatMoney(node.price, node.currency)} / ${cycleLabel(node.billing_cycle)}` : null,
+          `${t('billing.autoRenew')}: ${node.auto_renewal ? t('label.yes') : t('label.no')}`,
+          node.group ? `${t('expiry.group')}: ${node.group}` : null,
+        ].filter(Boolean).join('\n'),
+        url: `${window.location.origin}/node/${node.uuid}`,
+        alarmDays: settings.reminderDays,
+      }));
+    downloadText(`expiry-${fileTimestamp()}.ics`, buildIcs(events, t('expiry.title')), 'text/calendar');
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* ═══ Header bar ═══ */}
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+        <div className="flex items-center gap-3">
+          <CalendarClock className="h-5 w-5 text-primary" />
+          <h2 className="text-sm font-display font-bold">{t('expiry.title')}</h2>
+          <span className="text-xs font-mono text-muted-foreground tabular-nums">{entries.length}/{nodes.length}</span>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 sm:ml-auto">
+          <div className="flex items-center gap-0.5">
+            {groupings.map(g => (
+              <button
+                key={g.key}
+                onClick={() => setGrouping(g.key)}
+                className={cn(
+                  'px-2 py-1 text-xs font-mono rounded transition-colors cursor-pointer',
+                  grouping === g.key ? 'bg-primary/15 text-primary border border-primary/30' : 'text-muted-foreground hover:text-foreground hover:bg-muted/50',
+                )}
+              >
+                {t(g.label)}
+              </button>
+            ))}
+          </div>
+          <select className={inputClass} value={horizon} onChange={e => setHorizon(Number(e.target.value))}>
+            {horizons.map(h => (
+              <option key={h} value={h}>{h > 0 ? t('expiry.nextDays', { count: h }) : t('expiry.all')}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1 text-xs font-mono text-muted-foreground cursor-pointer">
+            <input type="checkbox" checked={showExpired} onChange={e => setShowExpired(e.target.checked)} />
+            {t('expiry.showExpired')}
+          </label>
+          <button
+            onClick={() => setShowSettings(s => !s)}
+            className={cn(
+              'flex items-center gap-1 px-2 py-1 rounded border text-xs font-mono transition-colors cursor-pointer',
+              showSettings ? 'bg-primary/15 text-primary border-primary/30' : 'border-border/50 hover:bg-muted/50',
+            )}
+          >
+            <Settings2 className="h-3 w-3" /> {t('expiry.windows')}
+          </button>
+          <button
+            onClick={exportIcs}
+            disabled={entries.every(e => e.status === 'expired')}
+            className="flex items-center gap-1 px-2 py-1 rounded border border-border/50 text-xs font-mono hover:bg-muted/50 transition-colors disabled:opacity-40 cursor-pointer"
+            title={t('expiry.icsHint')}
+          >
+            <CalendarPlus className="h-3 w-3" /> .ics
+          </button>
+        </div>
+      </div>
+
+      {showSettings && <SettingsPanel settings={settings} onChange={setExpirySettings} />}
+
+      {(counts.expired > 0 || counts.warning > 0) && (
+        <div className="flex items-center gap-2 px-3 py-2 rounded border border-yellow-500/30 bg-yellow-500/10 text-xs font-mono text-yellow-500">
+          <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+          {[
+            counts.expired > 0 ? t('expiry.expiredCount', { count: counts.expired }) : null,
+            counts.warning > 0 ? t('expiry.warningCount', { count: counts.warning, days: settings.warningDays }) : null,
+          ].filter(Boolean).join(' · ')}
+        </div>
+      )}
+
+      {/* ═══ Agenda ═══ */}
+      {groups.length === 0 ? (
+        <div className="rounded-lg border border-border/50 bg-card/80 backdrop-blur-xl p-8 text-center text-xs font-mono text-muted-foreground">
+          {t('expiry.empty')}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {groups.map(group => (
+            <div key={group.key || 'expired'} className="rounded-lg border border-border/50 bg-card/80 backdrop-blur-xl overflow-hidden">
+              <div className="flex items-center justify-between px-3 py-2 border-b border-border/30 bg-muted/20 text-xs font-mono">
+                <span className={cn('font-bold', !group.key && 'text-red-500')}>
+                  {group.key ? groupLabel(group.key, grouping) : t('expiry.expired')}
+                </span>
+                <span className="text-muted-foreground tabular-nums">
+                  {group.items.length} · {formatMoney(group.total, billing.baseCurrency)}
+                </span>
+              </div>
+              <div className="divide-y divide-border/20">
+                {group.items.map(({ node, date, status }) => (
+                  <div key={node.uuid} className="flex items-center gap-3 px-3 py-1.5 text-xs font-mono">
+                    <span className="w-20 shrink-0 text-muted-foreground tabular-nums">{date.format('MM-DD ddd')}</span>
+                    <Link to={`/node/${node.uuid}`} className="flex-1 min-w-0 truncate hover:text-primary transition-colors">
+                      {node.name}
+                      {node.group && <span className="ml-2 text-xxs text-muted-foreground/60">{node.group}</span>}
+                    </Link>
+                    <span className={cn('shrink-0 tabular-nums', statusClass[status])}>{formatExpiry(node.expired_at)}</span>
+                    <span className="hidden sm:inline w-28 shrink-0 text-right tabular-nums">
+                      {node.price > 0 ? `${formatMoney(node.price, node.currency)} / ${cycleLabel(node.billing_cycle)}` : '—'}
+                    </span>
+                    <span
+                      className={cn(
+                        'shrink-0 flex items-center gap-1 px-1.5 rounded-sm text-xxs',
+                        node.auto_renewal ? 'bg-primary/15 text-primary' : 'bg-yellow-500/15 text-yellow-500',
+                      )}
+                      title={t('billing.autoRenew')}
+                    >
+                      <RefreshCw className="h-2.5 w-2.5" />
+                      {node.auto_renewal ? t('expiry.auto') : t('expiry.manual')}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {counts.manual > 0 && (
+        <div className="text-xxs font-mono text-muted-foreground/60">
+          {t('expiry.manualCount', { count: counts.manual })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import { useState, useRef, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Download } from 'lucide-react';
+import { HudSpinner } from './HudSpinner';
+import { loadExportTimeZone, saveExportTimeZone, type ExportTimeZone } from '@/lib/export';
+import { cn } from '@/lib/utils';
+
+export interface ExportAction {
+  label: string;
+  /** Receives the chosen time zone; a rejected promise shows an error line */
+  onSelect: (tz: ExportTimeZone) => void | Promise<void>;
+}
+
+/** Local zone as "UTC+08:00" for the time zone toggle */
+function localZoneLabel(): string {
+  const offset = -new Date().getTimezoneOffset();
+  const abs = Math.abs(offset);
+  const p = (n: number) => String(n).padStart(2, '0');
+  return `UTC${offset >= 0 ? '+' : '-'}${p(Math.floor(abs / 60))}:${p(abs % 60)}`;
+}
+
+/** Download dropdown listing export actions, with a shared local/UTC time zone choice */
+export function ExportMenu({ actions, className }: { actions: ExportAction[]; className?: string }) {
+  const { t } = useTranslation();
+  const [open, setOpen] = useState(false);
+  const [tz, setTz] = useState<ExportTimeZone>(loadExportTimeZone);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  // Close on outside click
+  useEffect(() => {
+    if (!open) return;
+    const handler = (e: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handler);
+    return () => document.removeEventListener('mousedown', handler);
+  }, [open]);
+
+  const chooseTz = (next: ExportTimeZone) => {
+    setTz(next);
+    saveExportTimeZone(next);
+  };
+
+  const run = async (action: ExportAction) => {
+    setBusy(action.label);
+    setFailed(false);
+    try {
+      await action.onSelect(tz);
+      setOpen(false);
+    } catch {
+      setFailed(true);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className={cn('relative', className)} ref={panelRef}>
+      <button
+        onClick={() => { setOpen(o => !o); setFailed(false); }}
+        className={cn(
+          'flex items-center gap-1.5 h-7 px-2.5 rounded text-xs font-mono transition-colors cursor-pointer',
+          'border border-border/40 hover:border-primary/40 hover:text-primary',
+          open ? 'bg-primary/10 border-primary/30 text-primary' : 'bg-muted/30 text-muted-foreground',
+        )}
+        title={t('export.title')}
+      >
+        <Download className="h-3 w-3" />
+        <span className="hidden sm:inline">{t('export.title')}</span>
+      </button>
+
+      {open && (
+        <div className="absolute top-full right-0 mt-1 z-50 w-56 rounded-md border border-border/50 bg-popover backdrop-blur-none shadow-lg commander-dropdown">
+          <div className="flex items-center justify-between gap-2 px-3 py-1.5 border-b border-border/50">
+            <span className="text-xxs font-mono font-bold uppercase tracking-wider text-muted-foreground">
+              {t('export.timeZone')}
+            </span>
+            <div className="flex border border-border/50 rounded overflow-hidden">
+              {(['local', 'utc'] as const).map(zone => (
+                <button
+                  key={zone}
+                  onClick={() => chooseTz(zone)}
+                  className={cn(
+                    'px-1.5 py-0.5 text-xxs font-mono transition-colors cursor-pointer',
+                    tz === zone ? 'bg-primary text-primary-foreground' : 'hover:bg-muted/50 text-muted-foreground',
+                  )}
+                  title={zone === 'local' ? localZoneLabel() : undefined}
+                >
+                  {zone === 'local' ? t('export.local') : 'UTC'}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="p-1">
+            {actions.map(action => (
+              <button
+                key={action.label}
+                onClick={() => run(action)}
+                disabled={busy !== null}
+                className="w-full flex items-center justify-between gap-2 px-2 py-1.5 rounded-md text-left text-xs font-mono transition-colors hover:bg-primary/10 hover:text-primary disabled:opacity-50 cursor-pointer"
+              >
+                <span className="truncate">{action.label}</span>
+                {busy === action.label && <HudSpinner size="sm" />}
+              </button>
+            ))}
+          </div>
+          {failed && (
+            <div className="px-3 pb-2 text-xxs font-mono text-red-500">{t('export.failed')}</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,311 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ChartArea, ArrowUpDown, Cpu, Server, HardDrive, Clock, Download } from 'lucide-react';
+import { HudSpinner } from './HudSpinner';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent } from './ui/chart';
+import { AreaChart, Area, LineChart, Line, XAxis, YAxis, CartesianGrid } from 'recharts';
+import { apiService } from '@/services/api';
+import type { NodeWithStatus } from '@/services/api';
+import { useAppConfig } from '@/hooks/useAppConfig';
+import {
+  chartColors,
+  chartCardClass,
+  chartContainerClass,
+  gridStrokeColor,
+  labelFormatter,
+  bucketSizeFor,
+  type LoadRecord,
+} from '@/lib/chart-utils';
+import { aggregateFleet, summarizeFleet, mapLimit } from '@/lib/fleet';
+import { toCsv, downloadText, fileTimestamp } from '@/lib/export';
+import { cn, formatBytes, formatSpeed, splitTags } from '@/lib/utils';
+
+const timeRangeCandidates = [
+  { value: 1, label: '1H' },
+  { value: 6, label: '6H' },
+  { value: 24, label: '24H' },
+  { value: 168, label: '7D' },
+  { value: 720, label: '30D' },
+];
+
+/** Parallel getRecords calls while loading the fleet */
+const FETCH_CONCURRENCY = 4;
+
+const selectClass = 'h-7 px-2 rounded bg-muted/30 border border-border/40 text-xs font-mono focus:outline-none focus:border-primary/50';
+
+const tickTime = (v: string) => new Date(v).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+function StatCard({ label, value, sub }: { label: string; value: string; sub?: string }) {
+  return (
+    <div className="p-2.5 rounded-lg border border-border/50 bg-card/80 backdrop-blur-xl">
+      <div className="text-xxs font-mono text-muted-foreground uppercase tracking-wider">{label}</div>
+      <div className="text-lg font-mono font-bold tabular-nums">{value}</div>
+      {sub && <div className="text-xxs font-mono text-muted-foreground/60">{sub}</div>}
+    </div>
+  );
+}
+
+/* ══════════════════════════════════════════════════════════════
+   FleetView — aggregate history across all (or filtered) nodes
+   ══════════════════════════════════════════════════════════════ */
+export function FleetView({ nodes }: { nodes: NodeWithStatus[] }) {
+  const { t } = useTranslation();
+  const { recordPreserveTime } = useAppConfig();
+  const [timeRange, setTimeRange] = useState(24);
+  const [groupFilter, setGroupFilter] = useState('');
+  const [tagFilter, setTagFilter] = useState('');
+  const [histories, setHistories] = useState<Record<string, LoadRecord[]>>({});
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  const timeRanges = useMemo(() => {
+    const limit = recordPreserveTime > 0 ? recordPreserveTime : 720;
+    return timeRangeCandidates.filter(r => r.value <= limit);
+  }, [recordPreserveTime]);
+
+  const groups = useMemo(() => Array.from(new Set(nodes.map(n => n.group).filter(Boolean))).sort(), [nodes]);
+  const tags = useMemo(() => Array.from(new Set(nodes.flatMap(n => splitTags(n.tags)))).sort(), [nodes]);
+
+  const uuidKey = useMemo(() => nodes.map(n => n.uuid).sort().join(','), [nodes]);
+
+  // Histories are fetched for the whole fleet; filters only change which ones are merged
+  useEffect(() => {
+    const uuids = uuidKey ? uuidKey.split(',') : [];
+    if (uuids.length === 0) return;
+    let cancelled = false;
+    let done = 0;
+    setProgress({ done: 0, total: uuids.length });
+    mapLimit(uuids, FETCH_CONCURRENCY, async uuid => {
+      const result = await apiService.getLoadHistory(uuid, timeRange).catch(() => null);
+      if (!cancelled) setProgress({ done: ++done, total: uuids.length });
+      return [uuid, (result?.records || []) as LoadRecord[]] as const;
+    }).then(entries => {
+      if (cancelled) return;
+      setHistories(Object.fromEntries(entries));
+      setProgress(null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [uuidKey, timeRange]);
+
+  const filteredNodes = useMemo(() => nodes.filter(n =>
+    (!groupFilter || n.group === groupFilter) &&
+    (!tagFilter || splitTags(n.tags).includes(tagFilter)),
+  ), [nodes, groupFilter, tagFilter]);
+
+  const buckets = useMemo(
+    () => aggregateFleet(filteredNodes.map(n => histories[n.uuid] ?? []), bucketSizeFor(timeRange)),
+    [filteredNodes, histories, timeRange],
+  );
+  const summary = useMemo(() => summarizeFleet(buckets), [buckets]);
+
+  const exportCsv = () => {
+    const csv = toCsv(buckets, [
+      { header: 'time', value: b => b.time },
+      { header: 'net_in_bps', value: b => Math.round(b.netIn) },
+      { header: 'net_out_bps', value: b => Math.round(b.netOut) },
+      { header: 'cpu_avg', value: b => b.cpuAvg.toFixed(2) },
+      { header: 'cpu_max', value: b => b.cpuMax.toFixed(2) },
+      { header: 'online', value: b => b.online },
+      { header: 'traffic_bytes', value: b => Math.round(b.traffic) },
+      { header: 'traffic_total_bytes', value: b => Math.round(b.trafficTotal) },
+    ]);
+    downloadText(`fleet-${timeRange}h-${fileTimestamp()}.csv`, csv, 'text/csv;charset=utf-8');
+  };
+
+  const bandwidthConfig = { netIn: { label: t('label.in'), color: chartColors[6] }, netOut: { label: t('label.out'), color: chartColors[7] } };
+  const cpuConfig = { cpuAvg: { label: t('label.avg'), color: chartColors[0] }, cpuMax: { label: t('fleet.max'), color: chartColors[4] } };
+  const onlineConfig = { online: { label: t('fleet.nodesOnline'), color: chartColors[1] } };
+  const trafficConfig = { trafficTotal: { label: t('fleet.trafficConsumed'), color: chartColors[3] } };
+
+  const margin = { top: 10, right: 16, bottom: 10, left: 16 };
+  const xAxisProps = { dataKey: 'time', tickLine: false, axisLine: false, minTickGap: 40, tick: { fontSize: 11 }, tickFormatter: tickTime };
+  const yAxisProps = { tickLine: false, axisLine: false, tick: { fontSize: 11, dx: -5 } };
+
+  return (
+    <div className="space-y-4">
+      {/* ═══ Header bar ═══ */}
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+        <div className="flex items-center gap-3">
+          <ChartArea className="h-5 w-5 text-primary" />
+          <h2 className="text-sm font-display font-bold">{t('fleet.overview')}</h2>
+          <span className="text-xs font-mono text-muted-foreground tabular-nums">
+            {filteredNodes.length}/{nodes.length}
+          </span>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 sm:ml-auto">
+          {groups.length > 0 && (
+            <select className={selectClass} value={groupFilter} onChange={e => setGroupFilter(e.target.value)}>
+              <option value="">{t('events.allGroups')}</option>
+              {groups.map(g => <option key={g} value={g}>{g}</option>)}
+            </select>
+          )}
+          {tags.length > 0 && (
+            <select className={selectClass} value={tagFilter} onChange={e => setTagFilter(e.target.value)}>
+              <option value="">{t('fleet.allTags')}</option>
+              {tags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+            </select>
+          )}
+          <div className="flex items-center gap-1">
+            <Clock className="h-3.5 w-3.5 text-primary mr-1" />
+            {timeRanges.map(tr => (
+              <button
+                key={tr.value}
+                onClick={() => setTimeRange(tr.value)}
+                className={cn(
+                  'px-2.5 py-1 text-xs font-mono rounded transition-all duration-200 cursor-pointer',
+                  timeRange === tr.value
+                    ? 'bg-primary/15 text-primary border border-primary/30'
+                    : 'text-muted-foreground hover:text-foreground hover:bg-muted/30',
+                )}
+              >
+                {tr.label}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={exportCsv}
+            disabled={buckets.length === 0}
+            className="flex items-center gap-1 px-2 py-1 rounded border border-border/50 text-xs font-mono hover:bg-muted/50 transition-colors disabled:opacity-40 cursor-pointer"
+          >
+            <Download className="h-3 w-3" /> CSV
+          </button>
+        </div>
+      </div>
+
+      {progress ? (
+        <div className="flex flex-col items-center justify-center gap-3 h-64">
+          <HudSpinner size="lg" />
+          <span className="text-xs font-mono text-muted-foreground tabular-nums">
+            {t('fleet.loading', { done: progress.done, total: progress.total })}
+          </span>
+        </div>
+      ) : (
+        <>
+          {/* ═══ Summary ═══ */}
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            <StatCard
+              label={t('fleet.peakBandwidth')}
+              value={formatSpeed(summary.peakIn + summary.peakOut)}
+              sub={`↓${formatSpeed(summary.peakIn)} ↑${formatSpeed(summary.peakOut)}`}
+            />
+            <StatCard
+              label={t('fleet.avgCpu')}
+              value={`${summary.avgCpu.toFixed(1)}%`}
+              sub={`${t('fleet.max')} ${summary.peakCpu.toFixed(1)}%`}
+            />
+            <StatCard
+              label={t('fleet.nodesOnline')}
+              value={`${summary.maxOnline}`}
+              sub={`${t('fleet.min')} ${summary.minOnline}`}
+            />
+            <StatCard label={t('fleet.trafficConsumed')} value={formatBytes(summary.totalTraffic)} />
+          </div>
+
+          {/* ═══ Charts ═══ */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 w-full">
+            <Card className={chartCardClass}>
+              <CardHeader className="pb-2 px-4 pt-3">
+                <CardTitle className="flex items-center gap-2 text-sm font-semibold">
+                  <ArrowUpDown className="h-4 w-4 text-primary" />
+                  {t('fleet.totalBandwidth')}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="px-4 pb-3">
+                <ChartContainer config={bandwidthConfig} className={chartContainerClass}>
+                  <AreaChart data={buckets} margin={margin}>
+                    <CartesianGrid vertical={false} stroke={gridStrokeColor} strokeOpacity={0.3} />
+                    <XAxis {...xAxisProps} />
+                    <YAxis {...yAxisProps} width={60} tickFormatter={(v: number) => formatSpeed(v)} />
+                    <ChartTooltip
+                      cursor={false}
+                      formatter={(v: number | string) => typeof v === 'number' ? formatSpeed(v) : v}
+                      content={<ChartTooltipContent labelFormatter={labelFormatter} indicator="dot" />}
+                    />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Area dataKey="netIn" name={t('label.in')} stroke={chartColors[6]} fill={chartColors[6]} fillOpacity={0.15} type="linear" stackId="bw" isAnimationActive={false} />
+                    <Area dataKey="netOut" name={t('label.out')} stroke={chartColors[7]} fill={chartColors[7]} fillOpacity={0.15} type="linear" stackId="bw" isAnimationActive={false} />
+                  </AreaChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <Card className={chartCardClass}>
+              <CardHeader className="pb-2 px-4 pt-3">
+                <CardTitle className="flex items-center gap-2 text-sm font-semibold">
+                  <Cpu className="h-4 w-4 text-primary" />
+                  {t('chart.cpuUsage')}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="px-4 pb-3">
+                <ChartContainer config={cpuConfig} className={chartContainerClass}>
+                  <LineChart data={buckets} margin={margin}>
+                    <CartesianGrid vertical={false} stroke={gridStrokeColor} strokeOpacity={0.3} />
+                    <XAxis {...xAxisProps} />
+                    <YAxis {...yAxisProps} width={40} domain={[0, 100]} unit="%" />
+                    <ChartTooltip
+                      cursor={false}
+                      formatter={(v: number | string) => `${typeof v === 'number' ? v.toFixed(1) : v}%`}
+                      content={<ChartTooltipContent labelFormatter={labelFormatter} indicator="dot" />}
+                    />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Line dataKey="cpuAvg" name={t('label.avg')} stroke={chartColors[0]} dot={false} isAnimationActive={false} strokeWidth={2} type="linear" />
+                    <Line dataKey="cpuMax" name={t('fleet.max')} stroke={chartColors[4]} dot={false} isAnimationActive={false} strokeWidth={1.5} strokeDasharray="4 2" type="linear" />
+                  </LineChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <Card className={chartCardClass}>
+              <CardHeader className="pb-2 px-4 pt-3">
+                <CardTitle className="flex items-center gap-2 text-sm font-semibold">
+                  <Server className="h-4 w-4 text-primary" />
+                  {t('fleet.nodesOnline')}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="px-4 pb-3">
+                <ChartContainer config={onlineConfig} className={chartContainerClass}>
+                  <LineChart data={buckets} margin={margin}>
+                    <CartesianGrid vertical={false} stroke={gridStrokeColor} strokeOpacity={0.3} />
+                    <XAxis {...xAxisProps} />
+                    <YAxis {...yAxisProps} width={40} allowDecimals={false} domain={[0, filteredNodes.length || 'auto']} />
+                    <ChartTooltip
+                      cursor={false}
+                      content={<ChartTooltipContent labelFormatter={labelFormatter} indicator="dot" />}
+                    />
+                    <Line dataKey="online" name={t('fleet.nodesOnline')} stroke={chartColors[1]} dot={false} isAnimationActive={false} strokeWidth={2} type="stepAfter" />
+                  </LineChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <Card className={chartCardClass}>
+              <CardHeader className="pb-2 px-4 pt-3">
+                <CardTitle className="flex items-center gap-2 text-sm font-semibold">
+                  <HardDrive className="h-4 w-4 text-primary" />
+                  {t('fleet.trafficConsumed')}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="px-4 pb-3">
+                <ChartContainer config={trafficConfig} className={chartContainerClass}>
+                  <AreaChart data={buckets} margin={margin}>
+                    <CartesianGrid vertical={false} stroke={gridStrokeColor} strokeOpacity={0.3} />
+                    <XAxis {...xAxisProps} />
+                    <YAxis {...yAxisProps} width={60} tickFormatter={(v: number) => formatBytes(v)} />
+                    <ChartTooltip
+                      cursor={false}
+                      formatter={(v: number | string) => typeof v === 'number' ? formatBytes(v) : v}
+                      content={<ChartTooltipContent labelFormatter={labelFormatter} indicator="dot" />}
+                    />
+                    <Area dataKey="trafficTotal" name={t('fleet.trafficConsumed')} stroke={chartColors[3]} fill={chartColors[3]} fillOpacity={0.15} type="linear" isAnimationActive={false} />
+                  </AreaChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
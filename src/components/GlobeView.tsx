@@ -1,9 +1,14 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useCallback } from 'react';
 import { useTranslation } from 'react-i18next';
 import { Globe } from '@/components/Globe';
 import { Sidebar } from '@/components/Sidebar';
 import { HudSpinner } from './HudSpinner';
 import { useTheme } from '@/hooks/useTheme';
+import { useAlerts } from '@/hooks/useAlerts';
+import { useQueryParams } from '@/hooks/useQueryParams';
+import { liveSnapshot } from '@/hooks/useNodeStatus';
+import { formatCondition } from '@/lib/alert-rules';
+import { wsService } from '@/services/api';
 import type { NodeWithStatus } from '@/services/api';
 
 const MAX_LOG_LINES = 50;
@@ -14,6 +19,10 @@ interface LogLine {
   critical: boolean;
 }
 
+function fmtTime(d: Date): string {
+  return `${String(d.getHours()).padStart(2,'0')}:${String(d.getMinutes()).padStart(2,'0')}:${String(d.getSeconds()).padStart(2,'0')}`;
+}
+
 function fmtSpeed(b: number): string {
   if (b >= 1073741824) return (b / 1073741824).toFixed(1) + 'G';
   if (b >= 1048576) return (b / 1048576).toFixed(1) + 'M';
@@ -30,7 +39,10 @@ interface GlobeViewProps {
 export function GlobeView({ nodes, loading = false, onViewCharts }: GlobeViewProps) {
   const { t } = useTranslation();
   const { theme } = useTheme();
-  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+  const [params, updateParams] = useQueryParams();
+  const selectedNodeId = params.get('node');
+  const setSelectedNodeId = useCallback((uuid: string | null) => updateParams({ node: uuid }), [updateParams]);
+  const { firing, subscribeTransitions } = useAlerts();
 
   // Rolling log stream state
   const [logLines, setLogLines] = useState<LogLine[]>([]);
@@ -38,64 +50,76 @@ export function GlobeView({ nodes, loading = false, onViewCharts }: GlobeViewPro
   const logIdRef = useRef(0);
   const feedRef = useRef<HTMLDivElement>(null);
 
+  // Nodes with a firing critical alert — used to highlight their telemetry lines
+  const criticalUuidsRef = useRef<Set<string>>(new Set());
+  criticalUuidsRef.current = new Set(firing.filter(a => a.rule.severity === 'critical').map(a => a.uuid));
+
+  // Alert rule transitions feed the log stream
+  useEffect(() => subscribeTransitions(transitions => {
+    const ts = fmtTime(new Date());
+    const lines: LogLine[] = transitions.map(tr => ({
+      id: ++logIdRef.current,
+      text: `[${ts}] ${tr.node.name.substring(0, 8).toUpperCase()} :: ${tr.kind === 'firing' ? '⚠ ALERT' : '✓ RESOLVED'} ${tr.rule.name} | ${formatCondition(tr.rule)}`,
+      critical: tr.kind === 'firing' && tr.rule.severity === 'critical',
+    }));
+    setLogLines(prevLines => [...prevLines, ...lines].slice(-MAX_LOG_LINES));
+  }), [subscribeTransitions]);
+
+  // Telemetry lines follow the live store directly so the view itself only
+  // re-renders when a line is added, not on every stats tick
   useEffect(() => {
-    const prev = prevSnapshotRef.current;
-    const newLines: LogLine[] = [];
-    const now = new Date();
-    const ts = `${String(now.getHours()).padStart(2,'0')}:${String(now.getMinutes()).padStart(2,'0')}:${String(now.getSeconds()).padStart(2,'0')}`;
-
-    for (const node of nodes) {
-      const tag = node.name.substring(0, 8).toUpperCase();
-      const old = prev.get(node.uuid);
-
-      if (node.status === 'offline') {
-        if (!old || old.status !== 'offline') {
-          newLines.push({ id: ++logIdRef.current, text: `[${ts}] ${tag} :: SIGNAL LOST`, critical: true });
+    const logChanges = () => {
+      const prev = prevSnapshotRef.current;
+      const newLines: LogLine[] = [];
+      const ts = fmtTime(new Date());
+
+      for (const node of nodes.map(liveSnapshot)) {
+        const tag = node.name.substring(0, 8).toUpperCase();
+        const old = prev.get(node.uuid);
+
+        if (node.status === 'offline') {
+          if (!old || old.status !== 'offline') {
+            newLines.push({ id: ++logIdRef.current, text: `[${ts}] ${tag} :: SIGNAL LOST`, critical: true });
+          }
+          prev.set(node.uuid, { status: 'offline', cpu: 0, ramPct: 0, netUp: 0, netDown: 0 });
+          continue;
         }
-        prev.set(node.uuid, { status: 'offline', cpu: 0, ramPct: 0, netUp: 0, netDown: 0 });
-        continue;
-      }
 
-      if (!node.stats) continue;
-      const s = node.stats;
-      const cpu = Math.round(s.cpu.usage);
-      const ramPct = Math.round((s.ram.used / s.ram.total) * 100);
-      const netUp = s.network.up;
-      const netDown = s.network.down;
-
-      if (!old || old.status === 'offline') {
-        // Node just came online
-        newLines.push({ id: ++logIdRef.current, text: `[${ts}] ${tag} :: ONLINE | CPU ${String(cpu).padStart(3)}% | RAM ${String(ramPct).padStart(3)}%`, critical: false });
-      } else {
-        // Detect meaningful changes
-        const cpuDelta = cpu - old.cpu;
-        const ramDelta = ramPct - old.ramPct;
-        const isCritical = cpu > 90 || ramPct > 95;
-
-        if (Math.abs(cpuDelta) >= 3 || Math.abs(ramDelta) >= 3) {
-          const cpuArrow = cpuDelta > 0 ? '▲' : cpuDelta < 0 ? '▼' : '=';
-          const ramArrow = ramDelta > 0 ? '▲' : ramDelta < 0 ? '▼' : '=';
-          newLines.push({
-            id: ++logIdRef.current,
-            text: `[${ts}] ${tag} :: CPU ${cpuArrow}${String(cpu).padStart(3)}% | RAM ${ramArrow}${String(ramPct).padStart(3)}% | ▲${fmtSpeed(netUp)} ▼${fmtSpeed(netDown)}`,
-            critical: isCritical,
-          });
-        } else if (isCritical && !(old.cpu > 90 || old.ramPct > 95)) {
-          // Just crossed into critical
-          newLines.push({
-            id: ++logIdRef.current,
-            text: `[${ts}] ${tag} :: ⚠ CRITICAL | CPU ${String(cpu).padStart(3)}% | RAM ${String(ramPct).padStart(3)}%`,
-            critical: true,
-          });
+        if (!node.stats) continue;
+        const s = node.stats;
+        const cpu = Math.round(s.cpu.usage);
+        const ramPct = Math.round((s.ram.used / s.ram.total) * 100);
+        const netUp = s.network.up;
+        const netDown = s.network.down;
+
+        if (!old || old.status === 'offline') {
+          // Node just came online
+          newLines.push({ id: ++logIdRef.current, text: `[${ts}] ${tag} :: ONLINE | CPU ${String(cpu).padStart(3)}% | RAM ${String(ramPct).padStart(3)}%`, critical: false });
+        } else {
+          // Detect meaningful changes; threshold crossings are logged by alert transitions
+          const cpuDelta = cpu - old.cpu;
+          const ramDelta = ramPct - old.ramPct;
+
+          if (Math.abs(cpuDelta) >= 3 || Math.abs(ramDelta) >= 3) {
+            const cpuArrow = cpuDelta > 0 ? '▲' : cpuDelta < 0 ? '▼' : '=';
+            const ramArrow = ramDelta > 0 ? '▲' : ramDelta < 0 ? '▼' : '=';
+            newLines.push({
+              id: ++logIdRef.current,
+              text: `[${ts}] ${tag} :: CPU ${cpuArrow}${String(cpu).padStart(3)}% | RAM ${ramArrow}${String(ramPct).padStart(3)}% | ▲${fmtSpeed(netUp)} ▼${fmtSpeed(netDown)}`,
+              critical: criticalUuidsRef.current.has(node.uuid),
+            });
+          }
         }
-      }
 
-      prev.set(node.uuid, { status: 'online', cpu, ramPct, netUp, netDown });
-    }
+        prev.set(node.uuid, { status: 'online', cpu, ramPct, netUp, netDown });
+      }
 
-    if (newLines.length > 0) {
-      setLogLines(lines => [...lines, ...newLines].slice(-MAX_LOG_LINES));
-    }
+      if (newLines.length > 0) {
+        setLogLines(lines => [...lines, ...newLines].slice(-MAX_LOG_LINES));
+      }
+    };
+    logChanges();
+    return wsService.subscribe(logChanges);
   }, [nodes]);
 
   // Auto-scroll to bottom
@@ -201,24 +225,18 @@ export function GlobeView({ nodes, loading = false, onViewCharts }: GlobeViewPro
           </div>
         </div>
 
-        {/* Threat Detection - Critical Nodes */}
-        {nodes.some(n => n.status === 'online' && (
-          (n.stats?.cpu.usage ?? 0) > 90 || 
-          (n.stats ? (n.stats.ram.used / n.stats.ram.total) > 0.95 : false)
-        )) && (
+        {/* Threat Detection - Firing Alerts */}
+        {firing.length > 0 && (
           <div className="absolute bottom-4 left-4 z-20 pointer-events-none">
             <div className="text-xs font-mono text-red-500/60 uppercase tracking-[0.2em] mb-2 flex items-center gap-2">
               <div className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
               {t('hud.activeThreats')}
             </div>
             <div className="space-y-1">
-              {nodes.filter(n => n.status === 'online' && (
-                (n.stats?.cpu.usage ?? 0) > 90 || 
-                (n.stats ? (n.stats.ram.used / n.stats.ram.total) > 0.95 : false)
-              )).slice(0, 3).map(node => (
-                <div key={node.uuid} className="text-xxs font-mono text-red-400/50 flex gap-2 items-center">
-                  <span className="bg-red-500/10 px-1 border border-red-500/20">{node.name.substring(0, 10)}</span>
-                  <span className="animate-pulse">{" >> "}{t('hud.criticalLoad')}</span>
+              {firing.slice(0, 3).map(alert => (
+                <div key={`${alert.ruleId}:${alert.uuid}`} className="text-xxs font-mono text-red-400/50 flex gap-2 items-center">
+                  <span className="bg-red-500/10 px-1 border border-red-500/20">{alert.node.name.substring(0, 10)}</span>
+                  <span className="animate-pulse">{" >> "}{alert.rule.name}</span>
                 </div>
               ))}
             </div>
@@ -0,0 +1,200 @@
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { BarChart3 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from './ui/chart';
+import { BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, ReferenceLine } from 'recharts';
+import {
+  chartColors,
+  chartCardClass,
+  chartContainerClass,
+  gridStrokeColor,
+  type PingRecord,
+  type TaskInfo,
+} from '@/lib/chart-utils';
+import {
+  BAND_PERCENTILES,
+  taskSamples,
+  percentile,
+  latencyHistogram,
+  latencyCdf,
+  latencyHeatmap,
+} from '@/lib/latency-distribution';
+import { cn } from '@/lib/utils';
+
+type DistributionView = 'histogram' | 'cdf' | 'heatmap';
+
+const views: DistributionView[] = ['histogram', 'cdf', 'heatmap'];
+
+const chipClass = (active: boolean) => cn(
+  'px-2 py-0.5 rounded text-xs font-mono transition-colors cursor-pointer',
+  active ? 'bg-primary/15 text-primary border border-primary/30' : 'text-muted-foreground hover:text-foreground hover:bg-muted/30 border border-transparent',
+);
+
+const timeLabel = (ms: number) => new Date(ms).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+/* ── Heatmap — plain SVG, one rect per time column × latency bin ── */
+function LatencyHeatmapChart({ samples, color }: { samples: { time: number; value: number }[]; color: string }) {
+  const { t } = useTranslation();
+  const heatmap = useMemo(() => latencyHeatmap(samples), [samples]);
+  if (!heatmap) return <div className="flex items-center justify-center h-full text-xs font-mono text-muted-foreground">{t('chart.noPingData')}</div>;
+
+  const columns = heatmap.times.length;
+  const rows = heatmap.edges.length - 1;
+  const peak = Math.max(...heatmap.cells.flat(), 0.0001);
+  const last = heatmap.edges[rows];
+
+  return (
+    <div className="flex h-full gap-1.5 text-xxs font-mono text-muted-foreground">
+      <div className="flex flex-col justify-between pb-5 text-right w-12 shrink-0 tabular-nums">
+        <span>{Math.round(last)} ms</span>
+        <span>{Math.round((heatmap.edges[0] + last) / 2)} ms</span>
+        <span>{Math.round(heatmap.edges[0])} ms</span>
+      </div>
+      <div className="flex-1 flex flex-col min-w-0">
+        <svg className="flex-1 w-full" viewBox={`0 0 ${columns} ${rows}`} preserveAspectRatio="none">
+          {heatmap.cells.map((col, x) => col.map((share, y) => share > 0 && (
+            <rect key={`${x}:${y}`} x={x} y={rows - y - 1} width={1} height={1} fill={color} fillOpacity={0.1 + 0.9 * (share / peak)}>
+              <title>{`${timeLabel(heatmap.times[x])} · ${Math.round(heatmap.edges[y])}–${Math.round(heatmap.edges[y + 1])} ms · ${(share * 100).toFixed(0)}%`}</title>
+            </rect>
+          )))}
+        </svg>
+        <div className="flex justify-between h-5 items-end tabular-nums">
+          <span>{timeLabel(heatmap.times[0])}</span>
+          <span>{timeLabel(samples[samples.length - 1].time)}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Latency distribution of one ping task — histogram, CDF or heatmap — and
+ * the picker for the percentile bands drawn on the ping line chart.
+ */
+export function LatencyDistribution({
+  tasks,
+  records,
+  taskId,
+  onTaskChange,
+  percentiles,
+  onPercentilesChange,
+}: {
+  tasks: TaskInfo[];
+  records: PingRecord[];
+  taskId: number;
+  onTaskChange: (id: number) => void;
+  percentiles: number[];
+  onPercentilesChange: (percentiles: number[]) => void;
+}) {
+  const { t } = useTranslation();
+  const [view, setView] = useState<DistributionView>('histogram');
+
+  const taskIndex = Math.max(0, tasks.findIndex(task => task.id === taskId));
+  const color = chartColors[taskIndex % chartColors.length];
+
+  const samples = useMemo(() => taskSamples(records, taskId), [records, taskId]);
+  const sorted = useMemo(() => samples.map(s => s.value).sort((a, b) => a - b), [samples]);
+  const histogram = useMemo(() => latencyHistogram(sorted), [sorted]);
+  const cdf = useMemo(() => latencyCdf(sorted), [sorted]);
+
+  const histogramData = histogram.map(bin => ({
+    range: `${Math.round(bin.from)}${bin.overflow ? '+' : `–${Math.round(bin.to)}`}`,
+    count: bin.count,
+  }));
+  // Percentile markers; on the histogram they snap to the bin that holds them
+  const markers = percentiles.map(p => {
+    const value = percentile(sorted, p);
+    const bin = value === null ? -1 : histogram.findIndex((b, i) => value < b.to || i === histogram.length - 1);
+    return { p, value, bin: bin >= 0 ? histogramData[bin]?.range : undefined };
+  });
+
+  const togglePercentile = (p: number) => onPercentilesChange(
+    percentiles.includes(p) ? percentiles.filter(x => x !== p) : [...percentiles, p].sort((a, b) => a - b),
+  );
+
+  const summary = [50, 90, 99].map(p => ({ p, value: percentile(sorted, p) }));
+
+  return (
+    <Card className={`${chartCardClass} lg:col-span-2`}>
+      <CardHeader className="pb-2 px-4 pt-3">
+        <CardTitle className="flex flex-wrap items-center gap-2 text-sm font-semibold">
+          <BarChart3 className="h-4 w-4 text-primary" />
+          {t('latency.distribution')}
+          <div className="ml-auto flex items-center gap-0.5">
+            {views.map(v => (
+              <button key={v} onClick={() => setView(v)} className={chipClass(view === v)}>
+                {t(`latency.${v}`)}
+              </button>
+            ))}
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="px-4 pb-3 space-y-2">
+        <div className="flex flex-wrap items-center gap-1">
+          {tasks.map((task, idx) => (
+            <button key={task.id} onClick={() => onTaskChange(task.id)} className={cn(chipClass(task.id === taskId), 'flex items-center gap-1.5')}>
+              <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: chartColors[idx % chartColors.length] }} />
+              {task.name}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-1">
+            <span className="text-xxs font-mono uppercase tracking-wider text-muted-foreground/60 mr-1" title={t('latency.bandsHint')}>
+              {t('latency.bands')}
+            </span>
+            {BAND_PERCENTILES.map(p => (
+              <button key={p} onClick={() => togglePercentile(p)} className={chipClass(percentiles.includes(p))}>
+                P{p}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-3 text-xs font-mono tabular-nums text-muted-foreground">
+            <span>{t('latency.samples', { count: sorted.length })}</span>
+            {summary.map(({ p, value }) => (
+              <span key={p}>P{p} <span className="font-bold text-foreground">{value !== null ? `${Math.round(value)} ms` : '—'}</span></span>
+            ))}
+          </div>
+        </div>
+
+        <div className={chartContainerClass}>
+          {view === 'heatmap' ? (
+            <LatencyHeatmapChart samples={samples} color={color} />
+          ) : view === 'histogram' ? (
+            <ChartContainer config={{ count: { label: t('latency.count'), color } }} className="h-full w-full !aspect-auto">
+              <BarChart data={histogramData} margin={{ top: 10, right: 10, bottom: 0, left: 0 }}>
+                <CartesianGrid vertical={false} stroke={gridStrokeColor} strokeOpacity={0.3} />
+                <XAxis dataKey="range" tickLine={false} axisLine={false} tick={{ fontSize: 10 }} interval="preserveStartEnd" minTickGap={20} unit=" ms" />
+                <YAxis tickLine={false} axisLine={false} allowDecimals={false} tick={{ fontSize: 10 }} width={36} />
+                <ChartTooltip cursor={false} content={<ChartTooltipContent indicator="dot" labelFormatter={(range: string) => `${range} ms`} />} />
+                <Bar dataKey="count" fill={color} fillOpacity={0.8} radius={[2, 2, 0, 0]} isAnimationActive={false} />
+                {markers.map(m => m.bin && (
+                  <ReferenceLine key={m.p} x={m.bin} stroke="var(--foreground)" strokeOpacity={0.5} strokeDasharray="3 3" label={{ value: `P${m.p}`, position: 'top', fontSize: 10, fill: 'var(--muted-foreground)' }} />
+                ))}
+              </BarChart>
+            </ChartContainer>
+          ) : (
+            <ChartContainer config={{ pct: { label: t('latency.cdf'), color } }} className="h-full w-full !aspect-auto">
+              <LineChart data={cdf} margin={{ top: 10, right: 10, bottom: 0, left: 0 }}>
+                <CartesianGrid vertical={false} stroke={gridStrokeColor} strokeOpacity={0.3} />
+                <XAxis dataKey="latency" type="number" domain={['dataMin', 'dataMax']} tickLine={false} axisLine={false} tick={{ fontSize: 10 }} unit=" ms" tickFormatter={(v: number) => String(Math.round(v))} />
+                <YAxis domain={[0, 100]} tickLine={false} axisLine={false} tick={{ fontSize: 10 }} unit="%" width={40} />
+                <ChartTooltip
+                  cursor={false}
+                  formatter={(v: number | string) => `${Number(v).toFixed(1)}%`}
+                  content={<ChartTooltipContent indicator="dot" labelFormatter={(_: unknown, payload) => `≤ ${Math.round(Number(payload?.[0]?.payload?.latency))} ms`} />}
+                />
+                <Line dataKey="pct" stroke={color} dot={false} strokeWidth={2} type="stepAfter" isAnimationActive={false} />
+                {markers.map(m => m.value !== null && (
+                  <ReferenceLine key={m.p} x={m.value} stroke="var(--foreground)" strokeOpacity={0.5} strokeDasharray="3 3" label={{ value: `P${m.p}`, position: 'top', fontSize: 10, fill: 'var(--muted-foreground)' }} />
+                ))}
+              </LineChart>
+            </ChartContainer>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
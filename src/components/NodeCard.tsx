@@ -1,4 +1,5 @@
 import { Sparkline } from './Sparkline';
+import { TrafficForecast } from './TrafficForecast';
 import { useMemo, memo } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useNavigate } from 'react-router-dom';
@@ -8,6 +9,10 @@ import { useRecentStats } from '@/hooks/useRecentStats';
 import { formatBytes, formatSpeed, formatUptime, getUsageStatus, calcTrafficUsage, formatTrafficType, getExpiryStatus, formatExpiry, cn } from '@/lib/utils';
 import type { TrafficLimitType } from '@/lib/utils';
 import { useAppConfig } from '@/hooks/useAppConfig';
+import { useLiveNode } from '@/hooks/useNodeStatus';
+import { useExpirySettings } from '@/hooks/useExpirySettings';
+import { sameNodeMeta } from '@/lib/status-store';
+import { recentRebootAge } from '@/lib/reboot';
 import { Tooltip, TooltipTrigger, TooltipContent } from './ui/tooltip';
 
 interface NodeCardProps {
@@ -83,10 +88,12 @@ function TrafficBar({ totalUp, totalDown, limit, type, label }: { totalUp: numbe
 
 export const NodeCard = memo(function NodeCard({ node }: NodeCardProps) {
   const { t } = useTranslation();
-  const isOnline = node.status === 'online';
-  const stats = node.stats;
+  // Live values come from the per-node selector, so stats ticks of other nodes never reach this card
+  const { status, stats } = useLiveNode(node);
+  const isOnline = status === 'online';
   const { getCpuSparkline } = useRecentStats();
   const { isLoggedIn } = useAppConfig();
+  const { warningDays } = useExpirySettings();
   const cpuSparkline = isOnline ? getCpuSparkline(node.uuid) : null;
   const navigate = useNavigate();
 
@@ -98,6 +105,7 @@ export const NodeCard = memo(function NodeCard({ node }: NodeCardProps) {
   const cpuUsage = stats?.cpu?.usage ?? 0;
   const ramUsage = stats ? (stats.ram.used / stats.ram.total) * 100 : 0;
   const diskUsage = stats ? (stats.disk.used / stats.disk.total) * 100 : 0;
+  const rebootAge = isOnline ? recentRebootAge(stats?.uptime) : null;
 
   const cpuStatus = getUsageStatus(cpuUsage, { warning: 60, critical: 80 });
   const ramStatus = getUsageStatus(ramUsage, { warning: 70, critical: 85 });
@@ -148,7 +156,7 @@ export const NodeCard = memo(function NodeCard({ node }: NodeCardProps) {
             >{node.name}</h3>
             
             {isLoggedIn && node.price !== -1 && (() => {
-              const expiryStatus = getExpiryStatus(node.expired_at);
+              const expiryStatus = getExpiryStatus(node.expired_at, warningDays);
               if (!expiryStatus) return null;
               return (
                 <span className={cn(
@@ -234,13 +242,16 @@ export const NodeCard = memo(function NodeCard({ node }: NodeCardProps) {
 
             {/* Traffic limit bar */}
             {!!(node.traffic_limit && node.traffic_limit > 0 && node.traffic_limit_type && node.traffic_limit_type !== 'no_limit') && (
-              <TrafficBar
-                totalUp={stats.network.totalUp}
-                totalDown={stats.network.totalDown}
-                limit={node.traffic_limit}
-                type={node.traffic_limit_type as TrafficLimitType}
-                label={t('label.traffic')}
-              />
+              <div className="space-y-0.5">
+                <TrafficBar
+                  totalUp={stats.network.totalUp}
+                  totalDown={stats.network.totalDown}
+                  limit={node.traffic_limit}
+                  type={node.traffic_limit_type as TrafficLimitType}
+                  label={t('label.traffic')}
+                />
+                <TrafficForecast node={node} stats={stats} />
+              </div>
             )}
 
             {/* CPU Sparkline (login required) */}
@@ -270,6 +281,11 @@ export const NodeCard = memo(function NodeCard({ node }: NodeCardProps) {
               <div className="text-center p-1.5 rounded bg-muted/20 border border-border/20 hud-data-cell">
                 <div className="text-xs font-mono text-muted-foreground">{t('label.up')}</div>
                 <div className="text-xs font-mono font-bold tabular-nums">{formatUptime(stats.uptime)}</div>
+                {rebootAge !== null && (
+                  <div className="text-xxs font-mono text-yellow-500 truncate" title={t('reboot.ago', { time: formatUptime(rebootAge, 'minute') })}>
+                    ↻ {formatUptime(rebootAge, 'minute')}
+                  </div>
+                )}
               </div>
             </div>
 
@@ -283,4 +299,4 @@ export const NodeCard = memo(function NodeCard({ node }: NodeCardProps) {
       </div>
     </div>
   );
-});
+}, (prev, next) => prev.onViewCharts === next.onViewCharts && sameNodeMeta(prev.node, next.node));
@@ -1,11 +1,21 @@
-import { useEffect, useMemo, useState, useCallback } from "react";
+import { useEffect, useMemo, useState, useCallback, useRef } from "react";
 import { useTranslation } from 'react-i18next';
 import { Link } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Cpu, MemoryStick, HardDrive, Activity, Clock, Signal, ArrowUpDown, ExternalLink, Unplug, ChevronDown } from 'lucide-react';
 import { HudSpinner } from './HudSpinner';
+import { ExportMenu } from './ExportMenu';
+import { ChartImageMenu } from './ChartImageMenu';
+import { CustomRangePicker, ZoomControls } from './TimeRangeControls';
+import { PinnedCursor } from './PinnedCursor';
+import { AnomalyBadge } from './AnomalyBadge';
 import { apiService } from '../services/api';
 import { useAppConfig } from '@/hooks/useAppConfig';
+import { useQueryParams } from '@/hooks/useQueryParams';
+import { useChartZoom } from '@/hooks/useChartZoom';
+import { useChartSync } from '@/hooks/useChartSync';
+import { useDownsampled, useElementWidth } from '@/hooks/useDownsampled';
+import { parseRangeParam } from '@/lib/url-state';
 import {
   ChartContainer,
   ChartTooltip,
@@ -14,7 +24,7 @@ import {
   ChartLegendContent,
 } from './ui/chart';
 import {
-  LineChart,
+  ComposedChart,
   Line,
   XAxis,
   YAxis,
@@ -22,12 +32,14 @@ import {
   AreaChart,
   Area,
   ReferenceLine,
+  ReferenceArea,
 } from 'recharts';
 import {
   chartColors,
   chartCardClass,
   chartContainerClass,
   gridStrokeColor,
+  crosshairCursor,
   labelFormatter,
   transformLoadRecords,
   processPingRecords,
@@ -37,12 +49,27 @@ import {
   type TaskInfo,
   type ChartDataPoint,
 } from '@/lib/chart-utils';
+import { detectReboots } from '@/lib/reboot';
+import { toCsv, downloadText, fileSlug, fileTimestamp, type ExportTimeZone } from '@/lib/export';
+import { loadHistoryColumns, pingHistoryColumns } from '@/lib/node-export';
+import { nearestRow } from '@/lib/chart-sync';
+import { rangeKey } from '@/lib/downsample';
+import { anomalyRegions, regionsFor, LOAD_ANOMALY_METRICS } from '@/lib/anomaly';
+import { parseWindowParams, windowFetchHours, clipToWindow, formatWindow, type TimeWindow } from '@/lib/time-window';
 
 interface NodeChartsProps {
   nodeUuid: string;
   nodeName: string;
 }
 
+const rebootColor = "oklch(0.75 0.16 70)";
+const anomalyColor = "oklch(0.7 0.19 45)";
+
+/** Series that get a min–max envelope once long ranges are downsampled */
+const envelopeKeys: (keyof ChartDataPoint & string)[] = [
+  'cpu', 'ram', 'swap', 'disk', 'load', 'connections', 'connections_udp', 'network_in', 'network_out',
+];
+
 const useIsMobile = () => {
   const [isMobile, setIsMobile] = useState(false);
   useEffect(() => {
@@ -54,17 +81,17 @@ const useIsMobile = () => {
   return isMobile;
 };
 
-export function NodeCharts({ nodeUuid }: NodeChartsProps) {
+export function NodeCharts({ nodeUuid, nodeName }: NodeChartsProps) {
   const { t } = useTranslation();
   const [loadData, setLoadData] = useState<LoadRecord[] | null>(null);
   const [pingData, setPingData] = useState<PingRecord[] | null>(null);
   const [tasks, setTasks] = useState<TaskInfo[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [timeRange, setTimeRange] = useState(1);
+  const [params, updateParams] = useQueryParams();
   const [latencyCollapsed, setLatencyCollapsed] = useState(false);
   const isMobile = useIsMobile();
-  const { recordPreserveTime, isLoggedIn } = useAppConfig();
+  const { recordPreserveTime, pingRecordPreserveTime, isLoggedIn } = useAppConfig();
 
   const timeRanges = useMemo(() => {
     const candidates = [
@@ -78,6 +105,29 @@ export function NodeCharts({ nodeUuid }: NodeChartsProps) {
     return candidates.filter(r => r.value <= limit);
   }, [recordPreserveTime]);
 
+  const timeRange = parseRangeParam(params.get('range'), timeRanges.map(r => r.value), 1);
+  const setTimeRange = (hours: number) => updateParams({ range: hours === 1 ? null : String(hours), from: null, to: null });
+
+  // An absolute from/to window overrides the preset range
+  const fromParam = params.get('from');
+  const toParam = params.get('to');
+  const maxHours = recordPreserveTime > 0 ? recordPreserveTime : 720;
+  const custom = useMemo(() => parseWindowParams(fromParam, toParam, maxHours), [fromParam, toParam, maxHours]);
+  const fetchHours = custom ? windowFetchHours(custom) : timeRange;
+  const applyCustom = (window: TimeWindow) => updateParams({ range: null, from: String(window.from), to: String(window.to) });
+
+  const windowKey = `${timeRange}:${fromParam}:${toParam}`;
+  const { syncProps, pinned, togglePin, clearPin } = useChartSync(windowKey);
+  const { zoom, depth, undo, reset, chartProps, dragArea } = useChartZoom(windowKey, togglePin);
+  const shownWindow = zoom ?? custom;
+  const rangeLabel = shownWindow
+    ? formatWindow(shownWindow)
+    : timeRanges.find(r => r.value === timeRange)?.label ?? `${timeRange}H`;
+  const imageProps = (metric: string, key: string) => ({
+    caption: { title: `${nodeName} — ${metric}`, range: rangeLabel },
+    fileName: `${nodeName}-${key}-${rangeLabel}`,
+  });
+
   const chartMargin = useMemo(() => ({
     top: 10,
     right: isMobile ? 4 : 16,
@@ -112,12 +162,27 @@ export function NodeCharts({ nodeUuid }: NodeChartsProps) {
   }, [nodeUuid]);
 
   // Fetch load data (tied to timeRange)
+  const loadSeq = useRef(0);
   const fetchLoadData = useCallback(() => {
     if (!nodeUuid) return;
+    // Replies for a previous node or range are dropped once a newer fetch starts
+    const seq = ++loadSeq.current;
+    const stale = () => seq !== loadSeq.current;
     setLoading(true);
     setError(null);
-    apiService.getLoadHistory(nodeUuid, timeRange)
+    // Paint the cached window first; the live fetch below replaces it
+    let live = false;
+    apiService.getCachedLoadHistory(nodeUuid, fetchHours).then((cached) => {
+      if (live || stale() || !cached?.value.records) return;
+      const records = [...cached.value.records] as LoadRecord[];
+      records.sort((a, b) => new Date(a.time).getTime() - new Date(b.time).getTime());
+      setLoadData(records);
+      setLoading(false);
+    });
+    apiService.getLoadHistory(nodeUuid, fetchHours)
       .then((loadHistory) => {
+        if (stale()) return;
+        live = true;
         if (loadHistory?.records) {
           const records = (loadHistory.records || []) as LoadRecord[];
           records.sort((a, b) => new Date(a.time).getTime() - new Date(b.time).getTime());
@@ -126,10 +191,27 @@ export function NodeCharts({ nodeUuid }: NodeChartsProps) {
         setLoading(false);
       })
       .catch((err) => {
+        if (stale()) return;
         setError(err.message || "Error");
         setLoading(false);
       });
-  }, [nodeUuid, timeRange]);
+  }, [nodeUuid, fetchHours]);
+
+  // Exports fetch the selected range afresh — the ping chart above only holds the last hour
+  const exportLoad = async (tz: ExportTimeZone) => {
+    // Live only: exporting cached records while offline would pass them off as current
+    const history = await apiService.getLiveLoadHistory(nodeUuid, fetchHours);
+    if (!history) throw new Error('No load history');
+    const records = clipToWindow(history.records, shownWindow).sort((a, b) => new Date(a.time).getTime() - new Date(b.time).getTime());
+    downloadText(`load-${fileSlug(nodeName)}-${fileSlug(rangeLabel)}-${fileTimestamp()}.csv`, toCsv(records, loadHistoryColumns(tz)), 'text/csv;charset=utf-8');
+  };
+
+  const exportPing = async (tz: ExportTimeZone) => {
+    const history = await apiService.getPingHistory(nodeUuid, Math.min(fetchHours, pingRecordPreserveTime || fetchHours));
+    if (!history) throw new Error('No ping history');
+    const records = clipToWindow(history.records, shownWindow).sort((a, b) => new Date(a.time).getTime() - new Date(b.time).getTime());
+    downloadText(`ping-${fileSlug(nodeName)}-${fileSlug(rangeLabel)}-${fileTimestamp()}.csv`, toCsv(records, pingHistoryColumns(history.tasks, tz)), 'text/csv;charset=utf-8');
+  };
 
   const fetchData = useCallback(() => {
     fetchLoadData();
@@ -143,19 +225,37 @@ export function NodeCharts({ nodeUuid }: NodeChartsProps) {
 
   const chartData: ChartDataPoint[] = useMemo(() => {
     if (!loadData?.length) return [];
-    return transformLoadRecords(loadData);
-  }, [loadData]);
+    return clipToWindow(transformLoadRecords(loadData), shownWindow);
+  }, [loadData, shownWindow]);
+
+  // Long ranges are reduced to a few points per pixel in a worker
+  const [chartWidthRef, chartWidth] = useElementWidth<HTMLDivElement>();
+  const { data: plotData, reduced } = useDownsampled(chartData, envelopeKeys, chartWidth);
+
+  // Points far outside their rolling baseline, found on the rows actually drawn
+  const anomalies = useMemo(() => anomalyRegions(plotData, LOAD_ANOMALY_METRICS), [plotData]);
+  const [showAnomalies, setShowAnomalies] = useState(true);
+
+  // Uptime resets inside the shown window, drawn as vertical markers on every chart
+  const reboots = useMemo(
+    () => (loadData ? clipToWindow(detectReboots(loadData), shownWindow) : []),
+    [loadData, shownWindow],
+  );
+
+  // Last hour of ping, one row per probe round — independent of timeRange
+  const pingRows = useMemo(() => {
+    if (!pingData?.length || !tasks.length) return [];
+    const taskKeys = tasks.map(t => String(t.id));
+    return interpolatePingNulls(processPingRecords(pingData, tasks, 1), taskKeys);
+  }, [pingData, tasks]);
 
   // Compute latency summary — independent of timeRange (uses raw ping data)
   const latencySummary = useMemo(() => {
     if (!pingData?.length || !tasks.length) return [];
-    const taskKeys = tasks.map(t => String(t.id));
-    const processed = processPingRecords(pingData, tasks, 1);
-    const interpolated = interpolatePingNulls(processed, taskKeys);
 
     return tasks.map(task => {
       const key = String(task.id);
-      const values = interpolated
+      const values = pingRows
         .map(d => d[key])
         .filter((v): v is number => v !== null && v !== undefined);
 
@@ -175,11 +275,11 @@ export function NodeCharts({ nodeUuid }: NodeChartsProps) {
         loss: lossRate,
       };
     });
-  }, [pingData, tasks]);
+  }, [pingData, tasks, pingRows]);
 
   const timeFormatter = useCallback((value: number | string, index: number) => {
-    if (!chartData.length) return "";
-    const total = chartData.length;
+    if (!plotData.length) return "";
+    const total = plotData.length;
     if (isMobile) {
       if (index === 0 || index === total - 1) {
         return new Date(value).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
@@ -190,7 +290,7 @@ export function NodeCharts({ nodeUuid }: NodeChartsProps) {
       }
     }
     return "";
-  }, [chartData.length, isMobile]);
+  }, [plotData.length, isMobile]);
 
   // Chart configs
   const cpuConfig = { cpu: { label: t('label.cpu'), color: chartColors[0] } };
@@ -219,6 +319,74 @@ export function NodeCharts({ nodeUuid }: NodeChartsProps) {
     );
   }
 
+  // Downsampled rows no longer hold every timestamp, so snap markers to the nearest one
+  const snapTime = (time: string) => (reduced ? nearestRow(plotData, new Date(time).getTime())?.time : time);
+
+  const rebootLines = reboots.map(r => (
+    <ReferenceLine
+      key={r.time}
+      x={snapTime(r.time)}
+      stroke={rebootColor}
+      strokeDasharray="4 2"
+      label={{ value: '↻', position: 'insideTopLeft', fontSize: 11, fill: rebootColor }}
+    />
+  ));
+
+  // Selection being dragged out for zoom
+  const zoomArea = dragArea && (
+    <ReferenceArea x1={dragArea.start} x2={dragArea.end} fill="var(--primary)" fillOpacity={0.12} strokeOpacity={0} />
+  );
+
+  // Pinned crosshair, snapped to the nearest sample of each series
+  const pinnedRow = pinned !== null ? nearestRow(chartData, pinned) : null;
+  const pinnedPing = pinned !== null ? nearestRow(pingRows, pinned) : null;
+  const pinLine = pinnedRow && (
+    <ReferenceLine x={snapTime(pinnedRow.time)} stroke="var(--primary)" strokeWidth={1.5} />
+  );
+
+  // Shaded spans where any of `keys` was flagged as anomalous
+  const anomalyAreas = (keys: string[]) => showAnomalies && regionsFor(anomalies, keys).map(r => (
+    <ReferenceArea key={r.start} x1={r.start} x2={r.end} fill={anomalyColor} fillOpacity={0.12} strokeOpacity={0} />
+  ));
+
+  // Shaded min–max band behind a series' average line
+  const envelope = (key: keyof ChartDataPoint & string, color: string) => reduced && (
+    <Area
+      dataKey={rangeKey(key)}
+      stroke="none"
+      fill={color}
+      fillOpacity={0.18}
+      isAnimationActive={false}
+      activeDot={false}
+      tooltipType="none"
+      legendType="none"
+    />
+  );
+  const anomalyLabels: Record<string, string> = {
+    cpu: t('label.cpu'),
+    ram: t('label.ram'),
+    load: t('label.load'),
+    connections: t('label.tcp'),
+    network_in: t('label.in'),
+    network_out: t('label.out'),
+  };
+  const fmt = (value: unknown, digits: number, unit = '') =>
+    typeof value === 'number' ? `${value.toFixed(digits)}${unit}` : null;
+  const pinnedValues = [
+    { label: t('label.cpu'), value: fmt(pinnedRow?.cpu, 1, '%'), color: chartColors[0] },
+    { label: t('label.load'), value: fmt(pinnedRow?.load, 2), color: chartColors[1] },
+    { label: t('label.ram'), value: fmt(pinnedRow?.ram, 1, '%'), color: chartColors[2] },
+    { label: t('label.disk'), value: fmt(pinnedRow?.disk, 1, '%'), color: chartColors[3] },
+    { label: t('label.tcp'), value: fmt(pinnedRow?.connections, 0), color: chartColors[4] },
+    { label: t('label.in'), value: fmt(pinnedRow?.network_in, 1, ' KB/s'), color: chartColors[6] },
+    { label: t('label.out'), value: fmt(pinnedRow?.network_out, 1, ' KB/s'), color: chartColors[7] },
+    ...tasks.map((task, idx) => ({
+      label: task.name,
+      value: fmt(pinnedPing?.[String(task.id)], 0, ' ms'),
+      color: chartColors[idx % chartColors.length],
+    })),
+  ];
+
   // Shared XAxis/YAxis props factory
   const xAxisProps = {
     dataKey: "time",
@@ -323,11 +491,26 @@ export function NodeCharts({ nodeUuid }: NodeChartsProps) {
       )}
 
       {/* Time range selector panel */}
-      <div className="rounded-lg border border-border/50 bg-card/80 backdrop-blur-xl overflow-hidden">
+      <div className="rounded-lg border border-border/50 bg-card/80 backdrop-blur-xl">
         <div className="flex items-center justify-between px-4 py-3">
           <div className="flex items-center gap-2">
             <Clock className="h-3.5 w-3.5 text-primary" />
             <span className="text-xs font-display font-bold text-muted-foreground uppercase tracking-wider">{t('chart.timeRange')}</span>
+            {reboots.length > 0 && (
+              <span
+                className="text-xxs font-mono font-bold px-1.5 py-0.5 rounded-sm border text-yellow-500 bg-yellow-500/10 border-yellow-500/20 cursor-default"
+                title={reboots.map(r => new Date(r.bootAt).toLocaleString()).join('\n')}
+              >
+                ↻ {t('reboot.inRange', { count: reboots.length })}
+              </span>
+            )}
+            <AnomalyBadge
+              regions={anomalies}
+              labels={anomalyLabels}
+              shown={showAnomalies}
+              onToggle={() => setShowAnomalies(v => !v)}
+            />
+            <ZoomControls zoom={zoom} depth={depth} onUndo={undo} onReset={reset} hint={t('chart.zoomPinHint')} />
           </div>
           <div className="flex items-center gap-1">
             {timeRanges.map(tr => (
@@ -335,7 +518,7 @@ export function NodeCharts({ nodeUuid }: NodeChartsProps) {
                 key={tr.value}
                 onClick={() => setTimeRange(tr.value)}
                 className={`px-2.5 py-1 text-xs font-mono rounded transition-all duration-200 cursor-pointer ${
-                  timeRange === tr.value
+                  !custom && timeRange === tr.value
                     ? 'bg-primary/15 text-primary border border-primary/30'
                     : 'text-muted-foreground hover:text-foreground hover:bg-muted/30'
                 }`}
@@ -343,12 +526,30 @@ export function NodeCharts({ nodeUuid }: NodeChartsProps) {
                 {tr.label}
               </button>
             ))}
+            <CustomRangePicker
+              value={custom}
+              maxHours={maxHours}
+              onApply={applyCustom}
+              buttonClassName={`px-2.5 py-1 text-xs font-mono rounded transition-all duration-200 cursor-pointer ${
+                custom
+                  ? 'bg-primary/15 text-primary border border-primary/30'
+                  : 'text-muted-foreground hover:text-foreground hover:bg-muted/30'
+              }`}
+            />
             <div className="w-px h-5 bg-border/30 mx-1" />
             <button onClick={fetchData} className="px-2 py-1 text-xs font-mono rounded text-muted-foreground hover:bg-primary/15 hover:text-primary transition-colors cursor-pointer">
               ↻
             </button>
+            <ExportMenu
+              className="ml-1"
+              actions={[
+                { label: t('export.loadCsv'), onSelect: exportLoad },
+                { label: t('export.pingCsv'), onSelect: exportPing },
+              ]}
+            />
           </div>
         </div>
+        <PinnedCursor time={pinned} values={pinnedValues} onClear={clearPin} />
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 w-full">
@@ -358,23 +559,29 @@ export function NodeCharts({ nodeUuid }: NodeChartsProps) {
             <CardTitle className="flex items-center gap-2 text-sm font-semibold">
               <Cpu className="h-4 w-4 text-primary" />
               {t('chart.cpuUsage')}
+              <ChartImageMenu className="ml-auto" {...imageProps(t('chart.cpuUsage'), 'cpu')} />
             </CardTitle>
           </CardHeader>
           <CardContent className="px-4 pb-3">
-            <ChartContainer config={cpuConfig} className={chartContainerClass}>
-              <LineChart data={chartData} margin={chartMargin}>
+            <ChartContainer ref={chartWidthRef} config={cpuConfig} className={`${chartContainerClass} select-none`}>
+              <ComposedChart data={plotData} margin={chartMargin} {...chartProps} {...syncProps}>
                 <CartesianGrid vertical={false} stroke={gridStrokeColor} strokeOpacity={0.3} />
                 <XAxis {...xAxisProps} />
                 <YAxis {...yAxisPercentProps} />
                 <ChartTooltip
-                  cursor={false}
+                  cursor={crosshairCursor}
                   formatter={(v: number | string) => `${typeof v === 'number' ? v.toFixed(2) : v}%`}
                   content={<ChartTooltipContent labelFormatter={labelFormatter} indicator="dot" />}
                 />
                 <ChartLegend content={<ChartLegendContent />} />
+                {envelope('cpu', chartColors[0])}
                 <Line dataKey="cpu" name={t('label.cpu')} stroke={chartColors[0]} dot={false} isAnimationActive={false} strokeWidth={2} type="linear" />
                 <ReferenceLine y={50} stroke="oklch(0.5 0 0 / 30%)" strokeDasharray="3 3" />
-              </LineChart>
+                {anomalyAreas(['cpu'])}
+                {rebootLines}
+                {zoomArea}
+                {pinLine}
+              </ComposedChart>
             </ChartContainer>
           </CardContent>
         </Card>
@@ -385,22 +592,28 @@ export function NodeCharts({ nodeUuid }: NodeChartsProps) {
             <CardTitle className="flex items-center gap-2 text-sm font-semibold">
               <Activity className="h-4 w-4 text-primary" />
               {t('chart.systemLoad')}
+              <ChartImageMenu className="ml-auto" {...imageProps(t('chart.systemLoad'), 'load')} />
             </CardTitle>
           </CardHeader>
           <CardContent className="px-4 pb-3">
-            <ChartContainer config={loadConfig} className={chartContainerClass}>
-              <LineChart data={chartData} margin={chartMargin}>
+            <ChartContainer config={loadConfig} className={`${chartContainerClass} select-none`}>
+              <ComposedChart data={plotData} margin={chartMargin} {...chartProps} {...syncProps}>
                 <CartesianGrid vertical={false} stroke={gridStrokeColor} strokeOpacity={0.3} />
                 <XAxis {...xAxisProps} />
                 <YAxis {...yAxisPlainProps} />
                 <ChartTooltip
-                  cursor={false}
+                  cursor={crosshairCursor}
                   formatter={(v: number | string) => typeof v === 'number' ? v.toFixed(2) : v}
                   content={<ChartTooltipContent labelFormatter={labelFormatter} indicator="dot" />}
                 />
                 <ChartLegend content={<ChartLegendContent />} />
+                {envelope('load', chartColors[1])}
                 <Line dataKey="load" name={t('label.load')} stroke={chartColors[1]} dot={false} isAnimationActive={false} strokeWidth={2} type="linear" />
-              </LineChart>
+                {anomalyAreas(['load'])}
+                {rebootLines}
+                {zoomArea}
+                {pinLine}
+              </ComposedChart>
             </ChartContainer>
           </CardContent>
         </Card>
@@ -411,24 +624,31 @@ export function NodeCharts({ nodeUuid }: NodeChartsProps) {
             <CardTitle className="flex items-center gap-2 text-sm font-semibold">
               <MemoryStick className="h-4 w-4 text-primary" />
               {t('chart.memory')}
+              <ChartImageMenu className="ml-auto" {...imageProps(t('chart.memory'), 'ram')} />
             </CardTitle>
           </CardHeader>
           <CardContent className="px-4 pb-3">
-            <ChartContainer config={ramConfig} className={chartContainerClass}>
-              <LineChart data={chartData} margin={chartMargin}>
+            <ChartContainer config={ramConfig} className={`${chartContainerClass} select-none`}>
+              <ComposedChart data={plotData} margin={chartMargin} {...chartProps} {...syncProps}>
                 <CartesianGrid vertical={false} stroke={gridStrokeColor} strokeOpacity={0.3} />
                 <XAxis {...xAxisProps} />
                 <YAxis {...yAxisPercentProps} />
                 <ChartTooltip
-                  cursor={false}
+                  cursor={crosshairCursor}
                   formatter={(v: number | string) => `${typeof v === 'number' ? v.toFixed(2) : v}%`}
                   content={<ChartTooltipContent labelFormatter={labelFormatter} indicator="dot" />}
                 />
                 <ChartLegend content={<ChartLegendContent />} />
+                {envelope('ram', chartColors[2])}
                 <Line dataKey="ram" name={t('label.ram')} stroke={chartColors[2]} dot={false} isAnimationActive={false} strokeWidth={2} type="linear" />
+                {envelope('swap', chartColors[8])}
                 <Line dataKey="swap" name={t('label.swap')} stroke={chartColors[8]} dot={false} isAnimationActive={false} strokeWidth={2} type="linear" />
                 <ReferenceLine y={50} stroke="oklch(0.5 0 0 / 30%)" strokeDasharray="3 3" />
-              </LineChart>
+                {anomalyAreas(['ram'])}
+                {rebootLines}
+                {zoomArea}
+                {pinLine}
+              </ComposedChart>
             </ChartContainer>
           </CardContent>
         </Card>
@@ -439,23 +659,28 @@ export function NodeCharts({ nodeUuid }: NodeChartsProps) {
             <CardTitle className="flex items-center gap-2 text-sm font-semibold">
               <HardDrive className="h-4 w-4 text-primary" />
               {t('chart.diskUsage')}
+              <ChartImageMenu className="ml-auto" {...imageProps(t('chart.diskUsage'), 'disk')} />
             </CardTitle>
           </CardHeader>
           <CardContent className="px-4 pb-3">
-            <ChartContainer config={diskConfig} className={chartContainerClass}>
-              <LineChart data={chartData} margin={chartMargin}>
+            <ChartContainer config={diskConfig} className={`${chartContainerClass} select-none`}>
+              <ComposedChart data={plotData} margin={chartMargin} {...chartProps} {...syncProps}>
                 <CartesianGrid vertical={false} stroke={gridStrokeColor} strokeOpacity={0.3} />
                 <XAxis {...xAxisProps} />
                 <YAxis {...yAxisPercentProps} />
                 <ChartTooltip
-                  cursor={false}
+                  cursor={crosshairCursor}
                   formatter={(v: number | string) => `${typeof v === 'number' ? v.toFixed(2) : v}%`}
                   content={<ChartTooltipContent labelFormatter={labelFormatter} indicator="dot" />}
                 />
                 <ChartLegend content={<ChartLegendContent />} />
+                {envelope('disk', chartColors[3])}
                 <Line dataKey="disk" name={t('label.disk')} stroke={chartColors[3]} dot={false} isAnimationActive={false} strokeWidth={2} type="linear" />
                 <ReferenceLine y={50} stroke="oklch(0.5 0 0 / 30%)" strokeDasharray="3 3" />
-              </LineChart>
+                {rebootLines}
+                {zoomArea}
+                {pinLine}
+              </ComposedChart>
             </ChartContainer>
           </CardContent>
         </Card>
@@ -467,22 +692,29 @@ export function NodeCharts({ nodeUuid }: NodeChartsProps) {
             <CardTitle className="flex items-center gap-2 text-sm font-semibold">
               <Unplug className="h-4 w-4 text-primary" />
               {t('chart.connections')}
+              <ChartImageMenu className="ml-auto" {...imageProps(t('chart.connections'), 'connections')} />
             </CardTitle>
           </CardHeader>
           <CardContent className="px-4 pb-3">
-            <ChartContainer config={connConfig} className={chartContainerClass}>
-              <LineChart data={chartData} margin={chartMargin}>
+            <ChartContainer config={connConfig} className={`${chartContainerClass} select-none`}>
+              <ComposedChart data={plotData} margin={chartMargin} {...chartProps} {...syncProps}>
                 <CartesianGrid vertical={false} stroke={gridStrokeColor} strokeOpacity={0.3} />
                 <XAxis {...xAxisProps} />
                 <YAxis {...yAxisPlainProps} />
                 <ChartTooltip
-                  cursor={false}
+                  cursor={crosshairCursor}
                   content={<ChartTooltipContent labelFormatter={labelFormatter} indicator="dot" />}
                 />
                 <ChartLegend content={<ChartLegendContent />} />
+                {envelope('connections', chartColors[4])}
                 <Line dataKey="connections" name={t('label.tcp')} stroke={chartColors[4]} dot={false} isAnimationActive={false} strokeWidth={2} type="linear" />
+                {envelope('connections_udp', chartColors[5])}
                 <Line dataKey="connections_udp" name={t('label.udp')} stroke={chartColors[5]} dot={false} isAnimationActive={false} strokeWidth={2} type="linear" />
-              </LineChart>
+                {anomalyAreas(['connections'])}
+                {rebootLines}
+                {zoomArea}
+                {pinLine}
+              </ComposedChart>
             </ChartContainer>
           </CardContent>
         </Card>
@@ -496,18 +728,21 @@ export function NodeCharts({ nodeUuid }: NodeChartsProps) {
                 <ArrowUpDown className="h-4 w-4 text-primary" />
                 {t('chart.networkTraffic')}
               </div>
-              <Link
-                to={`/node/${nodeUuid}/network`}
-                className="flex items-center gap-1 text-xxs font-mono font-normal text-primary hover:underline"
-              >
-                {t('label.viewNetworkTraffic')}
-                <ExternalLink className="h-2.5 w-2.5" />
-              </Link>
+              <div className="flex items-center gap-2">
+                <Link
+                  to={`/node/${nodeUuid}/network`}
+                  className="flex items-center gap-1 text-xxs font-mono font-normal text-primary hover:underline"
+                >
+                  {t('label.viewNetworkTraffic')}
+                  <ExternalLink className="h-2.5 w-2.5" />
+                </Link>
+                <ChartImageMenu {...imageProps(t('chart.networkTraffic'), 'network')} />
+              </div>
             </CardTitle>
           </CardHeader>
           <CardContent className="px-4 pb-3">
-            <ChartContainer config={netConfig} className={chartContainerClass}>
-              <AreaChart data={chartData} margin={chartMargin}>
+            <ChartContainer config={netConfig} className={`${chartContainerClass} select-none`}>
+              <AreaChart data={plotData} margin={chartMargin} {...chartProps} {...syncProps}>
                 <CartesianGrid vertical={false} stroke={gridStrokeColor} strokeOpacity={0.3} />
                 <XAxis {...xAxisProps} />
                 <YAxis
@@ -520,13 +755,19 @@ export function NodeCharts({ nodeUuid }: NodeChartsProps) {
                   width={isMobile ? 50 : 60}
                 />
                 <ChartTooltip
-                  cursor={false}
+                  cursor={crosshairCursor}
                   formatter={(v: number | string) => `${typeof v === 'number' ? v.toFixed(1) : v} KB/s`}
                   content={<ChartTooltipContent labelFormatter={labelFormatter} indicator="dot" />}
                 />
                 <ChartLegend content={<ChartLegendContent />} />
+                {envelope('network_in', chartColors[6])}
+                {envelope('network_out', chartColors[7])}
                 <Area dataKey="network_in" name={t('label.in')} stroke={chartColors[6]} fill={chartColors[6]} fillOpacity={0.15} type="linear" />
                 <Area dataKey="network_out" name={t('label.out')} stroke={chartColors[7]} fill={chartColors[7]} fillOpacity={0.15} type="linear" />
+                {anomalyAreas(['network_in', 'network_out'])}
+                {rebootLines}
+                {zoomArea}
+                {pinLine}
               </AreaChart>
             </ChartContainer>
           </CardContent>
@@ -4,8 +4,19 @@ import { useWindowVirtualizer } from '@tanstack/react-virtual';
 import { NodeCard } from './NodeCard';
 import { NodeTable } from './NodeTable';
 import { HudSpinner } from './HudSpinner';
-import { RefreshCw, Search, X, ChevronDown } from 'lucide-react';
+import { NodeSearchInput } from './NodeSearchInput';
+import { ColumnManager } from './ColumnManager';
+import { ExportMenu } from './ExportMenu';
+import { RefreshCw, ChevronDown } from 'lucide-react';
 import type { NodeWithStatus } from '@/services/api';
+import { useQueryParams } from '@/hooks/useQueryParams';
+import { useTableColumns } from '@/hooks/useTableColumns';
+import { useAppConfig } from '@/hooks/useAppConfig';
+import { liveSnapshot, useLiveNodes } from '@/hooks/useNodeStatus';
+import { parseNodeQuery, matchesNodeQuery } from '@/lib/node-query';
+import { GROUP_BY_KEYS, isGroupByKey } from '@/lib/table-groups';
+import { nodeExportColumns } from '@/lib/node-export';
+import { toCsv, toRecords, downloadText, fileTimestamp, type ExportTimeZone } from '@/lib/export';
 import { cn } from '@/lib/utils';
 
 interface NodeListProps {
@@ -147,11 +158,17 @@ function VirtualGrid({ nodes, onViewCharts }: { nodes: NodeWithStatus[]; onViewC
 
 export function NodeList({ nodes = [], loading = false, onRefresh, onViewCharts, defaultView = 'grid' }: NodeListProps) {
   const { t } = useTranslation();
-  const [groupFilter, setGroupFilter] = useState<string>('all');
-  const [tagFilter, setTagFilter] = useState<string>('all');
-  const [statusFilter, setStatusFilter] = useState<string>('all');
-  const [searchQuery, setSearchQuery] = useState('');
+  const [params, updateParams] = useQueryParams();
+  const groupFilter = params.get('group') || 'all';
+  const tagFilter = params.get('tag') || 'all';
+  const statusFilter = params.get('status') || 'all';
+  const searchQuery = params.get('q') ?? '';
+  const setFilter = (key: string) => (value: string) => updateParams({ [key]: value === 'all' ? null : value });
+  // Typing replaces the history entry so only the first keystroke (and clearing) adds one
+  const setSearchQuery = (value: string, replace = false) => updateParams({ q: value }, { replace });
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const { columns: tableColumns } = useTableColumns();
+  const { isLoggedIn } = useAppConfig();
 
   const handleRefresh = useCallback(() => {
     if (!onRefresh || isRefreshing) return;
@@ -175,8 +192,14 @@ export function NodeList({ nodes = [], loading = false, onRefresh, onViewCharts,
     return Array.from(tagSet).sort();
   }, [nodes]);
 
+  const query = useMemo(() => parseNodeQuery(searchQuery), [searchQuery]);
+
+  // Metric terms need live stats; the list itself only changes on membership/status
+  const liveNodes = useLiveNodes(nodes, !query.empty);
+
   const filteredNodes = useMemo(() => {
-    return nodes.filter(node => {
+    const now = Date.now();
+    return nodes.filter((node, i) => {
       if (groupFilter !== 'all' && node.group !== groupFilter) return false;
       if (tagFilter !== 'all') {
         if (!node.tags) return false;
@@ -184,20 +207,23 @@ export function NodeList({ nodes = [], loading = false, onRefresh, onViewCharts,
         if (!nodeTags.includes(tagFilter)) return false;
       }
       if (statusFilter !== 'all' && node.status !== statusFilter) return false;
-      if (searchQuery) {
-        const q = searchQuery.toLowerCase();
-        const match = node.name.toLowerCase().includes(q)
-          || node.region?.toLowerCase().includes(q)
-          || node.group?.toLowerCase().includes(q)
-          || node.tags?.toLowerCase().includes(q);
-        if (!match) return false;
-      }
-      return true;
+      return matchesNodeQuery(query, liveNodes[i], now);
     });
-  }, [nodes, groupFilter, tagFilter, statusFilter, searchQuery]);
+  }, [nodes, liveNodes, groupFilter, tagFilter, statusFilter, query]);
 
   const sortedNodes = [...filteredNodes].sort((a, b) => a.weight - b.weight);
 
+  // Filtered rows with the fields of the currently visible table columns
+  const exportTable = (format: 'csv' | 'json', tz: ExportTimeZone) => {
+    const visible = tableColumns.order.filter(id => !tableColumns.hidden.includes(id));
+    const columns = nodeExportColumns(visible, tz, isLoggedIn);
+    const name = `nodes-${fileTimestamp()}`;
+    // The list only carries stats as of the last status change; export the live values
+    const rows = sortedNodes.map(liveSnapshot);
+    if (format === 'csv') downloadText(`${name}.csv`, toCsv(rows, columns), 'text/csv;charset=utf-8');
+    else downloadText(`${name}.json`, JSON.stringify(toRecords(rows, columns), null, 2), 'application/json');
+  };
+
   const onlineCount = nodes.filter(n => n.status === 'online').length;
   const hasFilters = groupFilter !== 'all' || tagFilter !== 'all' || statusFilter !== 'all' || searchQuery !== '';
 
@@ -209,6 +235,12 @@ export function NodeList({ nodes = [], loading = false, onRefresh, onViewCharts,
     { value: 'all', label: t('filter.all') },
     ...allTags.map(t => ({ value: t, label: t })),
   ];
+  const groupByParam = params.get('groupBy');
+  const groupBy = isGroupByKey(groupByParam) ? groupByParam : 'all';
+  const groupByOptions = [
+    { value: 'all', label: t('filter.none') },
+    ...GROUP_BY_KEYS.map(key => ({ value: key, label: t(`filter.${key}`) })),
+  ];
   const statusOptions = [
     { value: 'all', label: t('filter.all') },
     { value: 'online', label: t('status.online') },
@@ -319,7 +351,7 @@ export function NodeList({ nodes = [], loading = false, onRefresh, onViewCharts,
           <div className="flex items-center gap-1.5">
             {hasFilters && (
               <button
-                onClick={() => { setGroupFilter('all'); setTagFilter('all'); setStatusFilter('all'); setSearchQuery(''); }}
+                onClick={() => updateParams({ group: null, tag: null, status: null, q: null })}
                 className="text-xs font-mono text-destructive hover:text-destructive/80 transition-colors px-1.5 py-0.5 rounded hover:bg-destructive/10 cursor-pointer"
               >
                 {t('action.clear')}
@@ -347,31 +379,37 @@ export function NodeList({ nodes = [], loading = false, onRefresh, onViewCharts,
         {/* Filter row */}
         <div className="flex items-center gap-2 px-3 py-2 flex-wrap overflow-visible relative z-50">
           {/* Search input */}
-          <div className="relative flex-1 min-w-[160px] max-w-[280px]">
-            <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-3 w-3 text-muted-foreground/50" />
-            <input
-              type="text"
-              value={searchQuery}
-              onChange={e => setSearchQuery(e.target.value)}
-              placeholder={t('placeholder.searchNodes')}
-              className="w-full h-7 pl-7 pr-7 text-xs font-mono bg-muted/20 border border-border/30 rounded placeholder:text-muted-foreground/30 focus:outline-none focus:border-primary/40 focus:ring-1 focus:ring-primary/20 transition-colors"
-            />
-            {searchQuery && (
-              <button
-                onClick={() => setSearchQuery('')}
-                className="absolute right-1.5 top-1/2 -translate-y-1/2 p-0.5 rounded hover:bg-muted/50 cursor-pointer"
-              >
-                <X className="h-3 w-3 text-muted-foreground/50" />
-              </button>
-            )}
-          </div>
+          <NodeSearchInput
+            value={searchQuery}
+            onChange={value => setSearchQuery(value, searchQuery !== '' && value !== '')}
+            nodes={nodes}
+            placeholder={t('placeholder.searchNodes')}
+            className="flex-1 min-w-[160px] max-w-[360px]"
+            inputClassName="w-full h-7 pl-7 pr-7 text-xs font-mono bg-muted/20 border border-border/30 rounded placeholder:text-muted-foreground/30 focus:outline-none focus:border-primary/40 focus:ring-1 focus:ring-primary/20 transition-colors"
+          />
 
           <span className="text-border/60 hidden sm:inline">|</span>
 
           {/* Filter dropdowns */}
-          <FilterDropdown label={t('filter.group')} value={groupFilter} options={groupOptions} onChange={setGroupFilter} />
-          <FilterDropdown label={t('filter.tag')} value={tagFilter} options={tagOptions} onChange={setTagFilter} />
-          <FilterDropdown label={t('filter.status')} value={statusFilter} options={statusOptions} onChange={setStatusFilter} />
+          <FilterDropdown label={t('filter.group')} value={groupFilter} options={groupOptions} onChange={setFilter('group')} />
+          <FilterDropdown label={t('filter.tag')} value={tagFilter} options={tagOptions} onChange={setFilter('tag')} />
+          <FilterDropdown label={t('filter.status')} value={statusFilter} options={statusOptions} onChange={setFilter('status')} />
+
+          {defaultView === 'table' && (
+            <>
+              <span className="text-border/60 hidden sm:inline">|</span>
+              <FilterDropdown label={t('filter.groupBy')} value={groupBy} options={groupByOptions} onChange={value => updateParams({ groupBy: value === 'all' ? null : value })} />
+              <ExportMenu
+                className="ml-auto"
+                actions={[
+                  { label: t('export.tableCsv'), onSelect: tz => exportTable('csv', tz) },
+                  { label: t('export.tableJson'), onSelect: tz => exportTable('json', tz) },
+                ]}
+              />
+              {/* Column manager — the mobile table layout has no columns */}
+              <ColumnManager className="hidden lg:block" />
+            </>
+          )}
         </div>
       </div>
 
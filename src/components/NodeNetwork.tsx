@@ -4,8 +4,25 @@ import { useTranslation } from 'react-i18next';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { ArrowLeft, Network, Signal, ArrowUpDown, Unplug, ChevronDown, ChevronRight, Info } from 'lucide-react';
 import { HudSpinner } from './HudSpinner';
+import { ChartImageMenu } from './ChartImageMenu';
+import { PinnedCursor } from './PinnedCursor';
+import { AnomalyBadge } from './AnomalyBadge';
+import { LatencyDistribution } from './LatencyDistribution';
+import { CustomRangePicker, ZoomControls } from './TimeRangeControls';
+import { PacketLoss } from './PacketLoss';
 import { apiService } from '../services/api';
 import { useAppConfig } from '@/hooks/useAppConfig';
+import { useQueryParams } from '@/hooks/useQueryParams';
+import { useChartSync } from '@/hooks/useChartSync';
+import { useChartZoom } from '@/hooks/useChartZoom';
+import { useNodeStatus } from '@/hooks/useNodeStatus';
+import { useDownsampled, useElementWidth } from '@/hooks/useDownsampled';
+import { parseRangeParam } from '@/lib/url-state';
+import { parseWindowParams, windowFetchHours, clipToWindow, formatWindow, type TimeWindow } from '@/lib/time-window';
+import { nearestRow } from '@/lib/chart-sync';
+import { rangeKey } from '@/lib/downsample';
+import { anomalyRegions, regionsFor, LOAD_ANOMALY_METRICS, pingAnomalyMetrics } from '@/lib/anomaly';
+import { taskSamples, percentileBands, bandKey, bandRangeKey, loadBandPercentiles, saveBandPercentiles } from '@/lib/latency-distribution';
 import { formatSpeed, formatBytes } from '@/lib/utils';
 import type { NodeWithStatus } from '@/services/api';
 import {
@@ -16,19 +33,22 @@ import {
   ChartLegendContent,
 } from './ui/chart';
 import {
-  LineChart,
+  ComposedChart,
   Line,
   XAxis,
   YAxis,
   CartesianGrid,
   AreaChart,
   Area,
+  ReferenceLine,
+  ReferenceArea,
 } from 'recharts';
 import {
   chartColors,
   chartCardClass,
   chartContainerClass,
   gridStrokeColor,
+  crosshairCursor,
   labelFormatter,
   processPingRecords,
   interpolatePingNulls,
@@ -53,6 +73,12 @@ interface LoadRecord {
   net_out: number;
 }
 
+/** Load-history series that get a min–max envelope on long ranges */
+const envelopeKeys = ['connections', 'connections_udp', 'network_in', 'network_out'] as const;
+type EnvelopeKey = typeof envelopeKeys[number];
+
+const anomalyColor = "oklch(0.7 0.19 45)";
+
 const useIsMobile = () => {
   const [isMobile, setIsMobile] = useState(false);
   useEffect(() => {
@@ -76,22 +102,25 @@ export function NodeNetwork({ nodeUuid: propUuid, nodeName: propName, node: prop
   const navigate = useNavigate();
   const nodeUuid = propUuid || params.uuid || '';
   const [nodeName, setNodeName] = useState(propName || '');
-  const { recordPreserveTime, isLoggedIn } = useAppConfig();
+  const { recordPreserveTime, pingRecordPreserveTime, isLoggedIn } = useAppConfig();
 
   const [loadData, setLoadData] = useState<LoadRecord[] | null>(null);
   const [pingData, setPingData] = useState<PingRecord[] | null>(null);
   const [tasks, setTasks] = useState<TaskInfo[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [timeRange, setTimeRange] = useState(1);
+  const [searchParams, updateParams] = useQueryParams();
   const [hiddenLines, setHiddenLines] = useState<Record<string, boolean>>({});
   const [smooth, setSmooth] = useState(false);
   const [latencyCollapsed, setLatencyCollapsed] = useState(false);
   const [expandedTasks, setExpandedTasks] = useState<Set<number>>(new Set());
+  const [distTask, setDistTask] = useState<number | null>(null);
+  const [bandPercentiles, setBandPercentiles] = useState<number[]>(loadBandPercentiles);
+  useEffect(() => { saveBandPercentiles(bandPercentiles); }, [bandPercentiles]);
   const isMobile = useIsMobile();
 
   // Accept node data from parent context if available
-  const stats = propNode?.stats;
+  const stats = useNodeStatus(nodeUuid)?.stats ?? propNode?.stats;
 
   const timeRanges = useMemo(() => {
     const candidates = [
@@ -105,6 +134,34 @@ export function NodeNetwork({ nodeUuid: propUuid, nodeName: propName, node: prop
     return candidates.filter(r => r.value <= limit);
   }, [recordPreserveTime]);
 
+  const timeRange = parseRangeParam(searchParams.get('range'), timeRanges.map(r => r.value), 1);
+
+  // An absolute from/to window overrides the preset range; bounded by ping retention so both series cover it
+  const fromParam = searchParams.get('from');
+  const toParam = searchParams.get('to');
+  const maxHours = Math.min(
+    recordPreserveTime > 0 ? recordPreserveTime : 720,
+    pingRecordPreserveTime > 0 ? pingRecordPreserveTime : 720,
+  );
+  const custom = useMemo(() => parseWindowParams(fromParam, toParam, maxHours), [fromParam, toParam, maxHours]);
+  const fetchHours = custom ? windowFetchHours(custom) : timeRange;
+  const applyCustom = (window: TimeWindow) => updateParams({ range: null, from: String(window.from), to: String(window.to) });
+
+  const windowKey = `${timeRange}:${fromParam}:${toParam}`;
+  const { syncProps, pinned, togglePin, clearPin } = useChartSync(windowKey);
+  const { zoom, depth, undo, reset, chartProps, dragArea } = useChartZoom(windowKey, togglePin);
+  const shownWindow = zoom ?? custom;
+  // Ping history defaults to the last hour; an absolute or zoom window fetches back to its start
+  const pingHours = shownWindow ? Math.min(windowFetchHours(shownWindow), maxHours) : 1;
+  const rangeLabel = shownWindow
+    ? formatWindow(shownWindow)
+    : timeRanges.find(r => r.value === timeRange)?.label ?? `${timeRange}H`;
+  const imageProps = (metric: string, key: string) => ({
+    caption: { title: `${nodeName || nodeUuid} — ${metric}`, range: rangeLabel },
+    fileName: `${nodeName || nodeUuid}-${key}-${rangeLabel}`,
+  });
+  const setTimeRange = (hours: number) => updateParams({ range: hours === 1 ? null : String(hours), from: null, to: null });
+
   useEffect(() => {
     if (!nodeName && nodeUuid) {
       apiService.getNodes().then(nodes => {
@@ -135,7 +192,7 @@ export function NodeNetwork({ nodeUuid: propUuid, nodeName: propName, node: prop
   // Fetch ping data independently (not tied to timeRange)
   const fetchPingData = useCallback(() => {
     if (!nodeUuid) return;
-    apiService.getPingHistory(nodeUuid, 1)
+    apiService.getPingHistory(nodeUuid, pingHours)
       .then((pingHistory) => {
         if (pingHistory?.records) {
           const records = (pingHistory.records || []) as PingRecord[];
@@ -145,14 +202,14 @@ export function NodeNetwork({ nodeUuid: propUuid, nodeName: propName, node: prop
         }
       })
       .catch(() => {});
-  }, [nodeUuid]);
+  }, [nodeUuid, pingHours]);
 
   // Fetch load/chart data (tied to timeRange)
   const fetchLoadData = useCallback(() => {
     if (!nodeUuid) return;
     setLoading(true);
     setError(null);
-    apiService.getLoadHistory(nodeUuid, timeRange)
+    apiService.getLoadHistory(nodeUuid, fetchHours)
       .then((loadHistory) => {
         if (loadHistory?.records) {
           const records = (loadHistory.records || []) as LoadRecord[];
@@ -165,20 +222,20 @@ export function NodeNetwork({ nodeUuid: propUuid, nodeName: propName, node: prop
         setError(err.message || "Error");
         setLoading(false);
       });
-  }, [nodeUuid, timeRange]);
+  }, [nodeUuid, fetchHours]);
 
   const fetchData = useCallback(() => {
     fetchLoadData();
     fetchPingData();
   }, [fetchLoadData, fetchPingData]);
 
-  // Ping data: fetch once on mount
+  // Ping data: fetch on mount and when a window needs more than the last hour
   useEffect(() => { fetchPingData(); }, [fetchPingData]);
   // Load data: fetch when timeRange changes
   useEffect(() => { fetchLoadData(); }, [fetchLoadData]);
 
   const chartData = useMemo(() => {
-    const data = loadData || [];
+    const data = clipToWindow(loadData || [], shownWindow);
     if (!data.length) return [];
     return data.map((r) => ({
       time: new Date(r.time).toISOString(),
@@ -187,19 +244,40 @@ export function NodeNetwork({ nodeUuid: propUuid, nodeName: propName, node: prop
       network_in: r.net_in / 1024,
       network_out: r.net_out / 1024,
     }));
-  }, [loadData]);
+  }, [loadData, shownWindow]);
+
+  const [chartWidthRef, chartWidth] = useElementWidth<HTMLDivElement>();
+  const { data: plotData, reduced } = useDownsampled(chartData, [...envelopeKeys], chartWidth);
+
+  const shownPingData = useMemo(() => clipToWindow(pingData || [], shownWindow), [pingData, shownWindow]);
 
   const pingChartData = useMemo(() => {
-    const data = pingData || [];
+    const data = shownPingData;
     if (!data.length) return [];
     const taskKeys = tasks.map(t => String(t.id));
-    let processed = processPingRecords(data, tasks, timeRange);
+    let processed = processPingRecords(data, tasks, pingHours);
     processed = interpolatePingNulls(processed, taskKeys);
     if (smooth) {
       processed = ewmaSmooth(processed, taskKeys, 0.3);
     }
     return processed;
-  }, [pingData, tasks, timeRange, smooth]);
+  }, [shownPingData, tasks, pingHours, smooth]);
+
+  // Rolling percentile bands for the task picked in the distribution panel
+  const bandTask = tasks.find(task => task.id === distTask) ?? tasks[0];
+  const bandTaskColor = chartColors[Math.max(0, tasks.indexOf(bandTask)) % chartColors.length];
+  const pingPlotData = useMemo(() => {
+    if (!bandTask || bandPercentiles.length === 0 || pingChartData.length < 2) return pingChartData;
+    const samples = taskSamples(shownPingData, bandTask.id);
+    const span = new Date(pingChartData[pingChartData.length - 1].time).getTime() - new Date(pingChartData[0].time).getTime();
+    const bands = percentileBands(pingChartData, samples, bandPercentiles, Math.max(span / 60, 60_000));
+    return pingChartData.map((row, i) => ({ ...row, ...bands[i] }));
+  }, [pingChartData, shownPingData, bandTask, bandPercentiles]);
+
+  // Points far outside their rolling baseline, on the rows actually drawn
+  const anomalies = useMemo(() => anomalyRegions(plotData, LOAD_ANOMALY_METRICS), [plotData]);
+  const pingAnomalies = useMemo(() => anomalyRegions(pingChartData, pingAnomalyMetrics(tasks)), [pingChartData, tasks]);
+  const [showAnomalies, setShowAnomalies] = useState(true);
 
   // Latency summary — uses backend stats when available, falls back to local calculation
   const latencySummary = useMemo(() => {
@@ -282,8 +360,8 @@ export function NodeNetwork({ nodeUuid: propUuid, nodeName: propName, node: prop
   }, [pingData, tasks]);
 
   const timeFormatter = useCallback((value: number | string, index: number) => {
-    if (!chartData.length) return "";
-    const total = chartData.length;
+    if (!plotData.length) return "";
+    const total = plotData.length;
     if (isMobile) {
       if (index === 0 || index === total - 1) {
         return new Date(value).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
@@ -294,7 +372,7 @@ export function NodeNetwork({ nodeUuid: propUuid, nodeName: propName, node: prop
       }
     }
     return "";
-  }, [chartData.length, isMobile]);
+  }, [plotData.length, isMobile]);
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const handleLegendClick = useCallback((e: any) => {
@@ -323,6 +401,55 @@ export function NodeNetwork({ nodeUuid: propUuid, nodeName: propName, node: prop
     height: xAxisConfig.height,
   };
 
+  // Pinned crosshair, snapped to the nearest sample of each series
+  const pinnedRow = pinned !== null ? nearestRow(chartData, pinned) : null;
+  const pinnedPing = pinned !== null ? nearestRow(pingChartData, pinned) : null;
+  const pinnedPlotRow = pinned !== null ? nearestRow(plotData, pinned) : null;
+  const pinLine = pinnedPlotRow && (
+    <ReferenceLine x={pinnedPlotRow.time} stroke="var(--primary)" strokeWidth={1.5} />
+  );
+  // Selection being dragged out for zoom
+  const zoomArea = dragArea && (
+    <ReferenceArea x1={dragArea.start} x2={dragArea.end} fill="var(--primary)" fillOpacity={0.12} strokeOpacity={0} />
+  );
+
+  const anomalyAreas = (regions: typeof anomalies) => showAnomalies && regions.map(r => (
+    <ReferenceArea key={r.start} x1={r.start} x2={r.end} fill={anomalyColor} fillOpacity={0.12} strokeOpacity={0} />
+  ));
+  const anomalyLabels: Record<string, string> = {
+    connections: t('label.tcp'),
+    network_in: t('label.in'),
+    network_out: t('label.out'),
+    ...Object.fromEntries(tasks.map(task => [String(task.id), task.name])),
+  };
+
+  // Shaded min–max band behind a downsampled series
+  const envelope = (key: EnvelopeKey, color: string) => reduced && (
+    <Area
+      dataKey={rangeKey(key)}
+      stroke="none"
+      fill={color}
+      fillOpacity={0.18}
+      isAnimationActive={false}
+      activeDot={false}
+      tooltipType="none"
+      legendType="none"
+    />
+  );
+  const fmt = (value: unknown, digits: number, unit = '') =>
+    typeof value === 'number' ? `${value.toFixed(digits)}${unit}` : null;
+  const pinnedValues = [
+    { label: t('label.in'), value: fmt(pinnedRow?.network_in, 1, ' KB/s'), color: chartColors[6] },
+    { label: t('label.out'), value: fmt(pinnedRow?.network_out, 1, ' KB/s'), color: chartColors[7] },
+    { label: t('label.tcp'), value: fmt(pinnedRow?.connections, 0), color: chartColors[4] },
+    { label: t('label.udp'), value: fmt(pinnedRow?.connections_udp, 0), color: chartColors[5] },
+    ...tasks.map((task, idx) => ({
+      label: task.name,
+      value: fmt(pinnedPing?.[String(task.id)], 0, ' ms'),
+      color: chartColors[idx % chartColors.length],
+    })),
+  ];
+
   const yAxisPlainProps = {
     tickLine: false,
     axisLine: false,
@@ -354,7 +481,7 @@ export function NodeNetwork({ nodeUuid: propUuid, nodeName: propName, node: prop
   return (
     <div className="space-y-4 w-full overflow-hidden">
       {/* Header */}
-      <div className="rounded-lg border border-border/50 bg-card/80 backdrop-blur-xl overflow-hidden">
+      <div className="rounded-lg border border-border/50 bg-card/80 backdrop-blur-xl">
         <div className="flex items-center justify-between px-4 py-3">
           <div className="flex items-center gap-3">
             <button
@@ -368,6 +495,13 @@ export function NodeNetwork({ nodeUuid: propUuid, nodeName: propName, node: prop
             <Network className="h-4 w-4 text-primary" />
             <span className="text-sm font-display font-bold">{nodeName || nodeUuid}</span>
             <span className="text-xs font-display font-bold text-muted-foreground uppercase tracking-wider">{t('label.network')}</span>
+            <AnomalyBadge
+              regions={[...anomalies, ...pingAnomalies]}
+              labels={anomalyLabels}
+              shown={showAnomalies}
+              onToggle={() => setShowAnomalies(v => !v)}
+            />
+            <ZoomControls zoom={zoom} depth={depth} onUndo={undo} onReset={reset} hint={t('chart.zoomPinHint')} />
           </div>
           <div className="flex items-center gap-1">
             {timeRanges.map(tr => (
@@ -375,7 +509,7 @@ export function NodeNetwork({ nodeUuid: propUuid, nodeName: propName, node: prop
                 key={tr.value}
                 onClick={() => setTimeRange(tr.value)}
                 className={`px-2.5 py-1 text-xs font-mono rounded transition-all duration-200 cursor-pointer ${
-                  timeRange === tr.value
+                  !custom && timeRange === tr.value
                     ? 'bg-primary/15 text-primary border border-primary/30'
                     : 'text-muted-foreground hover:text-foreground hover:bg-muted/30'
                 }`}
@@ -383,12 +517,23 @@ export function NodeNetwork({ nodeUuid: propUuid, nodeName: propName, node: prop
                 {tr.label}
               </button>
             ))}
+            <CustomRangePicker
+              value={custom}
+              maxHours={maxHours}
+              onApply={applyCustom}
+              buttonClassName={`px-2.5 py-1 text-xs font-mono rounded transition-all duration-200 cursor-pointer ${
+                custom
+                  ? 'bg-primary/15 text-primary border border-primary/30'
+                  : 'text-muted-foreground hover:text-foreground hover:bg-muted/30'
+              }`}
+            />
             <div className="w-px h-5 bg-border/30 mx-1" />
             <button onClick={fetchData} className="px-2 py-1 text-xs font-mono rounded text-muted-foreground hover:bg-primary/15 hover:text-primary transition-colors cursor-pointer">
               ↻
             </button>
           </div>
         </div>
+        <PinnedCursor time={pinned} values={pinnedValues} onClear={clearPin} />
       </div>
 
       {/* Network Info Panel — live stats with theme-aware design */}
@@ -627,11 +772,12 @@ export function NodeNetwork({ nodeUuid: propUuid, nodeName: propName, node: prop
             <CardTitle className="flex items-center gap-2 text-sm font-semibold">
               <ArrowUpDown className="h-4 w-4 text-primary" />
               {t('chart.networkTraffic')}
+              <ChartImageMenu className="ml-auto" {...imageProps(t('chart.networkTraffic'), 'network')} />
             </CardTitle>
           </CardHeader>
           <CardContent className="px-4 pb-3">
-            <ChartContainer config={netConfig} className={chartContainerClass}>
-              <AreaChart data={chartData} margin={chartMargin}>
+            <ChartContainer ref={chartWidthRef} config={netConfig} className={`${chartContainerClass} select-none`}>
+              <AreaChart data={plotData} margin={chartMargin} {...chartProps} {...syncProps}>
                 <CartesianGrid vertical={false} stroke={gridStrokeColor} strokeOpacity={0.3} />
                 <XAxis {...xAxisProps} />
                 <YAxis
@@ -644,13 +790,18 @@ export function NodeNetwork({ nodeUuid: propUuid, nodeName: propName, node: prop
                   width={isMobile ? 50 : 60}
                 />
                 <ChartTooltip
-                  cursor={false}
+                  cursor={crosshairCursor}
                   formatter={(v: number | string) => `${typeof v === 'number' ? v.toFixed(1) : v} KB/s`}
                   content={<ChartTooltipContent labelFormatter={labelFormatter} indicator="dot" />}
                 />
                 <ChartLegend content={<ChartLegendContent />} />
+                {envelope('network_in', chartColors[6])}
+                {envelope('network_out', chartColors[7])}
                 <Area dataKey="network_in" name={t('label.in')} stroke={chartColors[6]} fill={chartColors[6]} fillOpacity={0.15} type="linear" />
                 <Area dataKey="network_out" name={t('label.out')} stroke={chartColors[7]} fill={chartColors[7]} fillOpacity={0.15} type="linear" />
+                {anomalyAreas(regionsFor(anomalies, ['network_in', 'network_out']))}
+                {pinLine}
+                {zoomArea}
               </AreaChart>
             </ChartContainer>
           </CardContent>
@@ -662,22 +813,28 @@ export function NodeNetwork({ nodeUuid: propUuid, nodeName: propName, node: prop
             <CardTitle className="flex items-center gap-2 text-sm font-semibold">
               <Unplug className="h-4 w-4 text-primary" />
               {t('chart.connections')}
+              <ChartImageMenu className="ml-auto" {...imageProps(t('chart.connections'), 'connections')} />
             </CardTitle>
           </CardHeader>
           <CardContent className="px-4 pb-3">
-            <ChartContainer config={connConfig} className={chartContainerClass}>
-              <LineChart data={chartData} margin={chartMargin}>
+            <ChartContainer config={connConfig} className={`${chartContainerClass} select-none`}>
+              <ComposedChart data={plotData} margin={chartMargin} {...chartProps} {...syncProps}>
                 <CartesianGrid vertical={false} stroke={gridStrokeColor} strokeOpacity={0.3} />
                 <XAxis {...xAxisProps} />
                 <YAxis {...yAxisPlainProps} />
                 <ChartTooltip
-                  cursor={false}
+                  cursor={crosshairCursor}
                   content={<ChartTooltipContent labelFormatter={labelFormatter} indicator="dot" />}
                 />
                 <ChartLegend content={<ChartLegendContent />} />
+                {envelope('connections', chartColors[4])}
+                {envelope('connections_udp', chartColors[5])}
                 <Line dataKey="connections" name={t('label.tcp')} stroke={chartColors[4]} dot={false} isAnimationActive={false} strokeWidth={2} type="linear" />
                 <Line dataKey="connections_udp" name={t('label.udp')} stroke={chartColors[5]} dot={false} isAnimationActive={false} strokeWidth={2} type="linear" />
-              </LineChart>
+                {anomalyAreas(regionsFor(anomalies, ['connections']))}
+                {pinLine}
+                {zoomArea}
+              </ComposedChart>
             </ChartContainer>
           </CardContent>
         </Card>
@@ -707,11 +864,12 @@ export function NodeNetwork({ nodeUuid: propUuid, nodeName: propName, node: prop
                   }`} />
                   <span>{smooth ? 'SMOOTH' : 'RAW'}</span>
                 </button>
+                <ChartImageMenu className="ml-2" {...imageProps(t('chart.pingLatency'), 'ping')} />
               </CardTitle>
             </CardHeader>
             <CardContent className="px-4 pb-3">
-              <ChartContainer config={pingConfig} className={chartContainerClass}>
-                <LineChart data={pingChartData} margin={chartMargin}>
+              <ChartContainer config={pingConfig} className={`${chartContainerClass} select-none`}>
+                <ComposedChart data={pingPlotData} margin={chartMargin} {...chartProps} {...syncProps}>
                   <CartesianGrid vertical={false} stroke={gridStrokeColor} strokeOpacity={0.3} />
                   <XAxis {...xAxisProps} />
                   <YAxis
@@ -725,11 +883,38 @@ export function NodeNetwork({ nodeUuid: propUuid, nodeName: propName, node: prop
                     width={isMobile ? 45 : 50}
                   />
                   <ChartTooltip
-                    cursor={false}
+                    cursor={crosshairCursor}
                     formatter={(v: number | string) => `${Math.round(Number(v))} ms`}
                     content={<ChartTooltipContent labelFormatter={labelFormatter} indicator="dot" />}
                   />
                   <ChartLegend content={<ChartLegendContent />} onClick={handleLegendClick} />
+                  {bandTask && !hiddenLines[bandTask.id] && bandPercentiles.slice(1).map((p, i) => (
+                    <Area
+                      key={`band-${p}`}
+                      dataKey={bandRangeKey(bandPercentiles[i], p)}
+                      stroke="none"
+                      fill={bandTaskColor}
+                      fillOpacity={0.08 + 0.04 * i}
+                      isAnimationActive={false}
+                      tooltipType="none"
+                      legendType="none"
+                    />
+                  ))}
+                  {bandTask && !hiddenLines[bandTask.id] && bandPercentiles.map(p => (
+                    <Line
+                      key={`pct-${p}`}
+                      dataKey={bandKey(p)}
+                      name={`P${p} · ${bandTask.name}`}
+                      stroke={bandTaskColor}
+                      strokeOpacity={0.6}
+                      strokeDasharray="4 3"
+                      dot={false}
+                      isAnimationActive={false}
+                      strokeWidth={1}
+                      type="linear"
+                      legendType="none"
+                    />
+                  ))}
                   {tasks.map((task, idx) => (
                     <Line
                       key={task.id}
@@ -744,11 +929,29 @@ export function NodeNetwork({ nodeUuid: propUuid, nodeName: propName, node: prop
                       hide={!!hiddenLines[task.id]}
                     />
                   ))}
-                </LineChart>
+                  {anomalyAreas(pingAnomalies)}
+                  {pinnedPing && <ReferenceLine x={pinnedPing.time} stroke="var(--primary)" strokeWidth={1.5} />}
+                  {zoomArea}
+                </ComposedChart>
               </ChartContainer>
             </CardContent>
           </Card>
         )}
+
+        {/* Latency distribution */}
+        {bandTask && shownPingData.length > 0 && (
+          <LatencyDistribution
+            tasks={tasks}
+            records={shownPingData}
+            taskId={bandTask.id}
+            onTaskChange={setDistTask}
+            percentiles={bandPercentiles}
+            onPercentilesChange={setBandPercentiles}
+          />
+        )}
+
+        {/* Packet loss */}
+        {nodeUuid && tasks.length > 0 && <PacketLoss nodeUuid={nodeUuid} tasks={tasks} />}
       </div>
     </div>
   );
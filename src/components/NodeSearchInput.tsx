@@ -0,0 +1,147 @@
+import { useState, useMemo, useRef, useLayoutEffect, type KeyboardEvent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Search, X, AlertCircle } from 'lucide-react';
+import type { NodeWithStatus } from '@/services/api';
+import { parseNodeQuery, suggestNodeQuery } from '@/lib/node-query';
+import { cn } from '@/lib/utils';
+
+/**
+ * Search box for the node query language — autocompletes field names and
+ * known values and lists parse errors while focused.
+ */
+export function NodeSearchInput({
+  value,
+  onChange,
+  nodes,
+  placeholder,
+  className,
+  inputClassName,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  nodes: NodeWithStatus[];
+  placeholder?: string;
+  className?: string;
+  inputClassName?: string;
+}) {
+  const { t } = useTranslation();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const pendingCursor = useRef<number | null>(null);
+  const [focused, setFocused] = useState(false);
+  const [cursor, setCursor] = useState(0);
+  const [active, setActive] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+
+  const errors = useMemo(() => parseNodeQuery(value).errors, [value]);
+  const suggestions = useMemo(
+    () => (focused ? suggestNodeQuery(value, cursor, nodes) : null),
+    [focused, value, cursor, nodes],
+  );
+  const items = suggestions?.items ?? [];
+  const showSuggestions = focused && !dismissed && items.length > 0;
+  const errorText = errors.map(e => t(`query.${e.code}`, { text: e.text, col: e.start + 1 })).join('\n');
+
+  // Restore the caret after an accepted suggestion re-renders the value
+  useLayoutEffect(() => {
+    if (pendingCursor.current === null || !inputRef.current) return;
+    inputRef.current.setSelectionRange(pendingCursor.current, pendingCursor.current);
+    pendingCursor.current = null;
+  }, [value]);
+
+  const syncCursor = () => setCursor(inputRef.current?.selectionStart ?? value.length);
+
+  const accept = (index: number) => {
+    if (!suggestions) return;
+    const item = items[index];
+    if (!item) return;
+    const next = value.slice(0, suggestions.from) + item.insert + value.slice(suggestions.to);
+    const at = suggestions.from + item.insert.length;
+    pendingCursor.current = at;
+    setCursor(at);
+    setActive(0);
+    onChange(next);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      if (showSuggestions) setDismissed(true);
+      else inputRef.current?.blur();
+      return;
+    }
+    if (!showSuggestions) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActive(i => (i + step + items.length) % items.length);
+    } else if (e.key === 'Tab' || e.key === 'Enter') {
+      e.preventDefault();
+      accept(Math.min(active, items.length - 1));
+    }
+  };
+
+  return (
+    <div className={cn('relative', className)}>
+      <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-3 w-3 text-muted-foreground/50" />
+      <input
+        ref={inputRef}
+        type="text"
+        value={value}
+        spellCheck={false}
+        autoComplete="off"
+        onChange={e => {
+          setCursor(e.target.selectionStart ?? e.target.value.length);
+          setActive(0);
+          setDismissed(false);
+          onChange(e.target.value);
+        }}
+        onKeyDown={handleKeyDown}
+        onKeyUp={e => { if (e.key === 'ArrowLeft' || e.key === 'ArrowRight' || e.key === 'Home' || e.key === 'End') syncCursor(); }}
+        onClick={syncCursor}
+        onFocus={() => { setFocused(true); syncCursor(); }}
+        onBlur={() => { setFocused(false); setDismissed(false); }}
+        placeholder={placeholder}
+        className={cn(inputClassName, errors.length > 0 && 'border-red-500/50 focus:border-red-500/60 focus:ring-red-500/20')}
+      />
+      {errors.length > 0 && !focused && (
+        <span className="absolute right-6 top-1/2 -translate-y-1/2 text-red-500" title={errorText}>
+          <AlertCircle className="h-3 w-3" />
+        </span>
+      )}
+      {value && (
+        <button
+          onClick={() => onChange('')}
+          className="absolute right-1.5 top-1/2 -translate-y-1/2 p-0.5 rounded hover:bg-muted/50 cursor-pointer"
+        >
+          <X className="h-3 w-3 text-muted-foreground/50" />
+        </button>
+      )}
+
+      {focused && (showSuggestions || errors.length > 0) && (
+        <div className="absolute top-full left-0 right-0 mt-1 z-50 py-1 rounded-md border border-border/50 bg-popover backdrop-blur-none shadow-lg commander-dropdown max-h-64 overflow-y-auto">
+          {errors.map((e, i) => (
+            <div key={i} className="flex items-start gap-1.5 px-3 py-1 text-xxs font-mono text-red-500">
+              <AlertCircle className="h-3 w-3 shrink-0 mt-px" />
+              <span>{t(`query.${e.code}`, { text: e.text, col: e.start + 1 })}</span>
+            </div>
+          ))}
+          {errors.length > 0 && showSuggestions && <div className="my-1 border-t border-border/30" />}
+          {showSuggestions && items.map((item, i) => (
+            <button
+              key={item.insert}
+              // Keep focus in the input so the caret survives the click
+              onMouseDown={e => { e.preventDefault(); accept(i); }}
+              onMouseEnter={() => setActive(i)}
+              className={cn(
+                'w-full flex items-center justify-between gap-3 px-3 py-1 text-left text-xs font-mono transition-colors cursor-pointer',
+                i === active ? 'bg-primary/10 text-primary' : 'text-foreground',
+              )}
+            >
+              <span className="truncate">{item.label}</span>
+              {item.hint && <span className="shrink-0 text-xxs text-muted-foreground/60">{item.hint}</span>}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
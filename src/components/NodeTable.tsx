@@ -1,4 +1,4 @@
-import { useMemo } from 'react';
+import { Fragment, useEffect, useMemo, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import {
   useReactTable,
@@ -7,16 +7,28 @@ import {
   flexRender,
   createColumnHelper,
   type SortingState,
+  type OnChangeFn,
+  type ColumnSizingState,
+  type Row,
 } from '@tanstack/react-table';
-import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAppConfig } from '@/hooks/useAppConfig';
 import { Progress } from './ui/progress';
 import { Sparkline } from './Sparkline';
-import { ArrowUpDown, ArrowUp, ArrowDown } from 'lucide-react';
+import { CompareCheckbox } from './CompareBar';
+import { TrafficForecast } from './TrafficForecast';
+import { ArrowUpDown, ArrowUp, ArrowDown, ChevronDown, ChevronRight } from 'lucide-react';
 import type { NodeWithStatus } from '@/services/api';
 import { useRecentStats } from '@/hooks/useRecentStats';
-import { formatSpeed, formatUptime, formatBytes, getUsageStatus, calcTrafficUsage, formatTrafficType, getExpiryStatus, formatExpiry, cn } from '@/lib/utils';
+import { useAnomalyCounts } from '@/hooks/useAnomalies';
+import { useQueryParams } from '@/hooks/useQueryParams';
+import { useTableColumns } from '@/hooks/useTableColumns';
+import { useLiveNodes } from '@/hooks/useNodeStatus';
+import { useExpirySettings } from '@/hooks/useExpirySettings';
+import { parseSortParam, formatSortParam } from '@/lib/url-state';
+import { cycleLabel, formatMoney, loadBillingSettings } from '@/lib/billing';
+import { groupRows, isGroupByKey, loadCollapsedGroups, saveCollapsedGroups, type RowGroup } from '@/lib/table-groups';
+import { formatSpeed, formatUptime, formatBytes, getUsageStatus, calcTrafficUsage, formatTrafficType, getExpiryStatus, getExpiryDays, formatExpiry, cn } from '@/lib/utils';
 import type { TrafficLimitType } from '@/lib/utils';
 import { Tooltip, TooltipTrigger, TooltipContent } from './ui/tooltip';
 
@@ -52,22 +64,98 @@ function UsageCell({ value, status }: { value: number; status: string }) {
   );
 }
 
+/** Traffic quota used in percent, or null when the node has no limit */
+function trafficQuotaPct(node: NodeWithStatus): number | null {
+  if (!node.stats || !node.traffic_limit || node.traffic_limit <= 0 || !node.traffic_limit_type || node.traffic_limit_type === 'no_limit') return null;
+  const used = calcTrafficUsage(node.stats.network.totalUp, node.stats.network.totalDown, node.traffic_limit_type as TrafficLimitType);
+  return (used / node.traffic_limit) * 100;
+}
+
+const emptyCell = <span className="text-xs font-mono text-muted-foreground/30">—</span>;
+
 const columnHelper = createColumnHelper<NodeWithStatus>();
 
-function SortIcon({ sorted }: { sorted: false | 'asc' | 'desc' }) {
+/** `index` is the 1-based sort priority, shown once several columns are sorted */
+function SortIcon({ sorted, index }: { sorted: false | 'asc' | 'desc'; index?: number }) {
   if (!sorted) return <ArrowUpDown className="h-3 w-3 opacity-30" />;
-  if (sorted === 'asc') return <ArrowUp className="h-3 w-3 text-primary" />;
-  return <ArrowDown className="h-3 w-3 text-primary" />;
+  const Icon = sorted === 'asc' ? ArrowUp : ArrowDown;
+  return (
+    <span className="inline-flex items-center text-primary">
+      <Icon className="h-3 w-3" />
+      {index !== undefined && <sup className="text-xxs font-bold tabular-nums">{index}</sup>}
+    </span>
+  );
+}
+
+/* ── Group header — name, online count and aggregates ── */
+function GroupHeader({ group, collapsed, onToggle, currency, showCost }: {
+  group: RowGroup<Row<NodeWithStatus>>;
+  collapsed: boolean;
+  onToggle: () => void;
+  currency: string;
+  showCost: boolean;
+}) {
+  const { t } = useTranslation();
+  const { online, total, avgCpu, up, down, monthly } = group.aggregate;
+  const Chevron = collapsed ? ChevronRight : ChevronDown;
+  return (
+    <button onClick={onToggle} className="w-full flex flex-wrap items-center gap-x-4 gap-y-1 text-left text-xs font-mono cursor-pointer group/header">
+      <span className="flex items-center gap-1.5 min-w-0">
+        <Chevron className="h-3.5 w-3.5 text-muted-foreground group-hover/header:text-primary transition-colors" />
+        <span className="font-display font-bold text-sm truncate group-hover/header:text-primary transition-colors">{group.key}</span>
+      </span>
+      <span className="tabular-nums">
+        <span className={online === total ? 'text-green-500' : online === 0 ? 'text-red-500' : 'text-yellow-500'}>{online}</span>
+        <span className="text-muted-foreground/60">/{total} {t('status.online')}</span>
+      </span>
+      {avgCpu !== null && (
+        <span className="tabular-nums text-muted-foreground">
+          {t('table.avgCpu')} <span className={cn('font-bold', textColor[getUsageStatus(avgCpu, { warning: 60, critical: 80 })] || 'text-foreground')}>{avgCpu.toFixed(1)}%</span>
+        </span>
+      )}
+      <span className="tabular-nums text-muted-foreground">
+        <span className="text-green-500/70">↑</span>{formatSpeed(up)} <span className="text-primary/70">↓</span>{formatSpeed(down)}
+      </span>
+      {showCost && monthly !== null && (
+        <span className="tabular-nums text-muted-foreground">
+          {formatMoney(monthly, currency)}<span className="text-muted-foreground/60">/{t('table.perMonth')}</span>
+        </span>
+      )}
+    </button>
+  );
 }
 
-export function NodeTable({ nodes }: NodeTableProps) {
+export function NodeTable({ nodes: nodeList }: NodeTableProps) {
   const { t } = useTranslation();
-  const [sorting, setSorting] = useState<SortingState>([]);
+  // Cells and sorting show live stats; the table follows the store, its parents don't
+  const nodes = useLiveNodes(nodeList);
+  const [params, updateParams] = useQueryParams();
+  const sortParam = params.get('sort');
+  const sorting = useMemo<SortingState>(() => parseSortParam(sortParam), [sortParam]);
+  const setSorting: OnChangeFn<SortingState> = updater => {
+    const next = typeof updater === 'function' ? updater(sorting) : updater;
+    updateParams({ sort: formatSortParam(next) });
+  };
+  const groupByParam = params.get('groupBy');
+  const grouping = isGroupByKey(groupByParam) ? groupByParam : null;
+  const [collapsed, setCollapsed] = useState<string[]>(loadCollapsedGroups);
+  const billing = useMemo(loadBillingSettings, []);
+  const { columns: layout, setColumns: setLayout } = useTableColumns();
   const { getCpuSparkline } = useRecentStats();
+  const anomalyCounts = useAnomalyCounts();
   const { isLoggedIn } = useAppConfig();
+  const { warningDays } = useExpirySettings();
   const navigate = useNavigate();
 
   const columns = useMemo(() => [
+    columnHelper.display({
+      id: 'select',
+      size: 32,
+      enableSorting: false,
+      enableResizing: false,
+      cell: ({ row }) => <CompareCheckbox uuid={row.original.uuid} />,
+    }),
+
     columnHelper.accessor('status', {
       header: t('table.status'),
       size: 80,
@@ -103,7 +191,7 @@ export function NodeTable({ nodes }: NodeTableProps) {
       cell: ({ row }) => {
         const node = row.original;
         const isFree = node.price === -1;
-        const expiryStatus = (isFree || !isLoggedIn) ? null : getExpiryStatus(node.expired_at);
+        const expiryStatus = (isFree || !isLoggedIn) ? null : getExpiryStatus(node.expired_at, warningDays);
         const hasTraffic = !!(node.traffic_limit && node.traffic_limit > 0 && node.traffic_limit_type && node.traffic_limit_type !== 'no_limit');
         const trafficUsed = hasTraffic && node.stats
           ? calcTrafficUsage(node.stats.network.totalUp, node.stats.network.totalDown, node.traffic_limit_type as TrafficLimitType)
@@ -171,6 +259,7 @@ export function NodeTable({ nodes }: NodeTableProps) {
                   {formatTrafficType(node.traffic_limit_type!)} {formatBytes(trafficUsed)}/{formatBytes(node.traffic_limit!)}
                 </span>
               )}
+              {hasTraffic && node.stats && <TrafficForecast node={node} stats={node.stats} />}
               {expiryStatus && (
                 <span className={cn(
                   'text-xs font-mono',
@@ -287,6 +376,7 @@ export function NodeTable({ nodes }: NodeTableProps) {
       id: 'sparkline',
       header: '',
       size: 80,
+      enableResizing: false,
       cell: ({ row }) => {
         const node = row.original;
         if (node.status !== 'online') return null;
@@ -296,17 +386,316 @@ export function NodeTable({ nodes }: NodeTableProps) {
       },
     }),
 
-  ], [getCpuSparkline, navigate, t, isLoggedIn]);
+    /* ═══ Optional columns — hidden until enabled in the column manager ═══ */
+
+    columnHelper.accessor(
+      row => row.stats && row.stats.swap.total > 0 ? (row.stats.swap.used / row.stats.swap.total) * 100 : -1,
+      {
+        id: 'swap',
+        header: t('label.swap'),
+        size: 120,
+        cell: ({ row }) => {
+          const stats = row.original.stats;
+          if (!stats || stats.swap.total <= 0) return emptyCell;
+          const val = (stats.swap.used / stats.swap.total) * 100;
+          return <UsageCell value={val} status={getUsageStatus(val, { warning: 50, critical: 80 })} />;
+        },
+      }
+    ),
+
+    columnHelper.accessor(row => row.stats?.load?.load5 ?? 0, {
+      id: 'load5',
+      header: t('table.load5'),
+      size: 80,
+      cell: ({ row }) => row.original.stats
+        ? <span className="text-xs font-mono tabular-nums">{row.original.stats.load.load5.toFixed(2)}</span>
+        : emptyCell,
+    }),
+
+    columnHelper.accessor(row => row.stats?.load?.load15 ?? 0, {
+      id: 'load15',
+      header: t('table.load15'),
+      size: 80,
+      cell: ({ row }) => row.original.stats
+        ? <span className="text-xs font-mono tabular-nums">{row.original.stats.load.load15.toFixed(2)}</span>
+        : emptyCell,
+    }),
+
+    columnHelper.accessor(row => row.stats?.process ?? 0, {
+      id: 'process',
+      header: t('label.proc'),
+      size: 80,
+      cell: ({ row }) => row.original.stats
+        ? <span className="text-xs font-mono tabular-nums">{row.original.stats.process}</span>
+        : emptyCell,
+    }),
+
+    columnHelper.accessor(row => (row.stats?.connections?.tcp ?? 0) + (row.stats?.connections?.udp ?? 0), {
+      id: 'connections',
+      header: t('label.tcpUdp'),
+      size: 100,
+      cell: ({ row }) => row.original.stats
+        ? <span className="text-xs font-mono tabular-nums">{row.original.stats.connections.tcp}/{row.original.stats.connections.udp}</span>
+        : emptyCell,
+    }),
+
+    columnHelper.accessor(row => row.kernel_version ?? '', {
+      id: 'kernel',
+      header: t('label.kernel'),
+      size: 160,
+      cell: ({ getValue }) => getValue()
+        ? <span className="block text-xs font-mono truncate" title={getValue()}>{getValue()}</span>
+        : emptyCell,
+    }),
+
+    columnHelper.accessor(row => row.virtualization ?? '', {
+      id: 'virt',
+      header: t('label.virt'),
+      size: 90,
+      cell: ({ getValue }) => getValue() ? <span className="text-xs font-mono">{getValue()}</span> : emptyCell,
+    }),
+
+    columnHelper.accessor(row => row.arch ?? '', {
+      id: 'arch',
+      header: t('label.arch'),
+      size: 80,
+      cell: ({ getValue }) => getValue() ? <span className="text-xs font-mono">{getValue()}</span> : emptyCell,
+    }),
+
+    columnHelper.accessor(row => row.cpu_name ?? '', {
+      id: 'cpuModel',
+      header: t('table.cpuModel'),
+      size: 200,
+      cell: ({ getValue }) => getValue()
+        ? <span className="block max-w-[240px] text-xs font-mono truncate" title={getValue()}>{getValue()}</span>
+        : emptyCell,
+    }),
+
+    // Price and expiry are only exposed to the logged-in owner, as on the cards
+    columnHelper.accessor(row => (isLoggedIn ? row.price : 0), {
+      id: 'price',
+      header: t('table.price'),
+      size: 100,
+      cell: ({ row }) => {
+        const node = row.original;
+        if (!isLoggedIn || !node.price) return emptyCell;
+        if (node.price === -1) return <span className="text-xs font-mono text-green-500">{t('label.free')}</span>;
+        return (
+          <span className="text-xs font-mono tabular-nums">
+            {formatMoney(node.price, node.currency)}
+            <span className="text-muted-foreground/60">/{cycleLabel(node.billing_cycle)}</span>
+          </span>
+        );
+      },
+    }),
+
+    columnHelper.accessor(row => (isLoggedIn ? getExpiryDays(row.expired_at) : null) ?? Infinity, {
+      id: 'expiry',
+      header: t('table.expiry'),
+      size: 110,
+      cell: ({ row }) => {
+        const node = row.original;
+        const status = isLoggedIn && node.price !== -1 ? getExpiryStatus(node.expired_at, warningDays) : null;
+        if (!status) return emptyCell;
+        return (
+          <span className={cn('text-xs font-mono', textColor[status === 'expired' ? 'critical' : status])}>
+            {formatExpiry(node.expired_at)}
+          </span>
+        );
+      },
+    }),
+
+    columnHelper.accessor(row => trafficQuotaPct(row) ?? -1, {
+      id: 'traffic',
+      header: t('table.traffic'),
+      size: 120,
+      cell: ({ row }) => {
+        const pct = trafficQuotaPct(row.original);
+        if (pct === null) return emptyCell;
+        return <UsageCell value={pct} status={getUsageStatus(pct, { warning: 70, critical: 90 })} />;
+      },
+    }),
+
+    columnHelper.accessor(row => anomalyCounts[row.uuid] ?? -1, {
+      id: 'anomalies',
+      header: t('table.anomalies'),
+      size: 90,
+      cell: ({ row }) => {
+        const count = anomalyCounts[row.original.uuid];
+        if (count === undefined || count === null) return emptyCell;
+        return (
+          <span
+            className={cn(
+              'text-xs font-mono font-bold tabular-nums',
+              count > 0 ? 'px-1.5 py-0.5 rounded-sm border text-yellow-500 bg-yellow-500/10 border-yellow-500/20' : 'text-muted-foreground/50',
+            )}
+            title={t('table.anomaliesHint')}
+          >
+            {count}
+          </span>
+        );
+      },
+    }),
+
+  ], [getCpuSparkline, navigate, t, isLoggedIn, warningDays, anomalyCounts]);
+
+  const columnState = useMemo(() => ({
+    columnOrder: ['select', ...layout.order],
+    columnVisibility: Object.fromEntries(layout.hidden.map(id => [id, false])),
+    columnSizing: layout.sizes,
+    columnPinning: { left: layout.pinName ? ['select', 'name'] : [] },
+  }), [layout]);
+
+  const setColumnSizing: OnChangeFn<ColumnSizingState> = updater => {
+    setLayout(prev => ({ ...prev, sizes: typeof updater === 'function' ? updater(prev.sizes) : updater }));
+  };
 
   const table = useReactTable({
     data: nodes,
     columns,
-    state: { sorting },
+    state: { sorting, ...columnState },
     onSortingChange: setSorting,
+    onColumnSizingChange: setColumnSizing,
+    // Shift-click adds a column to the sort instead of replacing it
+    enableMultiSort: true,
+    isMultiSortEvent: e => (e as MouseEvent).shiftKey,
+    enableColumnResizing: true,
+    columnResizeMode: 'onChange',
     getCoreRowModel: getCoreRowModel(),
     getSortedRowModel: getSortedRowModel(),
   });
 
+  useEffect(() => {
+    saveCollapsedGroups(collapsed);
+  }, [collapsed]);
+
+  const toggleGroup = (id: string) => setCollapsed(prev => (prev.includes(id) ? prev.filter(g => g !== id) : [...prev, id]));
+
+  const rows = table.getRowModel().rows;
+  const groups = grouping ? groupRows(rows, row => row.original, grouping, isLoggedIn ? billing : undefined) : null;
+  const visibleColumnCount = table.getVisibleLeafColumns().length;
+  const multiSort = sorting.length > 1;
+
+  // Fixed layout only once the user has dragged a width, so untouched tables keep sizing to content
+  const fixedLayout = Object.keys(layout.sizes).length > 0;
+
+  const renderRow = (row: Row<NodeWithStatus>, idx: number, rows: Row<NodeWithStatus>[]) => {
+    const isOnline = row.original.status === 'online';
+    const stats = row.original.stats;
+    const isCritical = stats && (
+      (stats.cpu.usage > 80) || 
+      (stats.ram.used / stats.ram.total > 0.85) || 
+      (stats.disk.used / stats.disk.total > 0.9)
+    );
+    
+    return (
+      <tr
+        key={row.id}
+        className={cn(
+          'transition-colors hover:bg-primary/8 group relative',
+          idx !== rows.length - 1 && 'border-b border-border/20',
+          !isOnline && 'opacity-45',
+          isCritical && 'bg-red-500/5 hover:bg-red-500/10 animate-pulse-subtle'
+        )}
+      >
+        {row.getVisibleCells().map((cell, cellIdx) => (
+          <td
+            key={cell.id}
+            className={cn(
+              'px-3 py-2.5 relative',
+              cellIdx > 0 && 'border-l border-border/10',
+              cell.column.getIsPinned() && 'sticky z-10 bg-card',
+              fixedLayout && 'overflow-hidden',
+            )}
+            style={cell.column.getIsPinned() ? { left: cell.column.getStart('left') } : undefined}
+          >
+            {cellIdx === 0 && isCritical && (
+              <div className="absolute left-0 top-1/2 -translate-y-1/2 w-[2px] h-3/4 bg-red-500 shadow-[0_0_8px_rgba(239,68,68,0.8)]" />
+            )}
+            {flexRender(cell.column.columnDef.cell, cell.getContext())}
+          </td>
+        ))}
+      </tr>
+    );
+  };
+
+  const renderMobileRow = (row: Row<NodeWithStatus>, idx: number, rows: Row<NodeWithStatus>[]) => {
+    const node = row.original;
+    const isOnline = node.status === 'online';
+    const stats = node.stats;
+    const cpuUsage = stats?.cpu?.usage ?? 0;
+    const ramUsage = stats ? (stats.ram.used / stats.ram.total) * 100 : 0;
+    const diskUsage = stats ? (stats.disk.used / stats.disk.total) * 100 : 0;
+    const tagList = node.tags ? node.tags.split(/[,;]/).map(t => t.trim()).filter(Boolean) : [];
+
+    return (
+      <div
+        key={row.id}
+        className={cn(
+          'px-3 py-2.5 space-y-1.5 transition-colors hover:bg-primary/8',
+          idx !== rows.length - 1 && 'border-b border-border/20',
+          !isOnline && 'opacity-45'
+        )}
+      >
+        <div className="space-y-1">
+          <div className="flex items-center gap-2 min-w-0">
+            <CompareCheckbox uuid={node.uuid} />
+            <span className={cn(
+              'w-1.5 h-1.5 rounded-full flex-shrink-0',
+              isOnline ? 'bg-green-500' : 'bg-red-500'
+            )} />
+            <span
+              className="text-base font-display font-bold truncate cursor-pointer hover:text-primary transition-colors"
+              onClick={() => navigate(`/node/${node.uuid}`)}
+            >{node.name}</span>
+            <span className="text-xs font-mono text-muted-foreground/60 flex-shrink-0">{node.region}</span>
+          </div>
+          {(node.group || tagList.length > 0 || node.hidden) && (
+            <div className="flex flex-wrap items-center gap-1.5 ml-9">
+              {node.group && (
+                <span className="text-xs font-mono text-primary/80 bg-primary/15 px-1.5 py-0.5 rounded-sm">
+                  {node.group}
+                </span>
+              )}
+              {tagList.slice(0, 5).map((tag, i) => (
+                <span key={i} className="text-xs font-mono text-muted-foreground/80 bg-muted/50 px-1.5 py-0.5 rounded-sm">
+                  {tag}
+                </span>
+              ))}
+              {tagList.length > 5 && (
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <span className="text-xs font-mono text-muted-foreground/60 bg-muted/40 px-1.5 py-0.5 rounded-sm cursor-default">
+                      +{tagList.length - 5}
+                    </span>
+                  </TooltipTrigger>
+                  <TooltipContent side="bottom" className="text-xs font-mono">
+                    {tagList.slice(5).join(', ')}
+                  </TooltipContent>
+                </Tooltip>
+              )}
+              {node.hidden && (
+                <span className="text-xs font-mono text-yellow-500/80 bg-yellow-500/15 px-1.5 py-0.5 rounded-sm">
+                  {t('node.hidden')}
+                </span>
+              )}
+            </div>
+          )}
+        </div>
+        {stats && (
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs font-mono text-muted-foreground ml-9">
+            <span className={textColor[getUsageStatus(cpuUsage, { warning: 60, critical: 80 })]}>{t('label.cpu')} {cpuUsage.toFixed(0)}%</span>
+            <span className={textColor[getUsageStatus(ramUsage, { warning: 70, critical: 85 })]}>{t('label.ram')} {ramUsage.toFixed(0)}%</span>
+            <span className={textColor[getUsageStatus(diskUsage, { warning: 75, critical: 90 })]}>{t('label.disk')} {diskUsage.toFixed(0)}%</span>
+            <span><span className="text-green-500/70">↑</span>{formatSpeed(stats.network.up)}</span>
+              <span><span className="text-primary/70">↓</span>{formatSpeed(stats.network.down)}</span>
+            <span>{formatUptime(stats.uptime)}</span>
+          </div>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div className="rounded-lg border border-border/50 bg-card/80 backdrop-blur-xl overflow-hidden commander-corners relative">
       <div className="commander-scanner-effect" />
@@ -326,150 +715,98 @@ export function NodeTable({ nodes }: NodeTableProps) {
 
       {/* Desktop table */}
       <div className="hidden lg:block overflow-x-auto relative z-10">
-        <table className="w-full">
+        <table
+          className={cn('w-full', fixedLayout && 'table-fixed')}
+          style={fixedLayout ? { minWidth: table.getTotalSize() } : undefined}
+        >
           <thead>
             {table.getHeaderGroups().map(headerGroup => (
               <tr key={headerGroup.id} className="border-b border-border/40 bg-muted/15 relative">
-                {headerGroup.headers.map(header => (
-                  <th
-                    key={header.id}
-                    className={cn(
-                      'px-3 py-2.5 text-left text-xs font-mono font-bold text-muted-foreground/60 uppercase tracking-[0.15em]',
-                      header.column.getCanSort() && 'cursor-pointer select-none hover:text-primary transition-colors'
-                    )}
-                    style={{ width: header.getSize() === 999 ? undefined : header.getSize() }}
-                    onClick={header.column.getToggleSortingHandler()}
-                  >
-                    <div className="flex items-center gap-1">
-                      <span className="text-primary opacity-40 mr-0.5">_</span>
-                      {header.isPlaceholder ? null : flexRender(header.column.columnDef.header, header.getContext())}
-                      {header.column.getCanSort() && (
-                        <SortIcon sorted={header.column.getIsSorted()} />
+                {headerGroup.headers.map(header => {
+                  const pinned = header.column.getIsPinned();
+                  return (
+                    <th
+                      key={header.id}
+                      className={cn(
+                        'px-3 py-2.5 text-left text-xs font-mono font-bold text-muted-foreground/60 uppercase tracking-[0.15em] relative',
+                        header.column.getCanSort() && 'cursor-pointer select-none hover:text-primary transition-colors',
+                        pinned && 'sticky z-20 bg-card',
+                      )}
+                      style={{
+                        width: header.getSize() === 999 ? undefined : header.getSize(),
+                        left: pinned ? header.column.getStart('left') : undefined,
+                      }}
+                      onClick={header.column.getToggleSortingHandler()}
+                      title={header.column.getCanSort() ? t('table.sortHint') : undefined}
+                    >
+                      <div className="flex items-center gap-1 min-w-0">
+                        <span className="text-primary opacity-40 mr-0.5">_</span>
+                        <span className="truncate">
+                          {header.isPlaceholder ? null : flexRender(header.column.columnDef.header, header.getContext())}
+                        </span>
+                        {header.column.getCanSort() && (
+                          <SortIcon
+                            sorted={header.column.getIsSorted()}
+                            index={multiSort && header.column.getIsSorted() ? header.column.getSortIndex() + 1 : undefined}
+                          />
+                        )}
+                      </div>
+                      {header.column.getCanResize() && (
+                        <div
+                          onMouseDown={header.getResizeHandler()}
+                          onTouchStart={header.getResizeHandler()}
+                          onClick={e => e.stopPropagation()}
+                          // Double-click drops the custom width
+                          onDoubleClick={() => setLayout(prev => {
+                            const sizes = { ...prev.sizes };
+                            delete sizes[header.column.id];
+                            return { ...prev, sizes };
+                          })}
+                          className={cn(
+                            'absolute right-0 top-0 h-full w-1 cursor-col-resize select-none touch-none transition-colors',
+                            header.column.getIsResizing() ? 'bg-primary' : 'hover:bg-primary/50',
+                          )}
+                        />
                       )}
-                    </div>
-                  </th>
-                ))}
+                    </th>
+                  );
+                })}
               </tr>
             ))}
           </thead>
           <tbody>
-            {table.getRowModel().rows.map((row, idx) => {
-              const isOnline = row.original.status === 'online';
-              const stats = row.original.stats;
-              const isCritical = stats && (
-                (stats.cpu.usage > 80) || 
-                (stats.ram.used / stats.ram.total > 0.85) || 
-                (stats.disk.used / stats.disk.total > 0.9)
-              );
-              
+            {groups ? groups.map(group => {
+              const id = `${grouping}:${group.key}`;
+              const isCollapsed = collapsed.includes(id);
               return (
-                <tr
-                  key={row.id}
-                  className={cn(
-                    'transition-colors hover:bg-primary/8 group relative',
-                    idx !== table.getRowModel().rows.length - 1 && 'border-b border-border/20',
-                    !isOnline && 'opacity-45',
-                    isCritical && 'bg-red-500/5 hover:bg-red-500/10 animate-pulse-subtle'
-                  )}
-                >
-                  {row.getVisibleCells().map((cell, cellIdx) => (
-                    <td
-                      key={cell.id}
-                      className={cn(
-                        'px-3 py-2.5 relative',
-                        cellIdx > 0 && 'border-l border-border/10'
-                      )}
-                    >
-                      {cellIdx === 0 && isCritical && (
-                        <div className="absolute left-0 top-1/2 -translate-y-1/2 w-[2px] h-3/4 bg-red-500 shadow-[0_0_8px_rgba(239,68,68,0.8)]" />
-                      )}
-                      {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                <Fragment key={id}>
+                  <tr className="border-b border-border/30 bg-muted/20">
+                    <td colSpan={visibleColumnCount} className="px-3 py-1.5">
+                      <GroupHeader group={group} collapsed={isCollapsed} onToggle={() => toggleGroup(id)} currency={billing.baseCurrency} showCost={isLoggedIn} />
                     </td>
-                  ))}
-                </tr>
+                  </tr>
+                  {!isCollapsed && group.rows.map(renderRow)}
+                </Fragment>
               );
-            })}
+            }) : rows.map(renderRow)}
           </tbody>
         </table>
       </div>
 
       {/* Mobile / Tablet layout */}
       <div className="lg:hidden relative z-10">
-        {table.getRowModel().rows.map((row, idx) => {
-          const node = row.original;
-          const isOnline = node.status === 'online';
-          const stats = node.stats;
-          const cpuUsage = stats?.cpu?.usage ?? 0;
-          const ramUsage = stats ? (stats.ram.used / stats.ram.total) * 100 : 0;
-          const diskUsage = stats ? (stats.disk.used / stats.disk.total) * 100 : 0;
-          const tagList = node.tags ? node.tags.split(/[,;]/).map(t => t.trim()).filter(Boolean) : [];
-
+        {groups ? groups.map(group => {
+          const id = `${grouping}:${group.key}`;
+          const isCollapsed = collapsed.includes(id);
           return (
-            <div
-              key={row.id}
-              className={cn(
-                'px-3 py-2.5 space-y-1.5 transition-colors hover:bg-primary/8',
-                idx !== table.getRowModel().rows.length - 1 && 'border-b border-border/20',
-                !isOnline && 'opacity-45'
-              )}
-            >
-              <div className="space-y-1">
-                <div className="flex items-center gap-2 min-w-0">
-                  <span className={cn(
-                    'w-1.5 h-1.5 rounded-full flex-shrink-0',
-                    isOnline ? 'bg-green-500' : 'bg-red-500'
-                  )} />
-                  <span
-                    className="text-base font-display font-bold truncate cursor-pointer hover:text-primary transition-colors"
-                    onClick={() => navigate(`/node/${node.uuid}`)}
-                  >{node.name}</span>
-                  <span className="text-xs font-mono text-muted-foreground/60 flex-shrink-0">{node.region}</span>
-                </div>
-                {(node.group || tagList.length > 0 || node.hidden) && (
-                  <div className="flex flex-wrap items-center gap-1.5 ml-3.5">
-                    {node.group && (
-                      <span className="text-xs font-mono text-primary/80 bg-primary/15 px-1.5 py-0.5 rounded-sm">
-                        {node.group}
-                      </span>
-                    )}
-                    {tagList.slice(0, 5).map((tag, i) => (
-                      <span key={i} className="text-xs font-mono text-muted-foreground/80 bg-muted/50 px-1.5 py-0.5 rounded-sm">
-                        {tag}
-                      </span>
-                    ))}
-                    {tagList.length > 5 && (
-                      <Tooltip>
-                        <TooltipTrigger asChild>
-                          <span className="text-xs font-mono text-muted-foreground/60 bg-muted/40 px-1.5 py-0.5 rounded-sm cursor-default">
-                            +{tagList.length - 5}
-                          </span>
-                        </TooltipTrigger>
-                        <TooltipContent side="bottom" className="text-xs font-mono">
-                          {tagList.slice(5).join(', ')}
-                        </TooltipContent>
-                      </Tooltip>
-                    )}
-                    {node.hidden && (
-                      <span className="text-xs font-mono text-yellow-500/80 bg-yellow-500/15 px-1.5 py-0.5 rounded-sm">
-                        {t('node.hidden')}
-                      </span>
-                    )}
-                  </div>
-                )}
+            <Fragment key={id}>
+              <div className="px-3 py-1.5 border-b border-border/30 bg-muted/20">
+                <GroupHeader group={group} collapsed={isCollapsed} onToggle={() => toggleGroup(id)} currency={billing.baseCurrency} showCost={isLoggedIn} />
               </div>
-              {stats && (
-                <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs font-mono text-muted-foreground ml-3.5">
-                  <span className={textColor[getUsageStatus(cpuUsage, { warning: 60, critical: 80 })]}>{t('label.cpu')} {cpuUsage.toFixed(0)}%</span>
-                  <span className={textColor[getUsageStatus(ramUsage, { warning: 70, critical: 85 })]}>{t('label.ram')} {ramUsage.toFixed(0)}%</span>
-                  <span className={textColor[getUsageStatus(diskUsage, { warning: 75, critical: 90 })]}>{t('label.disk')} {diskUsage.toFixed(0)}%</span>
-                  <span><span className="text-green-500/70">↑</span>{formatSpeed(stats.network.up)}</span>
-                    <span><span className="text-primary/70">↓</span>{formatSpeed(stats.network.down)}</span>
-                  <span>{formatUptime(stats.uptime)}</span>
-                </div>
-              )}
-            </div>
+              {!isCollapsed && group.rows.map(renderMobileRow)}
+            </Fragment>
           );
-        })}
+        }) : rows.map(renderMobileRow)}
       </div>
     </div>
   );
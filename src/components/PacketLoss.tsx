@@ -0,0 +1,248 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { WifiOff } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent } from './ui/chart';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid } from 'recharts';
+import { HudSpinner } from './HudSpinner';
+import { apiService } from '../services/api';
+import { useAppConfig } from '@/hooks/useAppConfig';
+import {
+  chartColors,
+  chartCardClass,
+  chartContainerClass,
+  gridStrokeColor,
+  labelFormatter,
+  type PingRecord,
+  type TaskInfo,
+} from '@/lib/chart-utils';
+import { lossStrip, lossEvents, lossByHour, type LossBucket } from '@/lib/packet-loss';
+import { formatUptime, cn } from '@/lib/utils';
+
+const windowOptions = [6, 24, 72, 168];
+const STRIP_BUCKETS = 120;
+
+const lossClass = (rate: number) => rate > 5 ? 'text-red-500' : rate > 0 ? 'text-yellow-500' : 'text-green-500';
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : formatUptime(seconds, 'minute');
+};
+
+function LossStripCell({ bucket }: { bucket: LossBucket }) {
+  const share = bucket.sent ? bucket.lost / bucket.sent : 0;
+  return (
+    <div
+      className={cn(
+        'flex-1 h-full',
+        !bucket.sent ? 'bg-muted/20' : bucket.lost ? 'bg-red-500' : 'bg-green-500/25',
+      )}
+      style={bucket.lost ? { opacity: 0.3 + 0.7 * share } : undefined}
+      title={`${labelFormatter(bucket.start)} — ${bucket.lost}/${bucket.sent} (${(share * 100).toFixed(1)}%)`}
+    />
+  );
+}
+
+/**
+ * Packet loss of every ping task over a longer window than the latency chart:
+ * a loss strip per task, the list of loss events and loss rate by hour of day.
+ */
+export function PacketLoss({ nodeUuid, tasks }: { nodeUuid: string; tasks: TaskInfo[] }) {
+  const { t } = useTranslation();
+  const { pingRecordPreserveTime } = useAppConfig();
+  const options = useMemo(
+    () => windowOptions.filter(h => !pingRecordPreserveTime || h <= pingRecordPreserveTime),
+    [pingRecordPreserveTime],
+  );
+  const [hours, setHours] = useState(24);
+  const fetchHours = options.includes(hours) ? hours : (options[options.length - 1] ?? 1);
+
+  const [records, setRecords] = useState<PingRecord[] | null>(null);
+  const [fetchedAt, setFetchedAt] = useState(0);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    apiService.getPingHistory(nodeUuid, fetchHours)
+      .then(history => {
+        if (cancelled) return;
+        setRecords((history?.records || []) as PingRecord[]);
+        setFetchedAt(Date.now());
+      })
+      .catch(() => { if (!cancelled) setRecords([]); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [nodeUuid, fetchHours]);
+
+  const strips = useMemo(() => {
+    if (!records) return [];
+    const end = fetchedAt;
+    const start = end - fetchHours * 3_600_000;
+    return tasks.map(task => {
+      const buckets = lossStrip(records, task.id, start, end, STRIP_BUCKETS);
+      const sent = buckets.reduce((sum, b) => sum + b.sent, 0);
+      const lost = buckets.reduce((sum, b) => sum + b.lost, 0);
+      return { task, buckets, rate: sent ? (lost / sent) * 100 : 0 };
+    });
+  }, [records, tasks, fetchedAt, fetchHours]);
+
+  const events = useMemo(() => {
+    if (!records) return [];
+    return tasks
+      .flatMap(task => lossEvents(records, task.id).map(event => ({ ...event, task })))
+      .sort((a, b) => b.start - a.start);
+  }, [records, tasks]);
+
+  const hourly = useMemo(() => {
+    const rows = Array.from({ length: 24 }, (_, hour) => ({ hour: String(hour).padStart(2, '0') } as Record<string, string | number | null>));
+    if (records) {
+      for (const task of tasks) {
+        lossByHour(records, task.id).forEach(slot => { rows[slot.hour][task.id] = slot.rate; });
+      }
+    }
+    return rows;
+  }, [records, tasks]);
+
+  const hourlyConfig = useMemo(() => {
+    const c: Record<string, { label: string; color: string }> = {};
+    tasks.forEach((task, i) => { c[task.id] = { label: task.name, color: chartColors[i % chartColors.length] }; });
+    return c;
+  }, [tasks]);
+
+  const colorOf = (task: TaskInfo) => chartColors[Math.max(0, tasks.indexOf(task)) % chartColors.length];
+
+  return (
+    <Card className={`${chartCardClass} lg:col-span-2`}>
+      <CardHeader className="pb-2 px-4 pt-3">
+        <CardTitle className="flex flex-wrap items-center gap-2 text-sm font-semibold">
+          <WifiOff className="h-4 w-4 text-primary" />
+          {t('loss.title')}
+          {loading && records && <HudSpinner size="sm" />}
+          <div className="ml-auto flex items-center gap-0.5">
+            {options.map(h => (
+              <button
+                key={h}
+                onClick={() => setHours(h)}
+                className={cn(
+                  'px-2 py-0.5 rounded text-xs font-mono transition-colors cursor-pointer',
+                  fetchHours === h ? 'bg-primary/15 text-primary' : 'text-muted-foreground hover:text-foreground hover:bg-muted/30',
+                )}
+              >
+                {h % 24 === 0 ? `${h / 24}D` : `${h}H`}
+              </button>
+            ))}
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="px-4 pb-3 space-y-4">
+        {!records ? (
+          <div className="flex items-center justify-center h-24"><HudSpinner /></div>
+        ) : (
+          <>
+            {/* Loss strip per task */}
+            <div className="space-y-1">
+              {strips.map(({ task, buckets, rate }) => (
+                <div key={task.id} className="flex items-center gap-2">
+                  <span className="flex items-center gap-1.5 w-32 shrink-0 text-xs font-mono truncate" title={task.name}>
+                    <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: colorOf(task) }} />
+                    <span className="truncate">{task.name}</span>
+                  </span>
+                  <div className="flex flex-1 h-4 gap-px rounded-sm overflow-hidden">
+                    {buckets.map((bucket, i) => <LossStripCell key={i} bucket={bucket} />)}
+                  </div>
+                  <span className={cn('w-14 text-right text-xs font-mono font-bold tabular-nums', lossClass(rate))}>
+                    {rate.toFixed(1)}%
+                  </span>
+                </div>
+              ))}
+              <div className="flex justify-between pl-34 pr-16 text-xxs font-mono text-muted-foreground/60 tabular-nums">
+                <span>{labelFormatter(fetchedAt - fetchHours * 3_600_000)}</span>
+                <span>{labelFormatter(fetchedAt)}</span>
+              </div>
+            </div>
+
+            <div className="grid gap-4 lg:grid-cols-2">
+              {/* Loss rate by hour of day */}
+              <div>
+                <div className="text-xs font-mono font-bold text-muted-foreground/60 uppercase tracking-wider mb-1" title={t('loss.byHourHint')}>
+                  {t('loss.byHour')}
+                </div>
+                <ChartContainer config={hourlyConfig} className={chartContainerClass}>
+                  <LineChart data={hourly} margin={{ top: 10, right: 10, bottom: 0, left: 0 }}>
+                    <CartesianGrid vertical={false} stroke={gridStrokeColor} strokeOpacity={0.3} />
+                    <XAxis dataKey="hour" tickLine={false} axisLine={false} tick={{ fontSize: 10 }} interval={2} />
+                    <YAxis tickLine={false} axisLine={false} unit="%" tick={{ fontSize: 10 }} width={40} />
+                    <ChartTooltip
+                      cursor={false}
+                      formatter={(v: number | string) => `${Number(v).toFixed(2)}%`}
+                      content={<ChartTooltipContent indicator="dot" labelFormatter={(hour: string) => `${hour}:00`} />}
+                    />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    {tasks.map(task => (
+                      <Line
+                        key={task.id}
+                        dataKey={String(task.id)}
+                        name={task.name}
+                        stroke={colorOf(task)}
+                        dot={false}
+                        strokeWidth={2}
+                        isAnimationActive={false}
+                        connectNulls={false}
+                        type="monotone"
+                      />
+                    ))}
+                  </LineChart>
+                </ChartContainer>
+              </div>
+
+              {/* Loss events */}
+              <div className="min-w-0">
+                <div className="text-xs font-mono font-bold text-muted-foreground/60 uppercase tracking-wider mb-1" title={t('loss.eventsHint')}>
+                  {t('loss.events', { count: events.length })}
+                </div>
+                {events.length === 0 ? (
+                  <div className="flex items-center justify-center h-24 text-xs font-mono text-green-500">{t('loss.noEvents')}</div>
+                ) : (
+                  <div className="max-h-[260px] overflow-y-auto">
+                    <table className="w-full">
+                      <thead className="sticky top-0 bg-card">
+                        <tr className="border-b border-border/30">
+                          <th className="text-left text-xs font-mono font-bold text-muted-foreground/60 uppercase px-2 py-1.5">{t('loss.task')}</th>
+                          <th className="text-left text-xs font-mono font-bold text-muted-foreground/60 uppercase px-2 py-1.5">{t('loss.start')}</th>
+                          <th className="text-right text-xs font-mono font-bold text-muted-foreground/60 uppercase px-2 py-1.5">{t('loss.duration')}</th>
+                          <th className="text-right text-xs font-mono font-bold text-muted-foreground/60 uppercase px-2 py-1.5">{t('loss.lost')}</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {events.map(event => (
+                          <tr key={`${event.taskId}:${event.start}`} className="border-b border-border/10 hover:bg-muted/10">
+                            <td className="px-2 py-1 text-xs font-mono">
+                              <span className="flex items-center gap-1.5 truncate">
+                                <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: colorOf(event.task) }} />
+                                <span className="truncate">{event.task.name}</span>
+                              </span>
+                            </td>
+                            <td className="px-2 py-1 text-xs font-mono tabular-nums text-muted-foreground">
+                              {labelFormatter(event.start)}
+                            </td>
+                            <td className="px-2 py-1 text-right text-xs font-mono tabular-nums">
+                              {formatDuration(event.end - event.start + (event.task.interval || 0) * 1000)}
+                            </td>
+                            <td className={cn('px-2 py-1 text-right text-xs font-mono font-bold tabular-nums', lossClass((event.lost / event.sent) * 100))}>
+                              {event.lost}/{event.sent}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,48 @@
+import { useTranslation } from 'react-i18next';
+import { Pin, X } from 'lucide-react';
+import { labelFormatter } from '@/lib/chart-utils';
+
+export interface PinnedValue {
+  label: string;
+  /** Formatted value, or null when the series has no sample near the pin */
+  value: string | null;
+  color: string;
+}
+
+/** Values of every series at the pinned moment, shown above the charts */
+export function PinnedCursor({
+  time,
+  values,
+  onClear,
+}: {
+  time: number | null;
+  values: PinnedValue[];
+  onClear: () => void;
+}) {
+  const { t } = useTranslation();
+
+  if (time === null) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 px-4 py-2 border-t border-border/30 text-xs font-mono">
+      <span className="flex items-center gap-1.5 text-primary font-bold">
+        <Pin className="h-3 w-3" />
+        {labelFormatter(time)}
+      </span>
+      {values.map(item => (
+        <span key={item.label} className="flex items-center gap-1.5 tabular-nums">
+          <span className="w-2 h-2 rounded-[2px] shrink-0" style={{ backgroundColor: item.color }} />
+          <span className="text-muted-foreground">{item.label}</span>
+          <span className="font-bold">{item.value ?? '—'}</span>
+        </span>
+      ))}
+      <button
+        onClick={onClear}
+        className="ml-auto p-1 rounded text-muted-foreground hover:text-primary hover:bg-muted/30 transition-colors cursor-pointer"
+        title={t('chart.unpin')}
+      >
+        <X className="h-3 w-3" />
+      </button>
+    </div>
+  );
+}
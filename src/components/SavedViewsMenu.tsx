@@ -0,0 +1,185 @@
+import { useState, useRef, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { Bookmark, BookmarkCheck, Plus, Trash2, Download, Upload } from 'lucide-react';
+import { useSavedViews } from '@/hooks/useSavedViews';
+import { useTableColumns } from '@/hooks/useTableColumns';
+import {
+  applyViewColumns,
+  exportViews,
+  isViewActive,
+  parseViewsFile,
+  pickViewColumns,
+  pickViewParams,
+  viewSearch,
+  type SavedView,
+} from '@/lib/saved-views';
+import { downloadText, fileTimestamp } from '@/lib/export';
+import { cn } from '@/lib/utils';
+
+/** Header menu to apply, save, delete, import and export saved dashboard views */
+export function SavedViewsMenu() {
+  const { t } = useTranslation();
+  const { views, saveView, removeView, importViews } = useSavedViews();
+  const { columns, setColumns } = useTableColumns();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null);
+  const panelRef = useRef<HTMLDivElement>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const isDashboard = location.pathname === '/';
+  const active = isDashboard ? views.find(v => isViewActive(v, location.search)) : undefined;
+
+  // Close on outside click
+  useEffect(() => {
+    if (!open) return;
+    const handler = (e: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handler);
+    return () => document.removeEventListener('mousedown', handler);
+  }, [open]);
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed || !isDashboard) return;
+    saveView(trimmed, pickViewParams(location.search), pickViewColumns(columns));
+    setName('');
+    setMessage({ text: t('views.saved', { name: trimmed }) });
+  };
+
+  const applyView = (view: SavedView) => {
+    navigate(`/${viewSearch(view)}`);
+    const layout = view.columns;
+    if (layout) setColumns(prev => applyViewColumns(prev, layout));
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parseViewsFile(await file.text());
+      const count = importViews(imported);
+      // Re-importing the view on screen takes its layout straight away
+      const current = active && imported.find(v => v.name === active.name);
+      if (current?.columns) applyView(current);
+      setMessage({ text: t('views.imported', { count }) });
+    } catch {
+      setMessage({ text: t('views.importFailed'), error: true });
+    }
+  };
+
+  const Icon = active ? BookmarkCheck : Bookmark;
+
+  return (
+    <div className="relative" ref={panelRef}>
+      <button
+        onClick={() => { setOpen(o => !o); setMessage(null); }}
+        className={cn(
+          'p-1.5 rounded border border-border/50 transition-colors cursor-pointer',
+          open ? 'bg-primary text-primary-foreground' : active ? 'text-primary hover:bg-muted/50' : 'hover:bg-muted/50',
+        )}
+        title={active ? `${t('views.title')}: ${active.name}` : t('views.title')}
+      >
+        <Icon className="h-3.5 w-3.5" />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-1 w-64 rounded-lg border border-border/50 bg-popover backdrop-blur-none shadow-xl z-50 overflow-hidden commander-dropdown">
+          <div className="px-3 py-1.5 border-b border-border/50">
+            <span className="text-xxs font-mono font-bold uppercase tracking-wider text-muted-foreground">
+              {t('views.title')}
+            </span>
+          </div>
+
+          {/* ═══ Saved views ═══ */}
+          <div className="p-1 max-h-64 overflow-y-auto">
+            {views.length === 0 ? (
+              <div className="px-3 py-2 text-xs font-mono text-muted-foreground">{t('views.empty')}</div>
+            ) : views.map(view => (
+              <div
+                key={view.id}
+                className={cn(
+                  'group flex items-center gap-2 px-3 py-1.5 rounded-md transition-colors',
+                  view === active ? 'bg-primary/15 text-primary' : 'hover:bg-muted/50 text-foreground',
+                )}
+              >
+                <button
+                  onClick={() => { applyView(view); setOpen(false); }}
+                  className="flex-1 min-w-0 text-left text-xs font-mono font-medium truncate cursor-pointer"
+                  title={decodeURIComponent(viewSearch(view).slice(1)).replace(/&/g, '\n')}
+                >
+                  {view.name}
+                </button>
+                <button
+                  onClick={() => removeView(view.id)}
+                  className="p-0.5 rounded opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive transition-opacity cursor-pointer"
+                  title={t('views.delete')}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {/* ═══ Save current ═══ */}
+          <form
+            className="flex items-center gap-1 px-2 py-2 border-t border-border/50"
+            onSubmit={e => { e.preventDefault(); handleSave(); }}
+          >
+            <input
+              value={name}
+              onChange={e => setName(e.target.value)}
+              disabled={!isDashboard}
+              placeholder={isDashboard ? t('views.namePlaceholder') : t('views.dashboardOnly')}
+              className="flex-1 min-w-0 h-7 px-2 rounded bg-muted/30 border border-border/40 text-xs font-mono focus:outline-none focus:border-primary/50 disabled:opacity-50"
+            />
+            <button
+              type="submit"
+              disabled={!isDashboard || !name.trim()}
+              className="p-1.5 rounded border border-border/50 hover:bg-muted/50 transition-colors disabled:opacity-40 cursor-pointer"
+              title={t('views.save')}
+            >
+              <Plus className="h-3.5 w-3.5" />
+            </button>
+          </form>
+
+          {/* ═══ Import / export ═══ */}
+          <div className="flex items-center gap-1 px-2 pb-2">
+            <button
+              onClick={() => downloadText(`views-${fileTimestamp()}.json`, exportViews(views), 'application/json')}
+              disabled={views.length === 0}
+              className="flex-1 flex items-center justify-center gap-1 h-7 rounded border border-border/50 text-xs font-mono hover:bg-muted/50 transition-colors disabled:opacity-40 cursor-pointer"
+            >
+              <Download className="h-3 w-3" /> {t('views.export')}
+            </button>
+            <button
+              onClick={() => fileRef.current?.click()}
+              className="flex-1 flex items-center justify-center gap-1 h-7 rounded border border-border/50 text-xs font-mono hover:bg-muted/50 transition-colors cursor-pointer"
+            >
+              <Upload className="h-3 w-3" /> {t('views.import')}
+            </button>
+            <input
+              ref={fileRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={e => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+
+          {message && (
+            <div className={cn('px-3 pb-2 text-xxs font-mono', message.error ? 'text-red-500' : 'text-muted-foreground')}>
+              {message.text}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
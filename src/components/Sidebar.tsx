@@ -1,16 +1,21 @@
-import { useState, useMemo, useRef, useEffect, useCallback } from 'react';
+import { useState, useMemo, useRef, useEffect, useCallback, memo } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useNavigate } from 'react-router-dom';
 import { AnimatePresence, motion } from 'motion/react';
 import { useVirtualizer } from '@tanstack/react-virtual';
-import { ArrowLeft, Cpu, HardDrive, MemoryStick, Network, BarChart3, ExternalLink, Server, Layers, Search, X, Activity } from 'lucide-react';
+import { ArrowLeft, Cpu, HardDrive, MemoryStick, Network, BarChart3, ExternalLink, Server, Layers, Activity } from 'lucide-react';
 import type { NodeWithStatus } from '@/services/api';
 import { Progress } from '@/components/ui/progress';
 import { Button } from '@/components/ui/button';
 import { cn, extractRegionEmoji, formatSpeed, formatBytes, formatUptime, getUsageStatus, calcTrafficUsage, formatTrafficType } from '@/lib/utils';
 import type { TrafficLimitType } from '@/lib/utils';
 import { useAppConfig } from '@/hooks/useAppConfig';
+import { useLiveNode, useLiveNodes, liveSnapshot } from '@/hooks/useNodeStatus';
+import { sameNodeMeta } from '@/lib/status-store';
 import { Tooltip, TooltipTrigger, TooltipContent } from '@/components/ui/tooltip';
+import { CompareCheckbox } from '@/components/CompareBar';
+import { NodeSearchInput } from '@/components/NodeSearchInput';
+import { parseNodeQuery, matchesNodeQuery } from '@/lib/node-query';
 import prettyBytes from 'pretty-bytes';
 
 interface SidebarProps {
@@ -31,8 +36,15 @@ const statusColorMap: Record<'normal' | 'warning' | 'critical', string> = {
 // ── Threshold: switch to virtualizer when node count exceeds this ──
 const VIRTUALIZE_THRESHOLD = 200;
 
+/** Busiest first, on the live traffic of each node rather than the list snapshot */
+const byActivity = (a: NodeWithStatus, b: NodeWithStatus) => {
+  const aStats = liveSnapshot(a).stats;
+  const bStats = liveSnapshot(b).stats;
+  return ((bStats?.network.up ?? 0) + (bStats?.network.down ?? 0)) - ((aStats?.network.up ?? 0) + (aStats?.network.down ?? 0));
+};
+
 // ── Extracted node row content (shared by both plain and virtualized modes) ──
-function NodeRowContent({
+const NodeRowContent = memo(function NodeRowContent({
   node,
   isSelected,
   onSelectNode,
@@ -42,8 +54,8 @@ function NodeRowContent({
   onSelectNode: (uuid: string) => void;
 }) {
   const { t } = useTranslation();
-  const isOnline = node.status === 'online';
-  const stats = node.stats;
+  const { status, stats } = useLiveNode(node);
+  const isOnline = status === 'online';
   const cpuUsage = stats?.cpu?.usage ?? 0;
   const ramUsage = stats ? (stats.ram.used / stats.ram.total) * 100 : 0;
   const emoji = extractRegionEmoji(node.region);
@@ -86,6 +98,7 @@ function NodeRowContent({
         {emoji && (
           <span className="text-sm flex-shrink-0">{emoji}</span>
         )}
+        <CompareCheckbox uuid={node.uuid} />
       </div>
       {/* Tags row — show max 2 tags + overflow count */}
       <div className="flex items-center gap-1.5 mt-1 ml-3.5 overflow-hidden">
@@ -141,7 +154,10 @@ function NodeRowContent({
       <div className="sidebar-node-scanline" />
     </button>
   );
-}
+}, (prev, next) =>
+  prev.isSelected === next.isSelected &&
+  prev.onSelectNode === next.onSelectNode &&
+  sameNodeMeta(prev.node, next.node));
 
 function NodeListView({
   nodes,
@@ -156,6 +172,7 @@ function NodeListView({
 }) {
   const { t } = useTranslation();
   const [searchQuery, setSearchQuery] = useState('');
+  const query = useMemo(() => parseNodeQuery(searchQuery), [searchQuery]);
   const [sortByActive, _setSortByActive] = useState(() => {
     const saved = localStorage.getItem('globeSortByActive');
     return saved === null ? true : saved === 'true';
@@ -185,11 +202,7 @@ function NodeListView({
     const getOrder = () => {
       const items = [...nodes];
       if (effectiveSortByActive) {
-        items.sort((a, b) => {
-          const aActivity = (a.stats?.network.up ?? 0) + (a.stats?.network.down ?? 0);
-          const bActivity = (b.stats?.network.up ?? 0) + (b.stats?.network.down ?? 0);
-          return bActivity - aActivity;
-        });
+        items.sort(byActivity);
       } else {
         items.sort((a, b) => (a.weight ?? 0) - (b.weight ?? 0));
       }
@@ -211,11 +224,7 @@ function NodeListView({
     
     const interval = setInterval(() => {
       const newOrder = [...nodesRef.current]
-        .sort((a, b) => {
-          const aActivity = (a.stats?.network.up ?? 0) + (a.stats?.network.down ?? 0);
-          const bActivity = (b.stats?.network.up ?? 0) + (b.stats?.network.down ?? 0);
-          return bActivity - aActivity;
-        })
+        .sort(byActivity)
         .map(n => n.uuid);
       setStableOrder(newOrder);
     }, 10000);
@@ -223,6 +232,9 @@ function NodeListView({
     return () => clearInterval(interval);
   }, [effectiveSortByActive]);
 
+  // Metric terms need live stats; `nodes` only changes on membership/status
+  const liveNodes = useLiveNodes(nodes, !query.empty);
+
   const sortedAndFiltered = useMemo(() => {
     const nodeMap = new Map(nodes.map(n => [n.uuid, n]));
     
@@ -244,14 +256,11 @@ function NodeListView({
       }
     });
 
-    if (!searchQuery) return result;
-    const q = searchQuery.toLowerCase();
-    return result.filter(n =>
-      n.name.toLowerCase().includes(q)
-      || n.region?.toLowerCase().includes(q)
-      || n.group?.toLowerCase().includes(q)
-    );
-  }, [nodes, searchQuery, stableOrder]);
+    if (query.empty) return result;
+    const now = Date.now();
+    const liveMap = new Map(liveNodes.map(n => [n.uuid, n]));
+    return result.filter(n => matchesNodeQuery(query, liveMap.get(n.uuid) ?? n, now));
+  }, [nodes, liveNodes, query, stableOrder]);
 
   const onlineCount = nodes.filter(n => n.status === 'online').length;
 
@@ -349,24 +358,13 @@ function NodeListView({
           </div>
         </button>
         )}
-        <div className="relative">
-          <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-3 w-3 text-muted-foreground/40" />
-          <input
-            type="text"
-            value={searchQuery}
-            onChange={e => setSearchQuery(e.target.value)}
-            placeholder={t('placeholder.filterNodes')}
-            className="w-full h-7 pl-7 pr-7 text-xs font-mono bg-muted/15 border border-border/20 rounded placeholder:text-muted-foreground/25 focus:outline-none focus:border-primary/40 focus:ring-1 focus:ring-primary/20 transition-colors"
-          />
-          {searchQuery && (
-            <button
-              onClick={() => setSearchQuery('')}
-              className="absolute right-1.5 top-1/2 -translate-y-1/2 p-0.5 rounded hover:bg-muted/50 cursor-pointer"
-            >
-              <X className="h-3 w-3 text-muted-foreground/40" />
-            </button>
-          )}
-        </div>
+        <NodeSearchInput
+          value={searchQuery}
+          onChange={setSearchQuery}
+          nodes={nodes}
+          placeholder={t('placeholder.filterNodes')}
+          inputClassName="w-full h-7 pl-7 pr-7 text-xs font-mono bg-muted/15 border border-border/20 rounded placeholder:text-muted-foreground/25 focus:outline-none focus:border-primary/40 focus:ring-1 focus:ring-primary/20 transition-colors"
+        />
         {searchQuery && (
           <div className="text-xxs font-mono text-muted-foreground/50 mt-1 px-1">
             {sortedAndFiltered.length} / {nodes.length} {t('filter.matched')}
@@ -499,8 +497,8 @@ function NodeDetailView({
 }) {
   const navigate = useNavigate();
   const { t } = useTranslation();
-  const stats = node.stats;
-  const isOnline = node.status === 'online';
+  const { stats, status } = useLiveNode(node);
+  const isOnline = status === 'online';
   const { isLoggedIn } = useAppConfig();
 
   const cpuUsage = stats?.cpu?.usage ?? 0;
@@ -853,10 +851,10 @@ export function Sidebar({ nodes, loading, selectedNodeId, onSelectNode, onViewCh
     }
   }, [selectedNodeId]);
 
-  const handleSelectNode = (uuid: string) => {
+  const handleSelectNode = useCallback((uuid: string) => {
     onSelectNode(uuid);
     setView('detail');
-  };
+  }, [onSelectNode]);
 
   const handleBack = () => {
     setView('list');
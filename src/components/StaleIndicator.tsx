@@ -0,0 +1,46 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { History } from 'lucide-react';
+import dayjs from 'dayjs';
+import { wsService } from '../services/api';
+import { formatUptime, cn } from '@/lib/utils';
+
+/** Live data older than this is flagged as stale */
+const STALE_AFTER_MS = 15_000;
+
+function formatAge(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  return formatUptime(seconds, 'minute');
+}
+
+export function StaleIndicator({ className }: { className?: string }) {
+  const { t } = useTranslation();
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const updatedAt = wsService.lastUpdatedAt;
+  const fromCache = wsService.isFromCache;
+  if (updatedAt === null) return null;
+
+  const age = now - updatedAt;
+  if (!fromCache && age < STALE_AFTER_MS) return null;
+
+  return (
+    <div
+      className={cn(
+        'flex items-center gap-1.5 px-2 py-0.5 rounded bg-yellow-500/10 border border-yellow-500/20 text-xs font-mono text-yellow-500 shrink-0',
+        className,
+      )}
+      title={t('ws.staleHint', { time: dayjs(updatedAt).format('YYYY-MM-DD HH:mm:ss') })}
+    >
+      <History className="h-3 w-3" />
+      <span className="uppercase">{fromCache ? t('ws.cached') : t('ws.stale')}</span>
+      <span className="tabular-nums">{formatAge(age)}</span>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import { useState, useRef, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { CalendarRange, Undo2, ZoomOut } from 'lucide-react';
+import { clampWindow, formatWindow, fromDateTimeLocal, toDateTimeLocal, type TimeWindow } from '@/lib/time-window';
+import { cn } from '@/lib/utils';
+
+const inputClass = 'h-7 w-full px-2 rounded bg-muted/30 border border-border/40 text-xs font-mono focus:outline-none focus:border-primary/50';
+
+/**
+ * "Custom" range button with a from/to popover. Both ends are limited to the
+ * last `maxHours` (the server's retention) and to now.
+ */
+export function CustomRangePicker({
+  value,
+  maxHours,
+  onApply,
+  buttonClassName,
+}: {
+  value: TimeWindow | null;
+  maxHours: number;
+  onApply: (window: TimeWindow) => void;
+  buttonClassName?: string;
+}) {
+  const { t } = useTranslation();
+  const [open, setOpen] = useState(false);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  // Close on outside click
+  useEffect(() => {
+    if (!open) return;
+    const handler = (e: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handler);
+    return () => document.removeEventListener('mousedown', handler);
+  }, [open]);
+
+  const now = Date.now();
+  const min = now - maxHours * 3600_000;
+
+  const toggle = () => {
+    if (!open) {
+      // Start from the applied window, or the last hour
+      setFrom(toDateTimeLocal(value?.from ?? now - 3600_000));
+      setTo(toDateTimeLocal(value?.to ?? now));
+    }
+    setOpen(o => !o);
+  };
+
+  const fromMs = fromDateTimeLocal(from);
+  const toMs = fromDateTimeLocal(to);
+  const picked = fromMs !== null && toMs !== null ? clampWindow({ from: fromMs, to: toMs }, maxHours, now) : null;
+  const clamped = picked !== null && (picked.from !== fromMs || picked.to !== toMs);
+
+  return (
+    <div className="relative" ref={panelRef}>
+      <button
+        onClick={toggle}
+        className={cn('flex items-center gap-1', buttonClassName)}
+        title={value ? formatWindow(value) : t('timeRange.custom')}
+      >
+        <CalendarRange className="h-3 w-3" />
+        {t('timeRange.custom')}
+      </button>
+
+      {open && (
+        <div className="absolute top-full right-0 mt-1 z-50 w-64 p-3 space-y-2 rounded-md border border-border/50 bg-popover backdrop-blur-none shadow-lg commander-dropdown">
+          <label className="block space-y-1">
+            <span className="text-xxs font-mono uppercase tracking-wider text-muted-foreground">{t('timeRange.from')}</span>
+            <input type="datetime-local" className={inputClass} value={from} min={toDateTimeLocal(min)} max={toDateTimeLocal(now)} onChange={e => setFrom(e.target.value)} />
+          </label>
+          <label className="block space-y-1">
+            <span className="text-xxs font-mono uppercase tracking-wider text-muted-foreground">{t('timeRange.to')}</span>
+            <input type="datetime-local" className={inputClass} value={to} min={toDateTimeLocal(min)} max={toDateTimeLocal(now)} onChange={e => setTo(e.target.value)} />
+          </label>
+          <div className="text-xxs font-mono text-muted-foreground/70">
+            {picked === null
+              ? <span className="text-red-500">{t('timeRange.invalid')}</span>
+              : clamped
+                ? t('timeRange.clamped', { hours: maxHours })
+                : t('timeRange.retention', { hours: maxHours })}
+          </div>
+          <button
+            onClick={() => { if (picked) { onApply(picked); setOpen(false); } }}
+            disabled={!picked}
+            className="w-full h-7 rounded bg-primary text-primary-foreground text-xs font-mono font-bold disabled:opacity-40 cursor-pointer"
+          >
+            {t('timeRange.apply')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Current zoom window with undo/reset, or a drag hint when not zoomed */
+export function ZoomControls({
+  zoom,
+  depth,
+  onUndo,
+  onReset,
+  hint,
+}: {
+  zoom: TimeWindow | null;
+  depth: number;
+  onUndo: () => void;
+  onReset: () => void;
+  /** Replaces the default drag hint */
+  hint?: string;
+}) {
+  const { t } = useTranslation();
+  if (!zoom) {
+    return <span className="text-xxs font-mono text-muted-foreground/50 hidden sm:inline">{hint ?? t('timeRange.dragHint')}</span>;
+  }
+  return (
+    <div className="flex items-center gap-1 text-xxs font-mono">
+      <span className="px-1.5 py-0.5 rounded-sm bg-primary/10 text-primary tabular-nums">
+        {t('timeRange.zoomed')} {formatWindow(zoom)}{depth > 1 && ` ×${depth}`}
+      </span>
+      <button onClick={onUndo} className="p-1 rounded text-muted-foreground hover:text-primary hover:bg-muted/30 transition-colors cursor-pointer" title={t('timeRange.undoZoom')}>
+        <Undo2 className="h-3 w-3" />
+      </button>
+      <button onClick={onReset} className="p-1 rounded text-muted-foreground hover:text-primary hover:bg-muted/30 transition-colors cursor-pointer" title={t('timeRange.resetZoom')}>
+        <ZoomOut className="h-3 w-3" />
+      </button>
+    </div>
+  );
+}
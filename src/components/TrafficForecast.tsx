@@ -0,0 +1,62 @@
+import { useTranslation } from 'react-i18next';
+import dayjs from 'dayjs';
+import { TrendingUp } from 'lucide-react';
+import type { NodeData, NodeStats } from '@/services/api';
+import { useTrafficForecast } from '@/hooks/useTrafficForecast';
+import { cn, formatBytes } from '@/lib/utils';
+import { Tooltip, TooltipTrigger, TooltipContent } from './ui/tooltip';
+
+/** Projected quota usage at cycle end; `detailed` adds rate and dates inline */
+export function TrafficForecast({
+  node,
+  stats,
+  detailed,
+  className,
+}: {
+  node: NodeData;
+  stats: NodeStats | undefined;
+  detailed?: boolean;
+  className?: string;
+}) {
+  const { t } = useTranslation();
+  const forecast = useTrafficForecast(node, stats);
+  if (!forecast) return null;
+
+  const pct = forecast.projectedPct;
+  const tone = forecast.overage > 0 ? 'text-red-500' : pct >= 90 ? 'text-yellow-500' : 'text-muted-foreground';
+  const perDay = formatBytes(forecast.rate * 86400);
+  const cycleEnd = dayjs(forecast.cycleEnd).format('MM-DD');
+  const exhaust = forecast.exhaustAt !== null ? dayjs(forecast.exhaustAt).format('MM-DD HH:mm') : null;
+
+  const details = [
+    t('forecast.projected', { value: formatBytes(forecast.projected), pct: pct.toFixed(0), date: cycleEnd }),
+    t('forecast.rate', { value: perDay }) + (forecast.rateSource === 'cycle' ? ` (${t('forecast.cycleAverage')})` : ''),
+    exhaust ? t('forecast.exhaustAt', { date: exhaust }) : null,
+    forecast.overage > 0 ? t('forecast.overage', { value: formatBytes(forecast.overage) }) : null,
+  ].filter(Boolean);
+
+  if (detailed) {
+    return (
+      <div className={cn('flex flex-wrap items-center gap-x-3 gap-y-0.5 text-xxs font-mono', tone, className)}>
+        <TrendingUp className="h-3 w-3" />
+        {details.map((line, i) => <span key={i}>{line}</span>)}
+      </div>
+    );
+  }
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span className={cn('inline-flex items-center gap-1 text-xxs font-mono tabular-nums cursor-default', tone, className)}>
+          <TrendingUp className="h-3 w-3" />
+          {exhaust && forecast.overage > 0
+            ? t('forecast.runsOut', { date: dayjs(forecast.exhaustAt!).format('MM-DD') })
+            : `${pct.toFixed(0)}% @ ${cycleEnd}`}
+        </span>
+      </TooltipTrigger>
+      <TooltipContent side="bottom" className="text-xs font-mono whitespace-pre-line">
+        {details.join('\n')}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
@@ -3,10 +3,12 @@ import { useTranslation } from 'react-i18next';
 import { useNavigate } from 'react-router-dom';
 import { Shield, ShieldCheck, ShieldX, RefreshCw, ChevronRight } from 'lucide-react';
 import { HudSpinner } from './HudSpinner';
+import { ExportMenu } from './ExportMenu';
 import { apiService } from '@/services/api';
 import type { NodeWithStatus } from '@/services/api';
 import { cn } from '@/lib/utils';
 import { useAppConfig } from '@/hooks/useAppConfig';
+import { toCsv, toRecords, downloadText, fileTimestamp, formatExportTime, type CsvColumn, type ExportTimeZone } from '@/lib/export';
 import {
   computeUptime,
   mergeRecords,
@@ -338,6 +340,59 @@ function LazyNodeRow({ node, rangeHours, onNavigate, onResult, forceKey }: LazyN
   );
 }
 
+/* ══════════════════════════════════════════════════════════════
+   Export — summaries for every node, including rows not yet scrolled into view
+   ══════════════════════════════════════════════════════════════ */
+async function uptimeFor(node: NodeWithStatus, rangeHours: number): Promise<UptimeResult> {
+  const cached = _cache?.rangeHours === rangeHours ? _cache.nodes.get(node.uuid) : undefined;
+  if (cached) return cached.result;
+  const data = await apiService.getLoadHistory(node.uuid, rangeHours);
+  const records = (data?.records ?? []) as unknown as LoadRecord[];
+  const result = computeUptime(records, rangeHours);
+  if (!_cache || _cache.rangeHours !== rangeHours) _cache = { nodes: new Map(), rangeHours };
+  _cache.nodes.set(node.uuid, { records, result, fetchedAt: Date.now() });
+  return result;
+}
+
+interface UptimeExportRow {
+  node: NodeWithStatus;
+  result: UptimeResult;
+}
+
+function uptimeColumns(rangeHours: number): CsvColumn<UptimeExportRow>[] {
+  return [
+    { header: 'uuid', value: r => r.node.uuid },
+    { header: 'name', value: r => r.node.name },
+    { header: 'group', value: r => r.node.group },
+    { header: 'region', value: r => r.node.region },
+    { header: 'range_hours', value: () => rangeHours },
+    { header: 'uptime_percent', value: r => Number(r.result.uptimePercent.toFixed(3)) },
+    { header: 'online_slots', value: r => r.result.onlineSlots },
+    { header: 'offline_slots', value: r => r.result.offlineSlots },
+    { header: 'total_slots', value: r => r.result.totalSlots },
+  ];
+}
+
+async function exportUptime(nodes: NodeWithStatus[], rangeHours: number, format: 'csv' | 'json', tz: ExportTimeZone) {
+  const rows: UptimeExportRow[] = [];
+  // Sequential so a large fleet does not fire one history request per node at once
+  for (const node of nodes) rows.push({ node, result: await uptimeFor(node, rangeHours) });
+  const columns = uptimeColumns(rangeHours);
+  const name = `uptime-${rangeHours}h-${fileTimestamp()}`;
+  if (format === 'csv') {
+    downloadText(`${name}.csv`, toCsv(rows, columns), 'text/csv;charset=utf-8');
+    return;
+  }
+  // JSON additionally carries the per-slot timeline
+  const records = toRecords(rows, columns).map((record, i) => ({
+    ...record,
+    slots: rows[i].result.slots
+      .filter(slot => slot.status !== 'unknown')
+      .map(slot => ({ start: formatExportTime(slot.start, tz), end: formatExportTime(slot.end, tz), status: slot.status })),
+  }));
+  downloadText(`${name}.json`, JSON.stringify(records, null, 2), 'application/json');
+}
+
 /* ══════════════════════════════════════════════════════════════
    UptimeView — main exported component
    ══════════════════════════════════════════════════════════════ */
@@ -454,6 +509,13 @@ export function UptimeView({ nodes }: UptimeViewProps) {
             ))}
           </div>
 
+          <ExportMenu
+            actions={[
+              { label: t('export.uptimeCsv'), onSelect: tz => exportUptime(sortedNodes, range.hours, 'csv', tz) },
+              { label: t('export.uptimeJson'), onSelect: tz => exportUptime(sortedNodes, range.hours, 'json', tz) },
+            ]}
+          />
+
           {/* Refresh */}
           <button
             onClick={handleRefresh}
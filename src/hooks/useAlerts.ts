@@ -0,0 +1,168 @@
+import { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef, type ReactNode } from 'react';
+import { createElement } from 'react';
+import type { NodeWithStatus } from '@/services/api';
+import { useLiveNodes } from './useNodeStatus';
+import {
+  DEFAULT_ALERT_RULES,
+  evaluateAlerts,
+  type AlertRule,
+  type AlertState,
+  type AlertTransition,
+} from '@/lib/alert-rules';
+
+export interface ActiveAlert extends AlertState {
+  rule: AlertRule;
+  node: NodeWithStatus;
+}
+
+interface AlertsContextType {
+  rules: AlertRule[];
+  /** Pending and firing alerts, firing first */
+  alerts: ActiveAlert[];
+  /** Firing alerts only */
+  firing: ActiveAlert[];
+  /** Insert or replace a rule by id */
+  saveRule: (rule: AlertRule) => void;
+  removeRule: (id: string) => void;
+  resetRules: () => void;
+  /** Listen for firing/resolved transitions; returns an unsubscribe function */
+  subscribeTransitions: (listener: (transitions: AlertTransition[]) => void) => () => void;
+}
+
+const AlertsContext = createContext<AlertsContextType>({
+  rules: [],
+  alerts: [],
+  firing: [],
+  saveRule: () => {},
+  removeRule: () => {},
+  resetRules: () => {},
+  subscribeTransitions: () => () => {},
+});
+
+export function useAlerts() {
+  return useContext(AlertsContext);
+}
+
+const STORAGE_KEY = 'alertRules';
+const EVALUATE_INTERVAL = 5_000; // re-check "for" durations between status updates
+
+function loadRules(): AlertRule[] {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (Array.isArray(parsed)) return parsed as AlertRule[];
+    }
+  } catch {
+    // Corrupt storage — fall back to defaults
+  }
+  return DEFAULT_ALERT_RULES;
+}
+
+export function AlertsProvider({
+  nodes,
+  children,
+}: {
+  nodes: NodeWithStatus[];
+  children: ReactNode;
+}) {
+  // Rules compare live stats, so evaluation follows every store update
+  const liveNodes = useLiveNodes(nodes);
+  const [rules, setRules] = useState<AlertRule[]>(loadRules);
+  const [states, setStates] = useState<Map<string, AlertState>>(new Map());
+  const statesRef = useRef<Map<string, AlertState>>(new Map());
+  const offlineSinceRef = useRef<Map<string, number>>(new Map());
+  const nodesRef = useRef(liveNodes);
+  const listenersRef = useRef(new Set<(transitions: AlertTransition[]) => void>());
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+  }, [rules]);
+
+  const evaluate = useCallback(() => {
+    const now = Date.now();
+    const offlineSince = offlineSinceRef.current;
+    // Nodes default to offline until their first status report, and cached status
+    // is only a placeholder — don't judge them before the first live report
+    const reported = nodesRef.current.filter(node => node.stats !== undefined && !node.cached);
+
+    // Track when each node went offline; nodes already offline at load use their last report time
+    for (const node of reported) {
+      if (node.status === 'online') {
+        offlineSince.delete(node.uuid);
+      } else if (!offlineSince.has(node.uuid)) {
+        const lastSeen = node.stats?.updated_at ? new Date(node.stats.updated_at).getTime() : NaN;
+        offlineSince.set(node.uuid, isNaN(lastSeen) ? now : Math.min(lastSeen, now));
+      }
+    }
+
+    const result = evaluateAlerts(rules, reported, statesRef.current, offlineSince, now);
+    statesRef.current = result.states;
+    setStates(result.states);
+
+    if (result.transitions.length > 0) {
+      listenersRef.current.forEach(listener => listener(result.transitions));
+    }
+  }, [rules]);
+
+  // Evaluate on every status change and on a timer for sustained conditions
+  useEffect(() => {
+    nodesRef.current = liveNodes;
+    evaluate();
+  }, [liveNodes, evaluate]);
+
+  useEffect(() => {
+    const timer = setInterval(evaluate, EVALUATE_INTERVAL);
+    return () => clearInterval(timer);
+  }, [evaluate]);
+
+  const saveRule = useCallback((rule: AlertRule) => {
+    setRules(prev => {
+      const idx = prev.findIndex(r => r.id === rule.id);
+      if (idx === -1) return [...prev, rule];
+      const next = [...prev];
+      next[idx] = rule;
+      return next;
+    });
+  }, []);
+
+  const removeRule = useCallback((id: string) => {
+    setRules(prev => prev.filter(r => r.id !== id));
+  }, []);
+
+  const resetRules = useCallback(() => {
+    setRules(DEFAULT_ALERT_RULES);
+  }, []);
+
+  const subscribeTransitions = useCallback((listener: (transitions: AlertTransition[]) => void) => {
+    listenersRef.current.add(listener);
+    return () => {
+      listenersRef.current.delete(listener);
+    };
+  }, []);
+
+  const alerts = useMemo(() => {
+    const ruleById = new Map(rules.map(r => [r.id, r]));
+    const nodeByUuid = new Map(nodes.map(n => [n.uuid, n]));
+    const list: ActiveAlert[] = [];
+    for (const state of states.values()) {
+      const rule = ruleById.get(state.ruleId);
+      const node = nodeByUuid.get(state.uuid);
+      if (rule && node) list.push({ ...state, rule, node });
+    }
+    return list.sort((a, b) =>
+      (a.phase === b.phase ? 0 : a.phase === 'firing' ? -1 : 1) ||
+      (a.rule.severity === b.rule.severity ? 0 : a.rule.severity === 'critical' ? -1 : 1) ||
+      a.since - b.since
+    );
+  }, [states, rules, nodes]);
+
+  const firing = useMemo(() => alerts.filter(a => a.phase === 'firing'), [alerts]);
+
+  const value = useMemo(
+    () => ({ rules, alerts, firing, saveRule, removeRule, resetRules, subscribeTransitions }),
+    [rules, alerts, firing, saveRule, removeRule, resetRules, subscribeTransitions],
+  );
+
+  return createElement(AlertsContext.Provider, { value }, children);
+}
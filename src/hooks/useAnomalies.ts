@@ -0,0 +1,78 @@
+import { createContext, useContext, useState, useEffect, useMemo, type ReactNode } from 'react';
+import { createElement } from 'react';
+import { apiService } from '@/services/api';
+import type { NodeWithStatus } from '@/services/api';
+import { transformLoadRecords, processPingRecords, type LoadRecord, type PingRecord } from '@/lib/chart-utils';
+import { anomalyRegions, LOAD_ANOMALY_METRICS, pingAnomalyMetrics } from '@/lib/anomaly';
+import { mapLimit } from '@/lib/fleet';
+import { useTableColumns } from './useTableColumns';
+
+/** Anomaly count per node over the last day; missing while loading, null when history failed */
+const AnomalyCountsContext = createContext<Record<string, number | null>>({});
+
+const COUNT_WINDOW_HOURS = 24;
+const REFRESH_INTERVAL = 15 * 60_000;
+const FETCH_CONCURRENCY = 3;
+
+async function countAnomalies(uuid: string): Promise<number | null> {
+  const [load, ping] = await Promise.all([
+    apiService.getLoadHistory(uuid, COUNT_WINDOW_HOURS).catch(() => null),
+    apiService.getPingHistory(uuid, COUNT_WINDOW_HOURS).catch(() => null),
+  ]);
+  if (!load) return null;
+  const byTime = (a: { time: string }, b: { time: string }) => new Date(a.time).getTime() - new Date(b.time).getTime();
+
+  const loadRows = transformLoadRecords(((load.records || []) as LoadRecord[]).slice().sort(byTime));
+  let count = anomalyRegions(loadRows, LOAD_ANOMALY_METRICS).length;
+
+  const tasks = ping?.tasks || [];
+  if (tasks.length) {
+    const pingRows = processPingRecords(((ping?.records || []) as PingRecord[]).slice().sort(byTime), tasks, COUNT_WINDOW_HOURS);
+    count += anomalyRegions(pingRows, pingAnomalyMetrics(tasks)).length;
+  }
+  return count;
+}
+
+/**
+ * Fetches a day of history per node for the NodeTable "anomalies" column.
+ * Nothing is fetched while that column is hidden.
+ */
+export function AnomalyCountsProvider({
+  nodes,
+  children,
+}: {
+  nodes: NodeWithStatus[];
+  children: ReactNode;
+}) {
+  const { columns } = useTableColumns();
+  const enabled = !columns.hidden.includes('anomalies');
+  const [counts, setCounts] = useState<Record<string, number | null>>({});
+
+  const uuidKey = useMemo(() => nodes.map(n => n.uuid).sort().join(','), [nodes]);
+
+  useEffect(() => {
+    if (!enabled || !uuidKey) return;
+    const uuids = uuidKey.split(',');
+    let cancelled = false;
+
+    const refresh = () => {
+      mapLimit(uuids, FETCH_CONCURRENCY, async uuid => [uuid, await countAnomalies(uuid)] as const)
+        .then(result => {
+          if (!cancelled) setCounts(Object.fromEntries(result));
+        });
+    };
+
+    refresh();
+    const timer = setInterval(refresh, REFRESH_INTERVAL);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [enabled, uuidKey]);
+
+  return createElement(AnomalyCountsContext.Provider, { value: counts }, children);
+}
+
+export function useAnomalyCounts() {
+  return useContext(AnomalyCountsContext);
+}
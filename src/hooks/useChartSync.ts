@@ -0,0 +1,39 @@
+import { useState, useEffect, useId, useCallback } from 'react';
+import { syncByTime } from '@/lib/chart-sync';
+
+/**
+ * Shared crosshair for every chart on a page. Spread `syncProps` onto each
+ * Recharts chart so hovering one shows the tooltip at the same moment on the
+ * others; `togglePin` freezes a moment for side-by-side comparison. Charts
+ * without their own click handling can spread `pinProps` to pin on click.
+ * The pin is dropped whenever `resetKey` changes.
+ */
+export function useChartSync(resetKey: unknown) {
+  const syncId = useId();
+  const [pinned, setPinned] = useState<number | null>(null);
+
+  useEffect(() => { setPinned(null); }, [resetKey]);
+
+  const togglePin = useCallback((label: string) => {
+    const time = new Date(label).getTime();
+    if (Number.isNaN(time)) return;
+    setPinned(prev => (prev === time ? null : time));
+  }, []);
+
+  const clearPin = useCallback(() => setPinned(null), []);
+
+  const pinProps = {
+    onClick: (state: { activeLabel?: string } | null) => {
+      if (state?.activeLabel) togglePin(state.activeLabel);
+    },
+  };
+
+  return {
+    syncProps: { syncId, syncMethod: syncByTime },
+    pinProps,
+    /** Pinned moment (epoch ms), null when not pinned */
+    pinned,
+    togglePin,
+    clearPin,
+  };
+}
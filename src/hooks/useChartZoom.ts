@@ -0,0 +1,59 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { TimeWindow } from '@/lib/time-window';
+
+/** Chart state fields the zoom handlers read; Recharts passes more */
+interface ChartPointerState {
+  activeLabel?: string;
+}
+
+/**
+ * Drag-to-zoom shared by every chart on a page. Spread `chartProps` onto each
+ * Recharts chart and draw `dragArea` as a ReferenceArea; each finished drag
+ * pushes a narrower window, `undo` pops one and `reset` clears the stack.
+ * The stack is dropped whenever `resetKey` changes (e.g. a new time range).
+ * A press released without dragging is reported to `onPoint` instead.
+ */
+export function useChartZoom(resetKey: unknown, onPoint?: (label: string) => void) {
+  const [stack, setStack] = useState<TimeWindow[]>([]);
+  const [drag, setDrag] = useState<{ start: string; end: string } | null>(null);
+
+  useEffect(() => {
+    setStack([]);
+    setDrag(null);
+  }, [resetKey]);
+
+  const undo = useCallback(() => setStack(prev => prev.slice(0, -1)), []);
+  const reset = useCallback(() => setStack([]), []);
+
+  const chartProps = {
+    onMouseDown: (state: ChartPointerState | null) => {
+      if (state?.activeLabel) setDrag({ start: state.activeLabel, end: state.activeLabel });
+    },
+    onMouseMove: (state: ChartPointerState | null) => {
+      const label = state?.activeLabel;
+      if (drag && label && label !== drag.end) setDrag({ ...drag, end: label });
+    },
+    onMouseUp: () => {
+      if (drag && drag.start !== drag.end) {
+        const a = new Date(drag.start).getTime();
+        const b = new Date(drag.end).getTime();
+        setStack(prev => [...prev, { from: Math.min(a, b), to: Math.max(a, b) }]);
+      } else if (drag) {
+        onPoint?.(drag.start);
+      }
+      setDrag(null);
+    },
+    onMouseLeave: () => setDrag(null),
+  };
+
+  return {
+    /** Innermost zoom window, null when not zoomed */
+    zoom: stack.length ? stack[stack.length - 1] : null,
+    depth: stack.length,
+    undo,
+    reset,
+    chartProps,
+    /** Category labels of the selection being dragged */
+    dragArea: drag && drag.start !== drag.end ? drag : null,
+  };
+}
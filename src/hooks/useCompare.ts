@@ -0,0 +1,49 @@
+import { createContext, useContext, useState, useCallback, useMemo, type ReactNode } from 'react';
+import { createElement } from 'react';
+import { MAX_COMPARE } from '@/lib/compare';
+
+interface CompareContextType {
+  /** Node uuids picked for comparison, in pick order */
+  selected: string[];
+  isSelected: (uuid: string) => boolean;
+  /** Add or remove a node; adding is ignored once MAX_COMPARE is reached */
+  toggle: (uuid: string) => void;
+  setSelected: (uuids: string[]) => void;
+  clear: () => void;
+}
+
+const CompareContext = createContext<CompareContextType>({
+  selected: [],
+  isSelected: () => false,
+  toggle: () => {},
+  setSelected: () => {},
+  clear: () => {},
+});
+
+export function useCompare() {
+  return useContext(CompareContext);
+}
+
+export function CompareProvider({ children }: { children: ReactNode }) {
+  const [selected, _setSelected] = useState<string[]>([]);
+
+  const toggle = useCallback((uuid: string) => {
+    _setSelected(prev => {
+      if (prev.includes(uuid)) return prev.filter(u => u !== uuid);
+      return prev.length >= MAX_COMPARE ? prev : [...prev, uuid];
+    });
+  }, []);
+
+  const setSelected = useCallback((uuids: string[]) => {
+    _setSelected(Array.from(new Set(uuids)).slice(0, MAX_COMPARE));
+  }, []);
+
+  const clear = useCallback(() => _setSelected([]), []);
+
+  const value = useMemo(() => {
+    const set = new Set(selected);
+    return { selected, isSelected: (uuid: string) => set.has(uuid), toggle, setSelected, clear };
+  }, [selected, toggle, setSelected, clear]);
+
+  return createElement(CompareContext.Provider, { value }, children);
+}
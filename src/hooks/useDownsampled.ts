@@ -0,0 +1,97 @@
+import { useState, useEffect, useRef } from 'react';
+import {
+  downsampleEnvelope,
+  PIXELS_PER_BUCKET,
+  type SampleRow,
+  type EnvelopeRow,
+  type DownsampleRequest,
+  type DownsampleResponse,
+} from '@/lib/downsample';
+
+/** Bucket count used until the chart has been measured */
+const FALLBACK_BUCKETS = 200;
+
+/**
+ * Width of an element in CSS pixels, kept current with a ResizeObserver.
+ * Returns a callback ref so it also works for elements rendered later.
+ */
+export function useElementWidth<T extends HTMLElement>() {
+  const [node, setNode] = useState<T | null>(null);
+  const [width, setWidth] = useState(0);
+
+  useEffect(() => {
+    if (!node) return;
+    const update = () => setWidth(node.offsetWidth);
+    update();
+    const observer = new ResizeObserver(update);
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [node]);
+
+  return [setNode, width] as const;
+}
+
+/**
+ * Downsample `rows` to about one bucket per few pixels of `width`, off the
+ * main thread. Short series pass through untouched; while the worker is busy
+ * the previous result stays on screen, and until its first result the raw rows
+ * do. If the worker cannot run, reduction falls back to the main thread.
+ */
+export function useDownsampled<T extends SampleRow, K extends keyof T & string>(rows: T[], keys: K[], width: number) {
+  // Round so a resize by a few pixels doesn't redo the work
+  const buckets = width > 0 ? Math.max(10, Math.floor(width / PIXELS_PER_BUCKET / 10) * 10) : FALLBACK_BUCKETS;
+  const reduce = rows.length > buckets;
+  const keyList = keys.join(',');
+
+  const workerRef = useRef<Worker | null>(null);
+  const workerFailedRef = useRef(false);
+  const seqRef = useRef(0);
+  const [result, setResult] = useState<{ rows: T[]; buckets: number; data: EnvelopeRow<T, K>[] } | null>(null);
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  useEffect(() => {
+    if (!reduce) return;
+    const id = ++seqRef.current;
+    const fields = keyList.split(',') as K[];
+
+    const reduceHere = () => setResult({ rows, buckets, data: downsampleEnvelope(rows, fields, buckets) });
+
+    if (typeof Worker === 'undefined' || workerFailedRef.current) {
+      reduceHere();
+      return;
+    }
+
+    if (!workerRef.current) {
+      try {
+        workerRef.current = new Worker(new URL('../lib/downsample.worker.ts', import.meta.url), { type: 'module' });
+      } catch {
+        workerFailedRef.current = true;
+        reduceHere();
+        return;
+      }
+    }
+    const worker = workerRef.current;
+    worker.onmessage = (e: MessageEvent<DownsampleResponse>) => {
+      // A newer request supersedes this one
+      if (e.data.id !== seqRef.current) return;
+      setResult({ rows, buckets, data: e.data.rows as EnvelopeRow<T, K>[] });
+    };
+    // Script failed to load or threw (e.g. CSP blocks workers) — stay on the main thread from now on
+    worker.onerror = (e) => {
+      e.preventDefault();
+      worker.terminate();
+      workerRef.current = null;
+      workerFailedRef.current = true;
+      if (id === seqRef.current) reduceHere();
+    };
+    const request: DownsampleRequest = { id, rows, keys: fields, buckets };
+    worker.postMessage(request);
+  }, [rows, buckets, keyList, reduce]);
+
+  if (!reduce) return { data: rows as EnvelopeRow<T, K>[], reduced: false, pending: false };
+  // Nothing reduced yet — draw the raw rows rather than an empty chart
+  if (!result) return { data: rows as EnvelopeRow<T, K>[], reduced: false, pending: true };
+  const fresh = result.rows === rows && result.buckets === buckets;
+  return { data: result.data, reduced: true, pending: !fresh };
+}
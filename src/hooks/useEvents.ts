@@ -0,0 +1,143 @@
+import { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef, type ReactNode } from 'react';
+import { createElement } from 'react';
+import type { NodeWithStatus } from '@/services/api';
+import { useAlerts } from '@/hooks/useAlerts';
+import { useLiveNodes } from '@/hooks/useNodeStatus';
+import { formatCondition } from '@/lib/alert-rules';
+import {
+  diffNodeEvents,
+  loadEventLog,
+  makeEventId,
+  pruneEvents,
+  saveEventLog,
+  type NodeFlags,
+  type TimelineEvent,
+} from '@/lib/event-log';
+
+interface EventsContextType {
+  /** Recorded events, oldest first */
+  events: TimelineEvent[];
+  /** False until the persisted log has been read */
+  loaded: boolean;
+  clearEvents: () => void;
+}
+
+const EventsContext = createContext<EventsContextType>({
+  events: [],
+  loaded: false,
+  clearEvents: () => {},
+});
+
+export function useEvents() {
+  return useContext(EventsContext);
+}
+
+const PERSIST_DELAY = 2_000;        // batch writes to IndexedDB
+const UPTIME_PERSIST_INTERVAL = 60_000; // uptime-only changes are saved at most this often
+
+export function EventsProvider({
+  nodes: nodeList,
+  children,
+}: {
+  nodes: NodeWithStatus[];
+  children: ReactNode;
+}) {
+  // Quota and reboot detection read live stats, not just the status flips the list carries
+  const nodes = useLiveNodes(nodeList);
+  const { subscribeTransitions } = useAlerts();
+  const [events, setEvents] = useState<TimelineEvent[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const eventsRef = useRef<TimelineEvent[]>([]);
+  const flagsRef = useRef<Record<string, NodeFlags>>({});
+  const persistTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const lastPersistAt = useRef(0);
+
+  const schedulePersist = useCallback(() => {
+    if (persistTimer.current) return;
+    persistTimer.current = setTimeout(() => {
+      persistTimer.current = null;
+      lastPersistAt.current = Date.now();
+      saveEventLog({ events: eventsRef.current, flags: flagsRef.current });
+    }, PERSIST_DELAY);
+  }, []);
+
+  const append = useCallback((added: TimelineEvent[]) => {
+    if (added.length === 0) return;
+    eventsRef.current = pruneEvents([...eventsRef.current, ...added]);
+    setEvents(eventsRef.current);
+  }, []);
+
+  // Restore the persisted log once; live detection waits for it so flags are not lost
+  useEffect(() => {
+    let cancelled = false;
+    loadEventLog().then(data => {
+      if (cancelled) return;
+      eventsRef.current = data.events;
+      flagsRef.current = data.flags;
+      setEvents(data.events);
+      setLoaded(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => () => {
+    if (persistTimer.current) clearTimeout(persistTimer.current);
+  }, []);
+
+  // Node state transitions
+  useEffect(() => {
+    if (!loaded) return;
+    const now = Date.now();
+    const added: TimelineEvent[] = [];
+    let flagsChanged = false;
+
+    for (const node of nodes) {
+      // Snapshot status restored from the offline cache is not a transition
+      if (node.cached) continue;
+      const prev = flagsRef.current[node.uuid];
+      const result = diffNodeEvents(node, prev, now);
+      if (!result) continue;
+      added.push(...result.events);
+      flagsRef.current[node.uuid] = result.flags;
+      if (!prev || prev.status !== result.flags.status ||
+          prev.quota !== result.flags.quota || prev.expiry !== result.flags.expiry) {
+        flagsChanged = true;
+      }
+    }
+
+    append(added);
+    if (added.length > 0 || flagsChanged || now - lastPersistAt.current >= UPTIME_PERSIST_INTERVAL) {
+      schedulePersist();
+    }
+  }, [nodes, loaded, append, schedulePersist]);
+
+  // Alert rule transitions (offline is already recorded from status changes)
+  useEffect(() => subscribeTransitions(transitions => {
+    const added = transitions
+      .filter(tr => tr.rule.metric !== 'offline')
+      .map<TimelineEvent>(tr => ({
+        id: makeEventId(tr.at),
+        time: tr.at,
+        uuid: tr.node.uuid,
+        node: tr.node.name,
+        group: tr.node.group || '',
+        kind: tr.kind === 'firing' ? 'alert' : 'resolved',
+        severity: tr.kind === 'firing' ? tr.rule.severity : 'info',
+        message: `${tr.rule.name} (${formatCondition(tr.rule)})`,
+      }));
+    append(added);
+    if (added.length > 0) schedulePersist();
+  }), [subscribeTransitions, append, schedulePersist]);
+
+  const clearEvents = useCallback(() => {
+    eventsRef.current = [];
+    setEvents([]);
+    schedulePersist();
+  }, [schedulePersist]);
+
+  const value = useMemo(() => ({ events, loaded, clearEvents }), [events, loaded, clearEvents]);
+
+  return createElement(EventsContext.Provider, { value }, children);
+}
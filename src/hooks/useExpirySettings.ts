@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { getExpirySettings, subscribeExpirySettings, type ExpirySettings } from '@/lib/expiry';
+
+/** Current expiry settings; the caller re-renders when they are changed anywhere */
+export function useExpirySettings(): ExpirySettings {
+  return useSyncExternalStore(subscribeExpirySettings, getExpirySettings);
+}
@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import { wsService } from '@/services/api';
+import type { NodeWithStatus } from '@/services/api';
+import type { NodeStatusEntry } from '@/lib/status-store';
+
+/**
+ * Per-node selector over the live status store.
+ * The calling component re-renders only when this node's entry changes.
+ */
+export function useNodeStatus(uuid: string): NodeStatusEntry | undefined {
+  const subscribe = useCallback(
+    (onChange: () => void) => wsService.store.subscribeNode(uuid, onChange),
+    [uuid],
+  );
+  const getSnapshot = useCallback(() => wsService.store.get(uuid), [uuid]);
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
+
+/** Resolve a node's live status/stats, falling back to the values carried on the node */
+export function useLiveNode(node: NodeWithStatus): Pick<NodeWithStatus, 'status' | 'stats'> {
+  const entry = useNodeStatus(node.uuid);
+  return entry ?? node;
+}
+
+/** The node with the store's current status/stats applied (for one-off reads such as exports) */
+export function liveSnapshot(node: NodeWithStatus): NodeWithStatus {
+  const entry = wsService.store.get(node.uuid);
+  if (!entry || (entry.status === node.status && entry.stats === node.stats && entry.cached === node.cached)) return node;
+  return { ...node, status: entry.status, stats: entry.stats, cached: entry.cached };
+}
+
+/**
+ * Whole-list counterpart of `useLiveNode` for views that show or aggregate
+ * live stats across nodes (table, globe, alert rules). Re-renders the caller
+ * on every store update; nodes whose entry did not change keep their identity.
+ * While `enabled` is false the list is returned as-is and nothing is subscribed.
+ */
+export function useLiveNodes(nodes: NodeWithStatus[], enabled = true): NodeWithStatus[] {
+  const [version, setVersion] = useState(0);
+  useEffect(() => {
+    if (!enabled) return;
+    // Catch up on anything missed while disabled
+    setVersion(v => v + 1);
+    return wsService.subscribe(() => setVersion(v => v + 1));
+  }, [enabled]);
+
+  const cache = useRef(new Map<string, { node: NodeWithStatus; entry: NodeStatusEntry | undefined; live: NodeWithStatus }>());
+  return useMemo(() => {
+    if (!enabled) return nodes;
+    const next = new Map<string, { node: NodeWithStatus; entry: NodeStatusEntry | undefined; live: NodeWithStatus }>();
+    const live = nodes.map(node => {
+      const entry = wsService.store.get(node.uuid);
+      const hit = cache.current.get(node.uuid);
+      const resolved = hit && hit.node === node && hit.entry === entry ? hit.live : liveSnapshot(node);
+      next.set(node.uuid, { node, entry, live: resolved });
+      return resolved;
+    });
+    cache.current = next;
+    return live;
+    // `version` is the re-run signal — the store itself is read directly
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [nodes, enabled, version]);
+}
@@ -1,35 +1,7 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { apiService, wsService } from '../services/api';
-import type { NodeWithStatus, NodeStats, WsMessage } from '../services/api';
-
-/**
- * Shallow-compare two stats objects. Returns true if they are equivalent.
- */
-function statsEqual(a: NodeStats | undefined, b: NodeStats | undefined): boolean {
-  if (a === b) return true;
-  if (!a || !b) return false;
-  return (
-    a.cpu?.usage === b.cpu?.usage &&
-    a.ram?.used === b.ram?.used &&
-    a.ram?.total === b.ram?.total &&
-    a.swap?.used === b.swap?.used &&
-    a.swap?.total === b.swap?.total &&
-    a.disk?.used === b.disk?.used &&
-    a.disk?.total === b.disk?.total &&
-    a.network?.up === b.network?.up &&
-    a.network?.down === b.network?.down &&
-    a.network?.totalUp === b.network?.totalUp &&
-    a.network?.totalDown === b.network?.totalDown &&
-    a.load?.load1 === b.load?.load1 &&
-    a.load?.load5 === b.load?.load5 &&
-    a.load?.load15 === b.load?.load15 &&
-    a.uptime === b.uptime &&
-    a.process === b.process &&
-    a.connections?.tcp === b.connections?.tcp &&
-    a.connections?.udp === b.connections?.udp &&
-    a.updated_at === b.updated_at
-  );
-}
+import type { NodeWithStatus } from '../services/api';
+import type { StatusDelta } from '../lib/status-store';
 
 export function useNodes() {
   const [nodes, setNodes] = useState<NodeWithStatus[]>([]);
@@ -44,12 +16,19 @@ export function useNodes() {
     
     try {
       const nodeData = await apiService.getNodes();
+      // Backend unreachable — keep whatever we hydrated from the offline cache
+      if (nodeData.length === 0 && nodesRef.current.length > 0) return;
       
-      // Add status info for each node
-      const nodesWithStatus: NodeWithStatus[] = nodeData.map(node => ({
-        ...node,
-        status: 'offline' as const // Default to offline; WebSocket will update online status
-      }));
+      // Add status info for each node from the live store; default to offline until it reports
+      const nodesWithStatus: NodeWithStatus[] = nodeData.map(node => {
+        const entry = wsService.store.get(node.uuid);
+        return {
+          ...node,
+          status: entry?.status ?? 'offline',
+          stats: entry?.stats,
+          cached: entry?.cached,
+        };
+      });
       
       nodesRef.current = nodesWithStatus;
       setNodes(nodesWithStatus);
@@ -65,6 +44,23 @@ export function useNodes() {
     await fetchNodes();
   }, [fetchNodes]);
 
+  // Hydrate from the offline snapshot cache so a reload never starts blank
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([apiService.getCachedNodes(), wsService.hydrateFromCache()]).then(([cached]) => {
+      if (cancelled || !cached || nodesRef.current.length > 0) return;
+      const hydrated: NodeWithStatus[] = cached.value.map(node => {
+        const entry = wsService.store.get(node.uuid);
+        return { ...node, status: entry?.status ?? 'offline', stats: entry?.stats, cached: entry?.cached };
+      });
+      nodesRef.current = hydrated;
+      setNodes(hydrated);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
   // Fetch node data on initialization
   useEffect(() => {
     fetchNodes();
@@ -72,71 +68,38 @@ export function useNodes() {
 
   // Set up WebSocket listener
   useEffect(() => {
-    const handleWebSocketData = (data: WsMessage) => {
-      if (data.online && data.data) {
-        const prevNodes = nodesRef.current;
-        let changed = false;
-        const nextNodes = prevNodes.map(node => {
-          const isOnline = data.online.includes(node.uuid);
-          const newStatus: 'online' | 'offline' = isOnline ? 'online' : 'offline';
-          const rawStats = data.data[node.uuid];
-
-          const newStats = rawStats ? {
-            ...rawStats,
-            cpu: { usage: rawStats.cpu?.usage || 0 },
-            ram: { total: rawStats.ram?.total || 0, used: rawStats.ram?.used || 0 },
-            swap: { total: rawStats.swap?.total || 0, used: rawStats.swap?.used || 0 },
-            disk: { total: rawStats.disk?.total || 0, used: rawStats.disk?.used || 0 },
-            network: {
-              up: rawStats.network?.up || 0,
-              down: rawStats.network?.down || 0,
-              totalUp: rawStats.network?.totalUp || 0,
-              totalDown: rawStats.network?.totalDown || 0,
-            },
-            load: {
-              load1: rawStats.load?.load1 || 0,
-              load5: rawStats.load?.load5 || 0,
-              load15: rawStats.load?.load15 || 0,
-            },
-            uptime: rawStats.uptime || 0,
-            process: rawStats.process || 0,
-            connections: { tcp: rawStats.connections?.tcp || 0, udp: rawStats.connections?.udp || 0 },
-            message: rawStats.message || '',
-            updated_at: rawStats.updated_at || new Date().toISOString(),
-          } : undefined;
-
-          // Skip creating new object if nothing changed
-          if (node.status === newStatus && statsEqual(node.stats, newStats)) {
-            return node;
-          }
-
-          changed = true;
-          return { ...node, status: newStatus, stats: newStats };
-        });
-
-        if (changed) {
-          nodesRef.current = nextNodes;
-          setNodes(nextNodes);
-        }
+    // The list only changes when a node first reports, drops out or flips
+    // online/offline. Stats-only ticks reach cards and the sidebar through
+    // `useLiveNode`, and live-stat views through `useLiveNodes`, so App and
+    // the other list consumers don't re-render on every update.
+    const handleStatusDelta = (delta: StatusDelta) => {
+      const statusChanged = [...delta.changed.values()].some(fields => fields.includes('status') || fields.includes('cached'));
+      if (!delta.added.length && !delta.removed.length && !statusChanged) return;
+
+      const prevNodes = nodesRef.current;
+      let changed = false;
+      const nextNodes = prevNodes.map(node => {
+        const entry = wsService.store.get(node.uuid);
+        const status = entry?.status ?? 'offline';
+        if (status === node.status && entry?.stats === node.stats && entry?.cached === node.cached) return node;
+        changed = true;
+        return { ...node, status, stats: entry?.stats, cached: entry?.cached };
+      });
+
+      if (changed) {
+        nodesRef.current = nextNodes;
+        setNodes(nextNodes);
       }
     };
 
     // Subscribe to WebSocket data
-    const unsubscribe = wsService.subscribe(handleWebSocketData);
+    const unsubscribe = wsService.subscribe(handleStatusDelta);
     
-    // Connect WebSocket
+    // Connect WebSocket — the service handles push subscription and its polling fallback
     wsService.connect();
 
-    // Set up timer to request data every 2 seconds
-    const intervalId = setInterval(() => {
-      if (wsService.getOnlineNodes().length > 0) {
-        wsService.send('get');
-      }
-    }, 2000);
-
     // Cleanup function
     return () => {
-      clearInterval(intervalId);
       unsubscribe();
       // Don't disconnect WebSocket here, as other components may also need it
     };
@@ -0,0 +1,201 @@
+import { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef, type ReactNode } from 'react';
+import { createElement } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { NodeWithStatus } from '@/services/api';
+import { useAlerts } from '@/hooks/useAlerts';
+import {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  NotifyBuffer,
+  RateLimiter,
+  isQuietTime,
+  notificationsSupported,
+  playCue,
+  type NotificationSettings,
+  type NotifyEvent,
+  type NotifyKind,
+} from '@/lib/notifier';
+
+interface NotificationsContextType {
+  settings: NotificationSettings;
+  updateSettings: (patch: Partial<NotificationSettings>) => void;
+  /** Current browser permission, or 'unsupported' */
+  permission: NotificationPermission | 'unsupported';
+  requestPermission: () => Promise<void>;
+  /** Fire a sample notification/cue using the current settings; false if the notification could not be shown */
+  sendTest: () => boolean;
+}
+
+const NotificationsContext = createContext<NotificationsContextType>({
+  settings: DEFAULT_NOTIFICATION_SETTINGS,
+  updateSettings: () => {},
+  permission: 'unsupported',
+  requestPermission: async () => {},
+  sendTest: () => false,
+});
+
+export function useNotifications() {
+  return useContext(NotificationsContext);
+}
+
+const STORAGE_KEY = 'notificationSettings';
+const GROUP_WINDOW = 3_000;       // events within this window share one notification
+const RATE_LIMIT = 4;             // notifications …
+const RATE_WINDOW = 60_000;       // … per minute
+
+function loadSettings(): NotificationSettings {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      return {
+        ...DEFAULT_NOTIFICATION_SETTINGS,
+        ...parsed,
+        quietHours: { ...DEFAULT_NOTIFICATION_SETTINGS.quietHours, ...parsed?.quietHours },
+      };
+    }
+  } catch {
+    // Corrupt storage — fall back to defaults
+  }
+  return DEFAULT_NOTIFICATION_SETTINGS;
+}
+
+const kindEnabled: Record<NotifyKind, keyof NotificationSettings> = {
+  offline: 'onOffline',
+  recovery: 'onRecovery',
+  critical: 'onCritical',
+};
+
+export function NotificationsProvider({
+  nodes,
+  children,
+}: {
+  nodes: NodeWithStatus[];
+  children: ReactNode;
+}) {
+  const { t } = useTranslation();
+  const { subscribeTransitions } = useAlerts();
+  const [settings, setSettings] = useState<NotificationSettings>(loadSettings);
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>(
+    () => notificationsSupported() ? Notification.permission : 'unsupported',
+  );
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const tRef = useRef(t);
+  tRef.current = t;
+
+  const limiterRef = useRef(new RateLimiter(RATE_LIMIT, RATE_WINDOW));
+  const droppedRef = useRef(0);
+  const prevStatusRef = useRef<Map<string, 'online' | 'offline'> | null>(null);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  }, [settings]);
+
+  /** Deliver one grouped notification per kind, subject to quiet hours and the rate limit */
+  const deliver = useCallback((groups: Map<NotifyKind, NotifyEvent[]>) => {
+    const s = settingsRef.current;
+    if (isQuietTime(s)) return;
+    const tr = tRef.current;
+
+    for (const [kind, events] of groups) {
+      if (s.sound) playCue(kind);
+
+      if (!s.enabled || !notificationsSupported() || Notification.permission !== 'granted') continue;
+      if (s.onlyWhenHidden && document.visibilityState === 'visible') continue;
+
+      if (!limiterRef.current.tryAcquire()) {
+        droppedRef.current += events.length;
+        continue;
+      }
+
+      const names = events.map(e => e.node);
+      const shown = names.slice(0, 5).join(', ');
+      const more = names.length > 5 ? ` ${tr('notify.more', { count: names.length - 5 })}` : '';
+      const dropped = droppedRef.current > 0 ? `\n${tr('notify.suppressed', { count: droppedRef.current })}` : '';
+      droppedRef.current = 0;
+      const detail = kind === 'critical'
+        ? Array.from(new Set(events.map(e => e.detail).filter(Boolean))).join(', ')
+        : '';
+
+      try {
+        new Notification(tr(`notify.title_${kind}`, { count: events.length }), {
+          body: `${shown}${more}${detail ? `\n${detail}` : ''}${dropped}`,
+          // Same tag replaces the previous notification of this kind instead of stacking
+          tag: `komari-${kind}`,
+        });
+      } catch {
+        // Some platforms only allow notifications from a service worker
+      }
+    }
+  }, []);
+
+  const bufferRef = useRef<NotifyBuffer | null>(null);
+  useEffect(() => {
+    const buffer = new NotifyBuffer(GROUP_WINDOW, deliver);
+    bufferRef.current = buffer;
+    return () => buffer.dispose();
+  }, [deliver]);
+
+  const enqueue = useCallback((events: NotifyEvent[]) => {
+    const s = settingsRef.current;
+    if (!s.enabled && !s.sound) return;
+    bufferRef.current?.push(events.filter(e => s[kindEnabled[e.kind]]));
+  }, []);
+
+  // Online/offline transitions. Nodes default to offline until their first status
+  // report and cached status is stale, so only live-reported nodes count; each
+  // node's first live report is its baseline.
+  useEffect(() => {
+    const reported = nodes.filter(n => n.stats !== undefined && !n.cached);
+    if (!reported.length) return;
+    const prev = prevStatusRef.current;
+    prevStatusRef.current = new Map(reported.map(n => [n.uuid, n.status]));
+    if (!prev) return;
+
+    const events: NotifyEvent[] = [];
+    for (const node of reported) {
+      const old = prev.get(node.uuid);
+      if (!old || old === node.status) continue;
+      events.push({ kind: node.status === 'offline' ? 'offline' : 'recovery', node: node.name });
+    }
+    enqueue(events);
+  }, [nodes, enqueue]);
+
+  // Critical alert rules firing
+  useEffect(() => subscribeTransitions(transitions => {
+    enqueue(transitions
+      .filter(tr => tr.kind === 'firing' && tr.rule.severity === 'critical' && tr.rule.metric !== 'offline')
+      .map(tr => ({ kind: 'critical' as const, node: tr.node.name, detail: tr.rule.name })));
+  }), [subscribeTransitions, enqueue]);
+
+  const updateSettings = useCallback((patch: Partial<NotificationSettings>) => {
+    setSettings(prev => ({ ...prev, ...patch }));
+  }, []);
+
+  const requestPermission = useCallback(async () => {
+    if (!notificationsSupported()) return;
+    const result = await Notification.requestPermission();
+    setPermission(result);
+  }, []);
+
+  const sendTest = useCallback(() => {
+    const sample: NotifyEvent = { kind: 'critical', node: 'TEST', detail: tRef.current('notify.test') };
+    if (settingsRef.current.sound) playCue('critical');
+    if (notificationsSupported() && Notification.permission === 'granted') {
+      try {
+        new Notification(tRef.current('notify.title_critical', { count: 1 }), { body: `${sample.node}\n${sample.detail}`, tag: 'komari-test' });
+      } catch {
+        // Some platforms only allow notifications from a service worker
+        return false;
+      }
+    }
+    return true;
+  }, []);
+
+  const value = useMemo(
+    () => ({ settings, updateSettings, permission, requestPermission, sendTest }),
+    [settings, updateSettings, permission, requestPermission, sendTest],
+  );
+
+  return createElement(NotificationsContext.Provider, { value }, children);
+}
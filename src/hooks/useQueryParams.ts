@@ -0,0 +1,16 @@
+import { useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { patchParams, type QueryPatch } from '@/lib/url-state';
+
+/**
+ * Current query parameters plus an updater that merges a patch into them.
+ * Updates push a history entry unless `replace` is set — used for text input
+ * so each keystroke does not become its own back step.
+ */
+export function useQueryParams() {
+  const [params, setParams] = useSearchParams();
+  const update = useCallback((patch: QueryPatch, options?: { replace?: boolean }) => {
+    setParams(prev => patchParams(prev, patch), { replace: options?.replace });
+  }, [setParams]);
+  return [params, update] as const;
+}
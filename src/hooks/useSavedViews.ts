@@ -0,0 +1,76 @@
+import { createContext, useContext, useState, useEffect, useCallback, useMemo, type ReactNode } from 'react';
+import { createElement } from 'react';
+import { newViewId, type SavedView, type SavedViewColumns } from '@/lib/saved-views';
+
+interface SavedViewsContextType {
+  views: SavedView[];
+  /** Save under a name; an existing view with the same name is overwritten */
+  saveView: (name: string, params: Record<string, string>, columns: SavedViewColumns) => void;
+  removeView: (id: string) => void;
+  /** Merge imported views by name; returns how many were added or replaced */
+  importViews: (views: SavedView[]) => number;
+}
+
+const SavedViewsContext = createContext<SavedViewsContextType>({
+  views: [],
+  saveView: () => {},
+  removeView: () => {},
+  importViews: () => 0,
+});
+
+export function useSavedViews() {
+  return useContext(SavedViewsContext);
+}
+
+const STORAGE_KEY = 'savedViews';
+
+function loadViews(): SavedView[] {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (Array.isArray(parsed)) return parsed as SavedView[];
+    }
+  } catch {
+    // Corrupt storage — start empty
+  }
+  return [];
+}
+
+function mergeViews(prev: SavedView[], incoming: SavedView[]): SavedView[] {
+  const next = [...prev];
+  for (const view of incoming) {
+    const idx = next.findIndex(v => v.name === view.name);
+    if (idx >= 0) next[idx] = { ...next[idx], params: view.params, columns: view.columns };
+    else next.push(view);
+  }
+  return next;
+}
+
+export function SavedViewsProvider({ children }: { children: ReactNode }) {
+  const [views, setViews] = useState<SavedView[]>(loadViews);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(views));
+  }, [views]);
+
+  const saveView = useCallback((name: string, params: Record<string, string>, columns: SavedViewColumns) => {
+    setViews(prev => mergeViews(prev, [{ id: newViewId(), name, params, columns }]));
+  }, []);
+
+  const removeView = useCallback((id: string) => {
+    setViews(prev => prev.filter(v => v.id !== id));
+  }, []);
+
+  const importViews = useCallback((incoming: SavedView[]) => {
+    setViews(prev => mergeViews(prev, incoming));
+    return incoming.length;
+  }, []);
+
+  const value = useMemo(
+    () => ({ views, saveView, removeView, importViews }),
+    [views, saveView, removeView, importViews],
+  );
+
+  return createElement(SavedViewsContext.Provider, { value }, children);
+}
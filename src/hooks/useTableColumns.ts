@@ -0,0 +1,53 @@
+import { createContext, useContext, useState, useEffect, useCallback, useMemo, type ReactNode } from 'react';
+import { createElement } from 'react';
+import {
+  DEFAULT_COLUMN_SETTINGS,
+  normalizeColumnSettings,
+  type TableColumnSettings,
+} from '@/lib/table-columns';
+
+interface TableColumnsContextType {
+  columns: TableColumnSettings;
+  setColumns: (columns: TableColumnSettings | ((prev: TableColumnSettings) => TableColumnSettings)) => void;
+  resetColumns: () => void;
+}
+
+const TableColumnsContext = createContext<TableColumnsContextType>({
+  columns: DEFAULT_COLUMN_SETTINGS,
+  setColumns: () => {},
+  resetColumns: () => {},
+});
+
+export function useTableColumns() {
+  return useContext(TableColumnsContext);
+}
+
+const STORAGE_KEY = 'nodeTableColumns';
+
+function loadColumns(): TableColumnSettings {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) return normalizeColumnSettings(JSON.parse(saved));
+  } catch {
+    // Corrupt storage — fall back to defaults
+  }
+  return DEFAULT_COLUMN_SETTINGS;
+}
+
+export function TableColumnsProvider({ children }: { children: ReactNode }) {
+  const [columns, _setColumns] = useState<TableColumnSettings>(loadColumns);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(columns));
+  }, [columns]);
+
+  const setColumns = useCallback((next: TableColumnSettings | ((prev: TableColumnSettings) => TableColumnSettings)) => {
+    _setColumns(prev => normalizeColumnSettings(typeof next === 'function' ? next(prev) : next));
+  }, []);
+
+  const resetColumns = useCallback(() => _setColumns(DEFAULT_COLUMN_SETTINGS), []);
+
+  const value = useMemo(() => ({ columns, setColumns, resetColumns }), [columns, setColumns, resetColumns]);
+
+  return createElement(TableColumnsContext.Provider, { value }, children);
+}
@@ -0,0 +1,69 @@
+import { createContext, useContext, useState, useEffect, useMemo, type ReactNode } from 'react';
+import { createElement } from 'react';
+import { apiService } from '@/services/api';
+import type { NodeData, NodeStats, NodeWithStatus } from '@/services/api';
+import type { LoadRecord } from '@/lib/chart-utils';
+import type { TrafficLimitType } from '@/lib/utils';
+import { mapLimit } from '@/lib/fleet';
+import { forecastTraffic, hasTrafficLimit, usageRate, type TrafficForecast } from '@/lib/traffic-forecast';
+
+/** Usage rate per node in bytes/s; null when history was not usable */
+const TrafficRatesContext = createContext<Record<string, number | null>>({});
+
+const RATE_WINDOW_HOURS = 24;
+const REFRESH_INTERVAL = 30 * 60_000;
+const FETCH_CONCURRENCY = 3;
+
+export function TrafficForecastProvider({
+  nodes,
+  children,
+}: {
+  nodes: NodeWithStatus[];
+  children: ReactNode;
+}) {
+  const [rates, setRates] = useState<Record<string, number | null>>({});
+
+  // Only nodes with a quota need history; the key changes when limits are edited
+  const limitedKey = useMemo(
+    () => nodes.filter(hasTrafficLimit).map(n => `${n.uuid}:${n.traffic_limit_type}`).sort().join(','),
+    [nodes],
+  );
+
+  useEffect(() => {
+    if (!limitedKey) return;
+    const entries = limitedKey.split(',').map(s => s.split(':') as [string, TrafficLimitType]);
+    let cancelled = false;
+
+    const refresh = () => {
+      mapLimit(entries, FETCH_CONCURRENCY, async ([uuid, type]) => {
+        const history = await apiService.getLoadHistory(uuid, RATE_WINDOW_HOURS).catch(() => null);
+        const records = ((history?.records || []) as LoadRecord[])
+          .slice()
+          .sort((a, b) => new Date(a.time).getTime() - new Date(b.time).getTime());
+        return [uuid, usageRate(records, type)] as const;
+      }).then(result => {
+        if (!cancelled) setRates(Object.fromEntries(result));
+      });
+    };
+
+    refresh();
+    const timer = setInterval(refresh, REFRESH_INTERVAL);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [limitedKey]);
+
+  return createElement(TrafficRatesContext.Provider, { value: rates }, children);
+}
+
+/** Quota projection for a node from its live stats and the recent usage rate */
+export function useTrafficForecast(node: NodeData, stats: NodeStats | undefined): TrafficForecast | null {
+  const rate = useContext(TrafficRatesContext)[node.uuid];
+  return useMemo(
+    () => forecastTraffic(node, stats, rate),
+    // Recompute on counter changes only, not on every stats tick
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [node.uuid, node.traffic_limit, node.traffic_limit_type, node.billing_cycle, node.expired_at, stats?.network.totalUp, stats?.network.totalDown, rate],
+  );
+}
@@ -0,0 +1,215 @@
+/**
+ * Client-side alert rules engine.
+ *
+ * A rule targets every node, a single node, a group or a tag, and fires when
+ * `metric <comparator> threshold` holds continuously for `forSeconds`.
+ * Evaluation is pure: callers pass in the previous state map and receive the
+ * next one plus the transitions (pending → firing → resolved) it produced.
+ */
+
+import type { NodeWithStatus } from '@/services/api';
+import { calcTrafficUsage, getExpiryDays, splitTags } from '@/lib/utils';
+import type { TrafficLimitType } from '@/lib/utils';
+
+export type AlertMetric =
+  | 'cpu' | 'ram' | 'disk' | 'swap'
+  | 'load1' | 'load5' | 'load15'
+  | 'net_up' | 'net_down' | 'connections'
+  | 'traffic' | 'expiry_days' | 'offline';
+
+export type AlertComparator = '>' | '>=' | '<' | '<=';
+
+export type AlertSeverity = 'warning' | 'critical';
+
+export type AlertScopeType = 'all' | 'node' | 'group' | 'tag';
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  scope: AlertScopeType;
+  /** Node uuid, group name or tag — ignored for scope 'all' */
+  target: string;
+  metric: AlertMetric;
+  comparator: AlertComparator;
+  threshold: number;
+  /** Condition must hold this long before the alert fires */
+  forSeconds: number;
+  severity: AlertSeverity;
+}
+
+export type AlertPhase = 'pending' | 'firing';
+
+export interface AlertState {
+  ruleId: string;
+  uuid: string;
+  phase: AlertPhase;
+  /** When the condition first became true (ms) */
+  since: number;
+  /** When the alert entered 'firing' (ms) */
+  firedAt?: number;
+  /** Latest metric value */
+  value: number;
+}
+
+export interface AlertTransition {
+  rule: AlertRule;
+  node: NodeWithStatus;
+  kind: 'firing' | 'resolved';
+  value: number;
+  at: number;
+}
+
+/** Display unit and i18n label per metric; values from `metricValue` are already in these units */
+export const ALERT_METRICS: Record<AlertMetric, { unit: string; labelKey: string }> = {
+  cpu: { unit: '%', labelKey: 'alert.metricCpu' },
+  ram: { unit: '%', labelKey: 'alert.metricRam' },
+  disk: { unit: '%', labelKey: 'alert.metricDisk' },
+  swap: { unit: '%', labelKey: 'alert.metricSwap' },
+  load1: { unit: '', labelKey: 'alert.metricLoad1' },
+  load5: { unit: '', labelKey: 'alert.metricLoad5' },
+  load15: { unit: '', labelKey: 'alert.metricLoad15' },
+  net_up: { unit: 'MB/s', labelKey: 'alert.metricNetUp' },
+  net_down: { unit: 'MB/s', labelKey: 'alert.metricNetDown' },
+  connections: { unit: '', labelKey: 'alert.metricConnections' },
+  traffic: { unit: '%', labelKey: 'alert.metricTraffic' },
+  expiry_days: { unit: 'd', labelKey: 'alert.metricExpiryDays' },
+  offline: { unit: 'min', labelKey: 'alert.metricOffline' },
+};
+
+export const ALERT_COMPARATORS: AlertComparator[] = ['>', '>=', '<', '<='];
+
+/** Rules seeded on first use — mirror the previous hardcoded thresholds */
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  { id: 'default-cpu', name: 'CPU critical', enabled: true, scope: 'all', target: '', metric: 'cpu', comparator: '>', threshold: 90, forSeconds: 0, severity: 'critical' },
+  { id: 'default-ram', name: 'RAM critical', enabled: true, scope: 'all', target: '', metric: 'ram', comparator: '>', threshold: 95, forSeconds: 0, severity: 'critical' },
+  { id: 'default-offline', name: 'Node offline', enabled: true, scope: 'all', target: '', metric: 'offline', comparator: '>=', threshold: 1, forSeconds: 0, severity: 'critical' },
+];
+
+/** Key of one rule × node state entry */
+export function alertKey(ruleId: string, uuid: string): string {
+  return `${ruleId}:${uuid}`;
+}
+
+function pct(used: number, total: number): number {
+  return total > 0 ? (used / total) * 100 : 0;
+}
+
+/**
+ * Current value of a metric for a node, or null when it cannot be evaluated
+ * (e.g. live stats on an offline node, no traffic limit, no expiry date).
+ * `offlineSince` is the ms timestamp the node was first seen offline.
+ */
+export function metricValue(
+  metric: AlertMetric,
+  node: NodeWithStatus,
+  now: number,
+  offlineSince?: number,
+): number | null {
+  if (metric === 'offline') {
+    if (node.status !== 'offline' || offlineSince === undefined) return null;
+    return (now - offlineSince) / 60_000;
+  }
+  if (metric === 'expiry_days') {
+    return node.price === -1 ? null : getExpiryDays(node.expired_at);
+  }
+
+  const s = node.stats;
+  if (node.status !== 'online' || !s) return null;
+
+  switch (metric) {
+    case 'cpu': return s.cpu.usage;
+    case 'ram': return pct(s.ram.used, s.ram.total);
+    case 'disk': return pct(s.disk.used, s.disk.total);
+    case 'swap': return s.swap.total > 0 ? pct(s.swap.used, s.swap.total) : null;
+    case 'load1': return s.load.load1;
+    case 'load5': return s.load.load5;
+    case 'load15': return s.load.load15;
+    case 'net_up': return s.network.up / 1048576;
+    case 'net_down': return s.network.down / 1048576;
+    case 'connections': return s.connections.tcp + s.connections.udp;
+    case 'traffic': {
+      const limit = node.traffic_limit ?? 0;
+      if (limit <= 0) return null;
+      const type = (node.traffic_limit_type || 'sum') as TrafficLimitType;
+      return pct(calcTrafficUsage(s.network.totalUp, s.network.totalDown, type), limit);
+    }
+  }
+}
+
+export function compare(value: number, comparator: AlertComparator, threshold: number): boolean {
+  switch (comparator) {
+    case '>': return value > threshold;
+    case '>=': return value >= threshold;
+    case '<': return value < threshold;
+    case '<=': return value <= threshold;
+  }
+}
+
+/** Whether a rule's scope covers the node */
+export function ruleAppliesTo(rule: AlertRule, node: NodeWithStatus): boolean {
+  switch (rule.scope) {
+    case 'all': return true;
+    case 'node': return node.uuid === rule.target;
+    case 'group': return node.group === rule.target;
+    case 'tag': return splitTags(node.tags).includes(rule.target);
+  }
+}
+
+/**
+ * Evaluate all rules against all nodes.
+ * States not present in the result have resolved (or never matched).
+ */
+export function evaluateAlerts(
+  rules: AlertRule[],
+  nodes: NodeWithStatus[],
+  prev: Map<string, AlertState>,
+  offlineSince: Map<string, number>,
+  now: number = Date.now(),
+): { states: Map<string, AlertState>; transitions: AlertTransition[] } {
+  const states = new Map<string, AlertState>();
+  const transitions: AlertTransition[] = [];
+  const ruleById = new Map(rules.map(r => [r.id, r]));
+  const nodeByUuid = new Map(nodes.map(n => [n.uuid, n]));
+
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+    for (const node of nodes) {
+      if (!ruleAppliesTo(rule, node)) continue;
+      const value = metricValue(rule.metric, node, now, offlineSince.get(node.uuid));
+      if (value === null || !compare(value, rule.comparator, rule.threshold)) continue;
+
+      const key = alertKey(rule.id, node.uuid);
+      const old = prev.get(key);
+      const since = old?.since ?? now;
+      const holds = now - since >= rule.forSeconds * 1000;
+
+      if (old?.phase === 'firing' || holds) {
+        const firedAt = old?.firedAt ?? now;
+        if (old?.phase !== 'firing') {
+          transitions.push({ rule, node, kind: 'firing', value, at: now });
+        }
+        states.set(key, { ruleId: rule.id, uuid: node.uuid, phase: 'firing', since, firedAt, value });
+      } else {
+        states.set(key, { ruleId: rule.id, uuid: node.uuid, phase: 'pending', since, value });
+      }
+    }
+  }
+
+  // Anything firing before but absent now has resolved
+  for (const [key, old] of prev) {
+    if (old.phase !== 'firing' || states.has(key)) continue;
+    const rule = ruleById.get(old.ruleId);
+    const node = nodeByUuid.get(old.uuid);
+    if (rule && node) {
+      transitions.push({ rule, node, kind: 'resolved', value: old.value, at: now });
+    }
+  }
+
+  return { states, transitions };
+}
+
+/** Human-readable condition, e.g. "cpu > 90%" */
+export function formatCondition(rule: AlertRule): string {
+  return `${rule.metric} ${rule.comparator} ${rule.threshold}${ALERT_METRICS[rule.metric].unit}`;
+}
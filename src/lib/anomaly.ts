@@ -0,0 +1,122 @@
+/**
+ * Anomaly detection for history series — rolling median + MAD baselines.
+ *
+ * Each point is compared against the median of the points just before it;
+ * the spread is the median absolute deviation (MAD), scaled so a "modified
+ * z-score" above the threshold means the point is far outside recent
+ * behaviour. Baselines follow the node's own level, so a busy node running
+ * hot all day is not flagged while a quiet one suddenly spiking is.
+ */
+
+export interface AnomalyMetric {
+  key: string;
+  /**
+   * Smallest spread the baseline is allowed to have, in the metric's unit.
+   * Keeps flat series (0 connections, idle CPU) from flagging every wiggle.
+   */
+  minSpread: number;
+}
+
+export interface AnomalyRegion {
+  /** Time of the first flagged row */
+  start: string;
+  /** Time of the row after the last flagged one, so single points have width */
+  end: string;
+  /** Metrics flagged inside the region */
+  keys: string[];
+}
+
+/** Rows in the trailing baseline window */
+export const ANOMALY_WINDOW = 30;
+/** Modified z-score above which a point is flagged */
+export const ANOMALY_THRESHOLD = 3.5;
+/** Baseline needs this many earlier points before anything is judged */
+const MIN_BASELINE = 10;
+/** Scales MAD to be comparable with a standard deviation */
+const MAD_SCALE = 0.6745;
+
+/** Load-history series from `transformLoadRecords` worth watching */
+export const LOAD_ANOMALY_METRICS: AnomalyMetric[] = [
+  { key: 'cpu', minSpread: 2 },
+  { key: 'ram', minSpread: 1 },
+  { key: 'load', minSpread: 0.2 },
+  { key: 'connections', minSpread: 5 },
+  { key: 'network_in', minSpread: 5 },
+  { key: 'network_out', minSpread: 5 },
+];
+
+/** One metric per ping task, keyed like `processPingRecords` rows */
+export function pingAnomalyMetrics(tasks: { id: number }[]): AnomalyMetric[] {
+  return tasks.map(task => ({ key: String(task.id), minSpread: 5 }));
+}
+
+function median(sorted: number[]): number {
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/** Per-point flags for one series; null and non-numeric values are never flagged */
+export function flagAnomalies(values: unknown[], minSpread: number, window = ANOMALY_WINDOW, threshold = ANOMALY_THRESHOLD): boolean[] {
+  const flags = new Array<boolean>(values.length).fill(false);
+  const baseline: number[] = [];
+
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    if (typeof value !== 'number' || !Number.isFinite(value)) continue;
+
+    if (baseline.length >= MIN_BASELINE) {
+      const sorted = [...baseline].sort((a, b) => a - b);
+      const center = median(sorted);
+      const deviations = sorted.map(v => Math.abs(v - center)).sort((a, b) => a - b);
+      const spread = Math.max(median(deviations), minSpread);
+      flags[i] = (MAD_SCALE * Math.abs(value - center)) / spread > threshold;
+    }
+
+    baseline.push(value);
+    if (baseline.length > window) baseline.shift();
+  }
+  return flags;
+}
+
+/**
+ * Flag every metric and merge neighbouring flagged rows into regions.
+ * `rows` must be ascending by time.
+ */
+export function anomalyRegions<T extends { time: string }>(rows: T[], metrics: AnomalyMetric[]): AnomalyRegion[] {
+  const flagged = metrics.map(metric => ({
+    key: metric.key,
+    flags: flagAnomalies(rows.map(row => (row as Record<string, unknown>)[metric.key]), metric.minSpread),
+  }));
+
+  const regions: AnomalyRegion[] = [];
+  let current: { start: number; end: number; keys: Set<string> } | null = null;
+
+  const close = () => {
+    if (!current) return;
+    regions.push({
+      start: rows[current.start].time,
+      end: rows[Math.min(current.end + 1, rows.length - 1)].time,
+      keys: [...current.keys],
+    });
+    current = null;
+  };
+
+  for (let i = 0; i < rows.length; i++) {
+    const keys = flagged.filter(f => f.flags[i]).map(f => f.key);
+    if (!keys.length) {
+      // Allow a one-row gap so a jittery burst stays one region
+      if (current && i - current.end > 1) close();
+      continue;
+    }
+    if (!current) current = { start: i, end: i, keys: new Set() };
+    current.end = i;
+    for (const key of keys) current.keys.add(key);
+  }
+  close();
+  return regions;
+}
+
+/** Regions touching any of `keys` — the ones a given chart should shade */
+export function regionsFor(regions: AnomalyRegion[], keys: string[]): AnomalyRegion[] {
+  return regions.filter(region => region.keys.some(key => keys.includes(key)));
+}
@@ -0,0 +1,168 @@
+/**
+ * Billing analytics — normalise node prices to monthly/yearly cost in one
+ * base currency and derive per-resource unit costs.
+ *
+ * Komari stores `price` in the node's own `currency` (usually a symbol such
+ * as "$" or "¥") per `billing_cycle` days; -1 marks a free node and 0 an unset
+ * price. Exchange rates are user-maintained, expressed as "1 unit of currency
+ * = rate units of the base currency".
+ */
+
+import dayjs from 'dayjs';
+import type { NodeData } from '@/services/api';
+import { splitTags } from '@/lib/utils';
+
+export interface BillingSettings {
+  baseCurrency: string;
+  rates: Record<string, number>;
+}
+
+export const DEFAULT_BILLING_SETTINGS: BillingSettings = {
+  baseCurrency: '$',
+  rates: {
+    '$': 1,
+    'USD': 1,
+    '€': 1.08,
+    'EUR': 1.08,
+    '£': 1.27,
+    'GBP': 1.27,
+    '¥': 0.14,
+    'CNY': 0.14,
+    'HK$': 0.13,
+    'HKD': 0.13,
+    'JPY': 0.0067,
+  },
+};
+
+const STORAGE_KEY = 'billingSettings';
+
+const DAYS_PER_MONTH = 365 / 12;
+const BYTES_PER_GB = 1e9;
+
+export function loadBillingSettings(): BillingSettings {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (parsed && typeof parsed.baseCurrency === 'string' && parsed.rates && typeof parsed.rates === 'object') {
+        return { baseCurrency: parsed.baseCurrency, rates: parsed.rates };
+      }
+    }
+  } catch {
+    // Corrupt storage — fall back to defaults
+  }
+  return DEFAULT_BILLING_SETTINGS;
+}
+
+export function saveBillingSettings(settings: BillingSettings): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+/** Express every rate relative to a new base currency */
+export function rebaseRates(settings: BillingSettings, baseCurrency: string): BillingSettings {
+  const pivot = settings.rates[baseCurrency];
+  if (!pivot) return { baseCurrency, rates: { ...settings.rates, [baseCurrency]: 1 } };
+  const rates: Record<string, number> = {};
+  for (const [currency, rate] of Object.entries(settings.rates)) rates[currency] = rate / pivot;
+  rates[baseCurrency] = 1;
+  return { baseCurrency, rates };
+}
+
+export function rateFor(currency: string, settings: BillingSettings): number | null {
+  const key = currency.trim() || settings.baseCurrency;
+  if (key === settings.baseCurrency) return 1;
+  const rate = settings.rates[key];
+  return rate && rate > 0 ? rate : null;
+}
+
+/** Nodes with a real recurring or one-off price */
+export function isBillable(node: NodeData): boolean {
+  return node.price > 0;
+}
+
+export interface NodeCost {
+  uuid: string;
+  name: string;
+  /** Converted price per cycle, null when the currency has no rate */
+  price: number | null;
+  cycleDays: number;
+  /** Null for one-time purchases or unknown rates */
+  monthly: number | null;
+  yearly: number | null;
+  perVcpu: number | null;
+  /** Cost per GB of the traffic allowance — the allowance covers one billing cycle */
+  perGb: number | null;
+  /** Original currency could not be converted */
+  missingRate: boolean;
+}
+
+export function nodeCost(node: NodeData, settings: BillingSettings): NodeCost {
+  const rate = rateFor(node.currency || '', settings);
+  const price = rate === null ? null : node.price * rate;
+  const cycleDays = node.billing_cycle || 0;
+  const monthly = price !== null && cycleDays > 0 ? (price / cycleDays) * DAYS_PER_MONTH : null;
+  const limit = node.traffic_limit ?? 0;
+  return {
+    uuid: node.uuid,
+    name: node.name,
+    price,
+    cycleDays,
+    monthly,
+    yearly: monthly === null ? null : monthly * 12,
+    perVcpu: monthly !== null && node.cpu_cores > 0 ? monthly / node.cpu_cores : null,
+    perGb: price !== null && cycleDays > 0 && limit > 0 ? price / (limit / BYTES_PER_GB) : null,
+    missingRate: rate === null,
+  };
+}
+
+export type BreakdownKey = 'group' | 'tag' | 'region';
+
+export interface BreakdownRow {
+  key: string;
+  monthly: number;
+  count: number;
+}
+
+/** Sum monthly cost per group / tag / region; tagged nodes count once per tag */
+export function costBreakdown(nodes: NodeData[], costs: Map<string, NodeCost>, by: BreakdownKey): BreakdownRow[] {
+  const rows = new Map<string, BreakdownRow>();
+  for (const node of nodes) {
+    const monthly = costs.get(node.uuid)?.monthly;
+    if (monthly === null || monthly === undefined) continue;
+    const keys = by === 'tag'
+      ? splitTags(node.tags)
+      : [by === 'group' ? node.group : node.region];
+    for (const raw of keys.length ? keys : ['']) {
+      const key = raw || '—';
+      const row = rows.get(key) ?? { key, monthly: 0, count: 0 };
+      row.monthly += monthly;
+      row.count++;
+      rows.set(key, row);
+    }
+  }
+  return Array.from(rows.values()).sort((a, b) => b.monthly - a.monthly);
+}
+
+/** Short label for a billing cycle in days */
+export function cycleLabel(days: number): string {
+  if (days <= 0) return '—';
+  const months = Math.round(days / DAYS_PER_MONTH);
+  // Short cycles round to zero months and stay in days
+  if (months > 0 && Math.abs(days - months * DAYS_PER_MONTH) <= 3) {
+    if (months % 12 === 0) return `${months / 12}Y`;
+    return `${months}M`;
+  }
+  return `${days}d`;
+}
+
+/** Valid expiry date of a node, skipping Komari's zero-time placeholder */
+export function expiryDate(node: NodeData): dayjs.Dayjs | null {
+  if (!node.expired_at) return null;
+  const d = dayjs(node.expired_at);
+  return d.isValid() && d.year() > 1 ? d : null;
+}
+
+export function formatMoney(value: number | null, currency: string, digits = 2): string {
+  if (value === null || !Number.isFinite(value)) return '—';
+  return `${currency}${value.toFixed(digits)}`;
+}
@@ -0,0 +1,172 @@
+/**
+ * Chart image export — turn a rendered Recharts panel into a standalone SVG
+ * or PNG with a caption, for downloads and the clipboard.
+ *
+ * Recharts colours come from CSS (the `--color-*` variables ChartContainer
+ * derives from `chartColors`, plus theme tokens for axes and grid), which a
+ * detached SVG cannot see. Capturing therefore inlines the computed style of
+ * every element, so the image matches the theme that is active right now.
+ */
+
+export interface ChartCaption {
+  /** e.g. "web-01 — CPU Usage" */
+  title: string;
+  /** e.g. "Last 24H" */
+  range?: string;
+}
+
+export interface ChartImage {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+/** Presentation properties worth copying; everything else keeps SVG defaults */
+const STYLE_PROPS = [
+  'fill', 'fill-opacity', 'stroke', 'stroke-width', 'stroke-opacity', 'stroke-dasharray',
+  'stroke-linecap', 'stroke-linejoin', 'opacity', 'visibility', 'display',
+  'font-family', 'font-size', 'font-weight', 'text-anchor', 'dominant-baseline',
+];
+
+const PADDING = 16;
+const TITLE_SIZE = 14;
+const META_SIZE = 11;
+const LEGEND_SIZE = 11;
+
+function inlineStyles(source: Element, target: Element) {
+  const computed = getComputedStyle(source);
+  const style = STYLE_PROPS
+    .map(prop => `${prop}:${computed.getPropertyValue(prop)}`)
+    .join(';');
+  target.setAttribute('style', style);
+  const sourceChildren = source.children;
+  const targetChildren = target.children;
+  for (let i = 0; i < sourceChildren.length; i++) inlineStyles(sourceChildren[i], targetChildren[i]);
+}
+
+function cssVar(name: string, fallback: string): string {
+  return getComputedStyle(document.documentElement).getPropertyValue(name).trim() || fallback;
+}
+
+function el(name: string, attrs: Record<string, string | number>, text?: string): SVGElement {
+  const node = document.createElementNS(SVG_NS, name);
+  for (const [key, value] of Object.entries(attrs)) node.setAttribute(key, String(value));
+  if (text !== undefined) node.textContent = text;
+  return node;
+}
+
+/** Series names and colours from the chart's HTML legend, if it has one */
+function readLegend(container: Element): { label: string; color: string }[] {
+  const swatches = container.querySelectorAll<HTMLElement>('.recharts-legend-wrapper [style*="background-color"]');
+  return Array.from(swatches).map(swatch => ({
+    label: swatch.parentElement?.textContent?.trim() ?? '',
+    color: getComputedStyle(swatch).backgroundColor,
+  })).filter(item => item.label);
+}
+
+function timestampLabel(date: Date): string {
+  const p = (n: number) => String(n).padStart(2, '0');
+  const offset = -date.getTimezoneOffset();
+  const abs = Math.abs(offset);
+  return `${date.getFullYear()}-${p(date.getMonth() + 1)}-${p(date.getDate())} ${p(date.getHours())}:${p(date.getMinutes())} ` +
+    `UTC${offset >= 0 ? '+' : '-'}${p(Math.floor(abs / 60))}:${p(abs % 60)}`;
+}
+
+/**
+ * Capture the chart inside `container` (a ChartContainer or any ancestor).
+ * Returns null when no rendered chart is found.
+ */
+export function captureChart(container: Element, caption: ChartCaption, generatedAt: Date = new Date()): ChartImage | null {
+  const source = container.querySelector<SVGSVGElement>('svg.recharts-surface');
+  if (!source) return null;
+  const box = source.getBoundingClientRect();
+  const chartWidth = Math.round(box.width);
+  const chartHeight = Math.round(box.height);
+
+  const clone = source.cloneNode(true) as SVGSVGElement;
+  inlineStyles(source, clone);
+  // Hover artefacts are not part of the chart
+  clone.querySelectorAll('.recharts-tooltip-cursor, .recharts-active-dot').forEach(node => node.remove());
+
+  const fontFamily = getComputedStyle(source).fontFamily || 'sans-serif';
+  const foreground = cssVar('--foreground', '#e5e7eb');
+  const muted = cssVar('--muted-foreground', '#9ca3af');
+  const background = cssVar('--card', '#0b0f14');
+  const legend = readLegend(container);
+
+  const headerHeight = PADDING + TITLE_SIZE + 6 + META_SIZE + (legend.length ? 8 + LEGEND_SIZE : 0) + 10;
+  const width = chartWidth + PADDING * 2;
+  const height = headerHeight + chartHeight + PADDING;
+
+  const root = el('svg', { xmlns: SVG_NS, width, height, viewBox: `0 0 ${width} ${height}`, 'font-family': fontFamily });
+  root.appendChild(el('rect', { width, height, fill: background }));
+
+  let y = PADDING + TITLE_SIZE;
+  root.appendChild(el('text', { x: PADDING, y, fill: foreground, 'font-size': TITLE_SIZE, 'font-weight': 700 }, caption.title));
+  y += 6 + META_SIZE;
+  const meta = [caption.range, timestampLabel(generatedAt)].filter(Boolean).join('  ·  ');
+  root.appendChild(el('text', { x: PADDING, y, fill: muted, 'font-size': META_SIZE }, meta));
+
+  if (legend.length) {
+    y += 8 + LEGEND_SIZE;
+    let x = PADDING;
+    for (const item of legend) {
+      root.appendChild(el('rect', { x, y: y - LEGEND_SIZE + 2, width: 8, height: 8, rx: 2, fill: item.color }));
+      const text = el('text', { x: x + 12, y, fill: foreground, 'font-size': LEGEND_SIZE }, item.label);
+      root.appendChild(text);
+      // No layout engine in a detached SVG — approximate the label width
+      x += 12 + item.label.length * LEGEND_SIZE * 0.62 + 14;
+    }
+  }
+
+  clone.setAttribute('x', String(PADDING));
+  clone.setAttribute('y', String(headerHeight));
+  clone.setAttribute('width', String(chartWidth));
+  clone.setAttribute('height', String(chartHeight));
+  root.appendChild(clone);
+
+  return { svg: new XMLSerializer().serializeToString(root), width, height };
+}
+
+/** Rasterise at `scale` × CSS pixels so the PNG stays sharp on HiDPI screens */
+export function chartToPng(image: ChartImage, scale = Math.max(2, window.devicePixelRatio || 1)): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([image.svg], { type: 'image/svg+xml;charset=utf-8' }));
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(image.width * scale);
+      canvas.height = Math.round(image.height * scale);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        URL.revokeObjectURL(url);
+        reject(new Error('Canvas unavailable'));
+        return;
+      }
+      ctx.scale(scale, scale);
+      ctx.drawImage(img, 0, 0, image.width, image.height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('SVG could not be rendered'));
+    };
+    img.src = url;
+  });
+}
+
+export function canCopyImages(): boolean {
+  return typeof ClipboardItem !== 'undefined' && !!navigator.clipboard?.write;
+}
+
+/**
+ * Copy a PNG to the clipboard. The blob is handed over as a promise so
+ * Safari keeps the user-gesture permission while the image renders.
+ */
+export async function copyPng(png: Promise<Blob>): Promise<void> {
+  if (!canCopyImages()) throw new Error('Clipboard images unsupported');
+  await navigator.clipboard.write([new ClipboardItem({ 'image/png': png })]);
+}
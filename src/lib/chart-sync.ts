@@ -0,0 +1,45 @@
+/**
+ * Crosshair sync between charts whose rows have different timestamps.
+ *
+ * Recharts' built-in `syncMethod` options match by index or by exact label,
+ * which only works for charts drawn from the same rows. Load samples and
+ * ping probes are taken at different instants, so panels are matched to the
+ * nearest timestamp instead — and not at all when the hovered moment falls
+ * outside a panel's data.
+ */
+
+function toMs(value: unknown): number {
+  return typeof value === 'number' ? value : new Date(String(value)).getTime();
+}
+
+/**
+ * Index of the time closest to `target` in an ascending list, or -1 when the
+ * list is empty or the nearest point is further than two average sample
+ * intervals away.
+ */
+export function nearestTimeIndex(times: number[], target: number): number {
+  const n = times.length;
+  if (!n || Number.isNaN(target)) return -1;
+  let lo = 0;
+  let hi = n - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (times[mid] < target) lo = mid + 1;
+    else hi = mid;
+  }
+  const best = lo > 0 && target - times[lo - 1] < times[lo] - target ? lo - 1 : lo;
+  const step = n > 1 ? (times[n - 1] - times[0]) / (n - 1) : 0;
+  return Math.abs(times[best] - target) <= step * 2 ? best : -1;
+}
+
+/** `syncMethod` for Recharts charts whose category axis holds timestamps */
+export function syncByTime(ticks: ReadonlyArray<{ value?: unknown }>, data: { activeLabel?: unknown }): number {
+  if (data.activeLabel === undefined) return -1;
+  return nearestTimeIndex(ticks.map(tick => toMs(tick.value)), toMs(data.activeLabel));
+}
+
+/** Row closest to `time` (epoch ms), or null when it is out of range */
+export function nearestRow<T extends { time: string }>(rows: T[], time: number): T | null {
+  const index = nearestTimeIndex(rows.map(row => toMs(row.time)), time);
+  return index < 0 ? null : rows[index];
+}
@@ -33,6 +33,9 @@ export interface LoadRecord {
   connections_udp: number;
   net_in: number;
   net_out: number;
+  net_total_up?: number;
+  net_total_down?: number;
+  uptime?: number;
 }
 
 export interface PingRecord {
@@ -100,6 +103,15 @@ export function labelFormatter(value: number | string): string {
   });
 }
 
+/** Points per chart we aim for when bucketing merged multi-node series */
+const TARGET_POINTS = 300;
+const MIN_BUCKET_MS = 60_000;
+
+/** Bucket width for a window of `hours`, never finer than one minute */
+export function bucketSizeFor(hours: number): number {
+  return Math.max(MIN_BUCKET_MS, Math.ceil((hours * 3600_000) / TARGET_POINTS / MIN_BUCKET_MS) * MIN_BUCKET_MS);
+}
+
 /** Shared chart card CSS class */
 export const chartCardClass = "border border-border/50 bg-card/80 backdrop-blur-xl chart-card-commander commander-corners";
 
@@ -109,6 +121,9 @@ export const chartContainerClass = "h-[200px] sm:h-[250px] md:h-[280px] w-full !
 /** Grid stroke color — theme-aware, using CSS variable */
 export const gridStrokeColor = "var(--border)";
 
+/** Tooltip cursor drawn as a vertical crosshair, so synced charts line up visibly */
+export const crosshairCursor = { stroke: "var(--muted-foreground)", strokeOpacity: 0.6, strokeDasharray: "3 3" };
+
 /**
  * Process raw ping records into chart-ready data points.
  * - Groups records by time with jitter tolerance
@@ -0,0 +1,77 @@
+/**
+ * Node comparison helpers — selection limits, URL encoding and alignment of
+ * several nodes' series onto one shared time axis.
+ */
+
+import type { ChartDataRow } from '@/lib/chart-utils';
+
+export const MIN_COMPARE = 2;
+export const MAX_COMPARE = 8;
+
+/** Query parameter carrying the compared uuids, comma separated */
+export const COMPARE_PARAM = 'nodes';
+
+/** One distinct colour per compared node (chartColors repeats hues) */
+export const compareColors = [
+  "oklch(0.75 0.18 195)",  // Cyan
+  "oklch(0.7 0.22 330)",   // Magenta
+  "oklch(0.8 0.18 85)",    // Amber
+  "oklch(0.75 0.2 145)",   // Green
+  "oklch(0.65 0.25 15)",   // Red
+  "oklch(0.65 0.18 260)",  // Indigo
+  "oklch(0.78 0.14 50)",   // Orange
+  "oklch(0.85 0.05 250)",  // Slate
+] as const;
+
+export function compareUrl(uuids: string[]): string {
+  return `/compare?${COMPARE_PARAM}=${uuids.slice(0, MAX_COMPARE).map(encodeURIComponent).join(',')}`;
+}
+
+export function parseCompareParam(value: string | null): string[] {
+  if (!value) return [];
+  const uuids = value.split(',').map(s => decodeURIComponent(s.trim())).filter(Boolean);
+  return Array.from(new Set(uuids)).slice(0, MAX_COMPARE);
+}
+
+export interface CompareSeries {
+  /** Data key in the merged rows, usually the node uuid */
+  key: string;
+  points: { time: number; value: number | null }[];
+}
+
+/**
+ * Merge per-node series into rows on a continuous bucket grid. Samples that
+ * fall into the same bucket are averaged; buckets a node has no sample for
+ * stay null so lines break instead of bridging outages.
+ */
+export function alignSeries(series: CompareSeries[], bucketMs: number): ChartDataRow[] {
+  const sums = new Map<string, Map<number, { sum: number; n: number }>>();
+  let min = Infinity;
+  let max = -Infinity;
+
+  for (const s of series) {
+    const buckets = new Map<number, { sum: number; n: number }>();
+    for (const p of s.points) {
+      if (p.value === null || !Number.isFinite(p.value) || !Number.isFinite(p.time)) continue;
+      const b = Math.floor(p.time / bucketMs) * bucketMs;
+      const acc = buckets.get(b);
+      if (acc) { acc.sum += p.value; acc.n++; } else buckets.set(b, { sum: p.value, n: 1 });
+      if (b < min) min = b;
+      if (b > max) max = b;
+    }
+    sums.set(s.key, buckets);
+  }
+
+  if (!Number.isFinite(min)) return [];
+
+  const rows: ChartDataRow[] = [];
+  for (let b = min; b <= max; b += bucketMs) {
+    const row: ChartDataRow = { time: new Date(b).toISOString() };
+    for (const s of series) {
+      const acc = sums.get(s.key)?.get(b);
+      row[s.key] = acc ? Math.round((acc.sum / acc.n) * 100) / 100 : null;
+    }
+    rows.push(row);
+  }
+  return rows;
+}
@@ -0,0 +1,86 @@
+/**
+ * Min/max/avg downsampling for long history ranges.
+ *
+ * Rows are grouped into equal time buckets; each bucket becomes one row whose
+ * series hold the bucket average, plus a `<key>_range` tuple with its min and
+ * max that Recharts draws as a shaded envelope (an Area with a [low, high]
+ * dataKey). The heavy lifting runs in `downsample.worker.ts`.
+ */
+
+export type SampleRow = { time: string };
+
+export type EnvelopeRow<T extends SampleRow, K extends keyof T & string> = T & {
+  [P in K as `${P}_range`]?: [number, number];
+};
+
+/** Row shape as it crosses the worker boundary */
+export type WorkerRow = SampleRow & Record<string, unknown>;
+
+export interface DownsampleRequest {
+  id: number;
+  rows: WorkerRow[];
+  keys: string[];
+  buckets: number;
+}
+
+export interface DownsampleResponse {
+  id: number;
+  rows: WorkerRow[];
+}
+
+/** Screen pixels per bucket — fine enough that the envelope still shows spikes */
+export const PIXELS_PER_BUCKET = 3;
+
+/** Data key of the min–max envelope for `key` */
+export function rangeKey<K extends string>(key: K): `${K}_range` {
+  return `${key}_range`;
+}
+
+/**
+ * Reduce `rows` (ascending by time) to at most `buckets` rows. Rows are
+ * returned unchanged when there are already few enough of them. Non-numeric
+ * values are ignored; a bucket's time is that of its first sample so it
+ * stays a real timestamp on the category axis.
+ */
+export function downsampleEnvelope<T extends SampleRow, K extends keyof T & string>(
+  rows: T[],
+  keys: K[],
+  buckets: number,
+): EnvelopeRow<T, K>[] {
+  if (buckets < 1 || rows.length <= buckets) return rows as EnvelopeRow<T, K>[];
+
+  const times = rows.map(row => new Date(row.time).getTime());
+  const first = times[0];
+  const width = (times[times.length - 1] - first) / buckets || 1;
+
+  const out: EnvelopeRow<T, K>[] = [];
+  let start = 0;
+  while (start < rows.length) {
+    const bucket = Math.min(buckets - 1, Math.floor((times[start] - first) / width));
+    let end = start + 1;
+    while (end < rows.length && Math.min(buckets - 1, Math.floor((times[end] - first) / width)) === bucket) end++;
+
+    const row: Record<string, unknown> = { ...rows[start] };
+    for (const key of keys) {
+      let sum = 0;
+      let count = 0;
+      let min = Infinity;
+      let max = -Infinity;
+      for (let i = start; i < end; i++) {
+        const value = rows[i][key];
+        if (typeof value !== 'number' || Number.isNaN(value)) continue;
+        sum += value;
+        count++;
+        if (value < min) min = value;
+        if (value > max) max = value;
+      }
+      if (count) {
+        row[key] = sum / count;
+        row[rangeKey(key)] = [min, max];
+      }
+    }
+    out.push(row as EnvelopeRow<T, K>);
+    start = end;
+  }
+  return out;
+}
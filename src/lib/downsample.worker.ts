@@ -0,0 +1,7 @@
+import { downsampleEnvelope, type DownsampleRequest, type DownsampleResponse } from './downsample';
+
+self.onmessage = (e: MessageEvent<DownsampleRequest>) => {
+  const { id, rows, keys, buckets } = e.data;
+  const response: DownsampleResponse = { id, rows: downsampleEnvelope(rows, keys, buckets) };
+  self.postMessage(response);
+};
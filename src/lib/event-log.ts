@@ -0,0 +1,144 @@
+/**
+ * Persistent event timeline.
+ *
+ * Events are derived client-side from consecutive node snapshots (status
+ * transitions, uptime resets, quota / expiry levels) and from alert rule
+ * transitions, then stored in IndexedDB together with the last-seen state per
+ * node, so changes that happened while the page was closed are still recorded
+ * on the next load.
+ */
+
+import type { NodeWithStatus } from '@/services/api';
+import { calcTrafficUsage, getExpiryStatus } from '@/lib/utils';
+import type { TrafficLimitType } from '@/lib/utils';
+import { readSnapshot, writeSnapshot } from '@/lib/snapshot-cache';
+import { isUptimeReset } from '@/lib/reboot';
+import { getExpirySettings } from '@/lib/expiry';
+
+export type EventKind = 'offline' | 'online' | 'alert' | 'resolved' | 'reboot' | 'quota' | 'expiry';
+
+export type EventSeverity = 'info' | 'warning' | 'critical';
+
+export interface TimelineEvent {
+  id: string;
+  /** Epoch ms */
+  time: number;
+  uuid: string;
+  node: string;
+  group: string;
+  kind: EventKind;
+  severity: EventSeverity;
+  /** Short English summary, stable for export */
+  message: string;
+}
+
+export type QuotaLevel = 'normal' | 'warning' | 'exceeded';
+
+/** Last observed state per node, used to detect transitions across reloads */
+export interface NodeFlags {
+  status: 'online' | 'offline';
+  uptime: number;
+  quota: QuotaLevel;
+  expiry: 'normal' | 'warning' | 'expired' | null;
+}
+
+export interface EventLogData {
+  events: TimelineEvent[];
+  flags: Record<string, NodeFlags>;
+}
+
+const STORAGE_KEY = 'events';
+/** Keep at most this many events … */
+export const MAX_EVENTS = 5000;
+/** … and none older than this */
+export const EVENT_RETENTION_MS = 30 * 86400_000;
+
+/** Quota percentages at which a warning / exceeded event is recorded */
+const QUOTA_WARNING_PCT = 80;
+const QUOTA_EXCEEDED_PCT = 100;
+
+let eventSeq = 0;
+
+export function makeEventId(time: number): string {
+  return `${time.toString(36)}-${(++eventSeq).toString(36)}`;
+}
+
+export function quotaLevel(node: NodeWithStatus): QuotaLevel {
+  const limit = node.traffic_limit ?? 0;
+  if (!node.stats || limit <= 0) return 'normal';
+  const type = (node.traffic_limit_type || 'sum') as TrafficLimitType;
+  const pct = (calcTrafficUsage(node.stats.network.totalUp, node.stats.network.totalDown, type) / limit) * 100;
+  if (pct >= QUOTA_EXCEEDED_PCT) return 'exceeded';
+  if (pct >= QUOTA_WARNING_PCT) return 'warning';
+  return 'normal';
+}
+
+export function currentFlags(node: NodeWithStatus): NodeFlags {
+  return {
+    status: node.status,
+    uptime: node.stats?.uptime ?? 0,
+    quota: quotaLevel(node),
+    expiry: node.price === -1 ? null : getExpiryStatus(node.expired_at),
+  };
+}
+
+/**
+ * Compare a node's current state with its previous flags and describe what changed.
+ * Nodes without stats have no known status yet and produce nothing.
+ */
+export function diffNodeEvents(
+  node: NodeWithStatus,
+  prev: NodeFlags | undefined,
+  now: number,
+): { flags: NodeFlags; events: TimelineEvent[] } | null {
+  if (!node.stats) return null;
+  const flags = currentFlags(node);
+  if (!prev) return { flags, events: [] };
+
+  const events: TimelineEvent[] = [];
+  const base = { uuid: node.uuid, node: node.name, group: node.group || '', time: now };
+  const push = (kind: EventKind, severity: EventSeverity, message: string) =>
+    events.push({ ...base, id: makeEventId(now), kind, severity, message });
+
+  if (prev.status !== flags.status) {
+    if (flags.status === 'offline') push('offline', 'critical', 'Node went offline');
+    else push('online', 'info', 'Node came back online');
+  }
+
+  if (flags.status === 'online' && isUptimeReset(prev.uptime, flags.uptime)) {
+    push('reboot', 'warning', `Rebooted (uptime reset from ${Math.round(prev.uptime / 60)} min)`);
+  }
+  // Keep the last known uptime while offline so the reset is caught on recovery
+  if (flags.status === 'offline') flags.uptime = prev.uptime;
+
+  if (prev.quota !== flags.quota && flags.quota !== 'normal') {
+    push('quota', flags.quota === 'exceeded' ? 'critical' : 'warning',
+      flags.quota === 'exceeded' ? 'Traffic quota exceeded' : `Traffic quota above ${QUOTA_WARNING_PCT}%`);
+  }
+
+  if (prev.expiry !== flags.expiry && (flags.expiry === 'warning' || flags.expiry === 'expired')) {
+    push('expiry', flags.expiry === 'expired' ? 'critical' : 'warning',
+      flags.expiry === 'expired' ? 'Service expired' : `Service expires within ${getExpirySettings().warningDays} days`);
+  }
+
+  return { flags, events };
+}
+
+/** Drop events past retention and beyond the size cap (keeps newest) */
+export function pruneEvents(events: TimelineEvent[], now: number = Date.now()): TimelineEvent[] {
+  const cutoff = now - EVENT_RETENTION_MS;
+  const kept = events.filter(e => e.time >= cutoff);
+  return kept.length > MAX_EVENTS ? kept.slice(kept.length - MAX_EVENTS) : kept;
+}
+
+export async function loadEventLog(): Promise<EventLogData> {
+  const cached = await readSnapshot<EventLogData>(STORAGE_KEY);
+  return {
+    events: pruneEvents(cached?.value.events ?? []),
+    flags: cached?.value.flags ?? {},
+  };
+}
+
+export function saveEventLog(data: EventLogData): Promise<void> {
+  return writeSnapshot(STORAGE_KEY, data);
+}
@@ -0,0 +1,71 @@
+/**
+ * Expiry warning settings, shared by the expiry badges and the renewal
+ * calendar. Kept in a module-level copy so `getExpiryStatus` can read it on
+ * every render without touching localStorage; components subscribe through
+ * `useExpirySettings` so badges follow changes.
+ */
+
+export interface ExpirySettings {
+  /** Badges turn to "warning" this many days before expiry */
+  warningDays: number;
+  /** Reminder offsets (days before expiry) written as alarms into .ics exports */
+  reminderDays: number[];
+}
+
+export const DEFAULT_EXPIRY_SETTINGS: ExpirySettings = {
+  warningDays: 7,
+  reminderDays: [30, 7, 1],
+};
+
+const STORAGE_KEY = 'expirySettings';
+
+/** Whole, non-negative day offsets only — same rule as `parseReminderDays` */
+const isDayCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+function load(): ExpirySettings {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      return {
+        warningDays: isDayCount(parsed?.warningDays)
+          ? parsed.warningDays
+          : DEFAULT_EXPIRY_SETTINGS.warningDays,
+        reminderDays: Array.isArray(parsed?.reminderDays)
+          ? parsed.reminderDays.filter(isDayCount)
+          : DEFAULT_EXPIRY_SETTINGS.reminderDays,
+      };
+    }
+  } catch {
+    // Corrupt storage — fall back to defaults
+  }
+  return DEFAULT_EXPIRY_SETTINGS;
+}
+
+let current: ExpirySettings = typeof localStorage === 'undefined' ? DEFAULT_EXPIRY_SETTINGS : load();
+const listeners = new Set<() => void>();
+
+export function getExpirySettings(): ExpirySettings {
+  return current;
+}
+
+export function setExpirySettings(settings: ExpirySettings): void {
+  if (settings === current) return;
+  current = settings;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  listeners.forEach(listener => listener());
+}
+
+/** Listen for settings changes (useSyncExternalStore-compatible) */
+export function subscribeExpirySettings(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Parse "30, 7, 1" into sorted unique day offsets */
+export function parseReminderDays(value: string): number[] {
+  const days = value.split(/[,\s]+/).map(Number).filter(isDayCount);
+  return Array.from(new Set(days)).sort((a, b) => b - a);
+}
@@ -0,0 +1,96 @@
+/**
+ * File export helpers — CSV serialisation and browser downloads.
+ */
+
+export interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => string | number | boolean | null | undefined;
+}
+
+/** Leading characters a spreadsheet would evaluate as a formula */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function escapeCsv(value: string | number | boolean | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  let s = String(value);
+  // Node names and tags are user-controlled — quote anything that would run as a
+  // formula, but leave plain numbers such as -1 alone
+  if (typeof value === 'string' && FORMULA_PREFIX.test(s) && !Number.isFinite(Number(s))) s = `'${s}`;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/** Serialise rows to RFC 4180 CSV */
+export function toCsv<T>(rows: T[], columns: CsvColumn<T>[]): string {
+  const lines = [columns.map(c => escapeCsv(c.header)).join(',')];
+  for (const row of rows) {
+    lines.push(columns.map(c => escapeCsv(c.value(row))).join(','));
+  }
+  return lines.join('\r\n');
+}
+
+/** Trigger a browser download of a Blob */
+export function downloadBlob(filename: string, blob: Blob): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/** Trigger a browser download of text content */
+export function downloadText(filename: string, content: string, mime: string): void {
+  // BOM so spreadsheet apps detect UTF-8 in CSV files
+  const prefix = mime.startsWith('text/csv') ? '\uFEFF' : '';
+  downloadBlob(filename, new Blob([prefix + content], { type: mime }));
+}
+
+/** Filename-safe timestamp, e.g. 20240131-2359 */
+export function fileTimestamp(date: Date = new Date()): string {
+  const p = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}${p(date.getMonth() + 1)}${p(date.getDate())}-${p(date.getHours())}${p(date.getMinutes())}`;
+}
+
+/** Name reduced to characters that are safe in a filename on every OS */
+export function fileSlug(name: string): string {
+  return name.trim().replace(/[^\p{L}\p{N}._-]+/gu, '_').replace(/^_+|_+$/g, '') || 'node';
+}
+
+/** Rows as plain objects keyed by column header, for JSON exports */
+export function toRecords<T>(rows: T[], columns: CsvColumn<T>[]): Record<string, string | number | boolean | null>[] {
+  return rows.map(row => {
+    const record: Record<string, string | number | boolean | null> = {};
+    for (const c of columns) record[c.header] = c.value(row) ?? null;
+    return record;
+  });
+}
+
+export type ExportTimeZone = 'local' | 'utc';
+
+const TIME_ZONE_KEY = 'exportTimeZone';
+
+export function loadExportTimeZone(): ExportTimeZone {
+  return localStorage.getItem(TIME_ZONE_KEY) === 'utc' ? 'utc' : 'local';
+}
+
+export function saveExportTimeZone(tz: ExportTimeZone): void {
+  localStorage.setItem(TIME_ZONE_KEY, tz);
+}
+
+/**
+ * ISO 8601 timestamp, either in UTC ("Z") or in the browser's zone with an
+ * explicit offset so spreadsheets and scripts never have to guess.
+ */
+export function formatExportTime(time: string | number | Date, tz: ExportTimeZone): string {
+  const d = new Date(time);
+  if (Number.isNaN(d.getTime())) return '';
+  if (tz === 'utc') return d.toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const p = (n: number) => String(n).padStart(2, '0');
+  const offset = -d.getTimezoneOffset();
+  const sign = offset >= 0 ? '+' : '-';
+  const abs = Math.abs(offset);
+  return `${d.getFullYear()}-${p(d.getMonth() + 1)}-${p(d.getDate())}T${p(d.getHours())}:${p(d.getMinutes())}:${p(d.getSeconds())}` +
+    `${sign}${p(Math.floor(abs / 60))}:${p(abs % 60)}`;
+}
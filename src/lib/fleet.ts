@@ -0,0 +1,130 @@
+/**
+ * Fleet-wide aggregation — merge every node's load history into common time
+ * buckets to get total bandwidth, CPU spread, online count and traffic volume.
+ */
+
+import type { LoadRecord } from '@/lib/chart-utils';
+
+export interface FleetBucket {
+  /** ISO time of the bucket start */
+  time: string;
+  /** Summed bandwidth, bytes/s */
+  netIn: number;
+  netOut: number;
+  cpuAvg: number;
+  cpuMax: number;
+  /** Nodes with at least one sample in the bucket */
+  online: number;
+  /** Bytes transferred by all nodes during the bucket */
+  traffic: number;
+  /** Running total of `traffic` from the start of the window */
+  trafficTotal: number;
+}
+
+export interface FleetSummary {
+  peakIn: number;
+  peakOut: number;
+  avgCpu: number;
+  peakCpu: number;
+  maxOnline: number;
+  minOnline: number;
+  totalTraffic: number;
+}
+
+interface NodeAcc {
+  netIn: number;
+  netOut: number;
+  cpu: number;
+  n: number;
+}
+
+/**
+ * Aggregate per-node records into fleet buckets. Each node's samples are first
+ * averaged within the bucket so nodes with a finer report interval do not
+ * weigh more than others.
+ */
+export function aggregateFleet(histories: LoadRecord[][], bucketMs: number): FleetBucket[] {
+  const buckets = new Map<number, NodeAcc[]>();
+  let min = Infinity;
+  let max = -Infinity;
+
+  for (const records of histories) {
+    const perNode = new Map<number, NodeAcc>();
+    for (const r of records) {
+      const ts = new Date(r.time).getTime();
+      if (isNaN(ts)) continue;
+      const b = Math.floor(ts / bucketMs) * bucketMs;
+      const acc = perNode.get(b) ?? { netIn: 0, netOut: 0, cpu: 0, n: 0 };
+      acc.netIn += r.net_in || 0;
+      acc.netOut += r.net_out || 0;
+      acc.cpu += Math.min(Math.max(r.cpu || 0, 0), 100);
+      acc.n++;
+      perNode.set(b, acc);
+    }
+    for (const [b, acc] of perNode) {
+      const list = buckets.get(b);
+      if (list) list.push(acc); else buckets.set(b, [acc]);
+      if (b < min) min = b;
+      if (b > max) max = b;
+    }
+  }
+
+  if (!Number.isFinite(min)) return [];
+
+  const result: FleetBucket[] = [];
+  let trafficTotal = 0;
+  for (let b = min; b <= max; b += bucketMs) {
+    const nodes = buckets.get(b) ?? [];
+    let netIn = 0;
+    let netOut = 0;
+    let cpuSum = 0;
+    let cpuMax = 0;
+    for (const acc of nodes) {
+      const cpu = acc.cpu / acc.n;
+      netIn += acc.netIn / acc.n;
+      netOut += acc.netOut / acc.n;
+      cpuSum += cpu;
+      if (cpu > cpuMax) cpuMax = cpu;
+    }
+    const traffic = (netIn + netOut) * (bucketMs / 1000);
+    trafficTotal += traffic;
+    result.push({
+      time: new Date(b).toISOString(),
+      netIn,
+      netOut,
+      cpuAvg: nodes.length ? cpuSum / nodes.length : 0,
+      cpuMax,
+      online: nodes.length,
+      traffic,
+      trafficTotal,
+    });
+  }
+  return result;
+}
+
+export function summarizeFleet(buckets: FleetBucket[]): FleetSummary {
+  const active = buckets.filter(b => b.online > 0);
+  return {
+    peakIn: Math.max(0, ...buckets.map(b => b.netIn)),
+    peakOut: Math.max(0, ...buckets.map(b => b.netOut)),
+    avgCpu: active.length ? active.reduce((s, b) => s + b.cpuAvg, 0) / active.length : 0,
+    peakCpu: Math.max(0, ...buckets.map(b => b.cpuMax)),
+    maxOnline: Math.max(0, ...buckets.map(b => b.online)),
+    minOnline: buckets.length ? Math.min(...buckets.map(b => b.online)) : 0,
+    totalTraffic: buckets.length ? buckets[buckets.length - 1].trafficTotal : 0,
+  };
+}
+
+/** Run `fn` over `items` with at most `limit` calls in flight */
+export async function mapLimit<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,92 @@
+/**
+ * Minimal iCalendar (RFC 5545) writer for all-day events with display alarms.
+ */
+
+export interface IcsEvent {
+  uid: string;
+  /** All-day event date */
+  date: Date;
+  summary: string;
+  description?: string;
+  url?: string;
+  /** Alarm offsets in days before the event */
+  alarmDays?: number[];
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/\r?\n/g, '\\n')
+    .replace(/([,;])/g, '\\$1');
+}
+
+/** Fold lines longer than 75 octets as required by the spec */
+function fold(line: string): string {
+  const bytes = new TextEncoder().encode(line);
+  if (bytes.length <= 75) return line;
+  const parts: string[] = [];
+  let chunk = '';
+  let size = 0;
+  for (const ch of line) {
+    const n = new TextEncoder().encode(ch).length;
+    // Continuation lines start with a space, which counts towards their 75 octets
+    if (size + n > (parts.length ? 74 : 75)) {
+      parts.push(chunk);
+      chunk = '';
+      size = 0;
+    }
+    chunk += ch;
+    size += n;
+  }
+  parts.push(chunk);
+  return parts.join('\r\n ');
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+function formatDate(d: Date): string {
+  return `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}`;
+}
+
+function formatStamp(d: Date): string {
+  return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`;
+}
+
+export function buildIcs(events: IcsEvent[], calendarName: string): string {
+  const stamp = formatStamp(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//komari-theme-commander//expiry//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+  ];
+
+  for (const ev of events) {
+    const next = new Date(ev.date.getFullYear(), ev.date.getMonth(), ev.date.getDate() + 1);
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${ev.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${formatDate(ev.date)}`,
+      `DTEND;VALUE=DATE:${formatDate(next)}`,
+      `SUMMARY:${escapeText(ev.summary)}`,
+    );
+    if (ev.description) lines.push(`DESCRIPTION:${escapeText(ev.description)}`);
+    if (ev.url) lines.push(`URL:${ev.url}`);
+    for (const days of ev.alarmDays ?? []) {
+      lines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `TRIGGER:-P${days}D`,
+        `DESCRIPTION:${escapeText(ev.summary)}`,
+        'END:VALARM',
+      );
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
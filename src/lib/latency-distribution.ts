@@ -0,0 +1,166 @@
+/**
+ * Ping latency distributions — histogram, CDF, time × latency heatmap and
+ * rolling percentile bands for one ping task.
+ *
+ * Averages and a single p50/p99 pair hide multi-modal latency (e.g. traffic
+ * alternating between two routes); these views keep the shape visible.
+ * Lost probes (negative values) are excluded throughout.
+ */
+import type { PingRecord } from './chart-utils';
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+  /** Last bin also holds everything above the clipping percentile */
+  overflow: boolean;
+}
+
+export interface CdfPoint {
+  latency: number;
+  /** Share of samples at or below `latency`, 0–100 */
+  pct: number;
+}
+
+export interface LatencyHeatmap {
+  /** Start of each time column, epoch ms */
+  times: number[];
+  /** Bin edges, length = rows + 1, ascending */
+  edges: number[];
+  /** cells[column][row] — share of the column's samples in that bin, 0–1 */
+  cells: number[][];
+}
+
+/** Percentiles offered for bands on the line chart */
+export const BAND_PERCENTILES = [50, 75, 90, 95, 99];
+
+const BANDS_KEY = 'pingBandPercentiles';
+
+/** Histogram and heatmap ignore the slowest 0.5% so one timeout doesn't flatten the rest */
+const CLIP_PERCENTILE = 99.5;
+
+export function loadBandPercentiles(): number[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(BANDS_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter(p => BAND_PERCENTILES.includes(p)) : [];
+  } catch {
+    // Corrupt storage — no bands
+    return [];
+  }
+}
+
+export function saveBandPercentiles(percentiles: number[]): void {
+  localStorage.setItem(BANDS_KEY, JSON.stringify(percentiles));
+}
+
+/** Successful samples of one task, ascending by time */
+export function taskSamples(records: PingRecord[], taskId: number): { time: number; value: number }[] {
+  return records
+    .filter(r => r.task_id === taskId && r.value >= 0)
+    .map(r => ({ time: new Date(r.time).getTime(), value: r.value }))
+    .sort((a, b) => a.time - b.time);
+}
+
+/** Linear-interpolated percentile of an ascending list */
+export function percentile(sorted: number[], p: number): number | null {
+  if (!sorted.length) return null;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lo = Math.floor(rank);
+  const hi = Math.ceil(rank);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (rank - lo);
+}
+
+function clipRange(sorted: number[]): [number, number] {
+  const min = sorted[0];
+  const max = percentile(sorted, CLIP_PERCENTILE) ?? min;
+  return [min, max > min ? max : min + 1];
+}
+
+export function latencyHistogram(values: number[], bins = 30): HistogramBin[] {
+  if (!values.length) return [];
+  const sorted = [...values].sort((a, b) => a - b);
+  const [min, max] = clipRange(sorted);
+  const width = (max - min) / bins;
+  const out: HistogramBin[] = Array.from({ length: bins }, (_, i) => ({
+    from: min + i * width,
+    to: min + (i + 1) * width,
+    count: 0,
+    overflow: false,
+  }));
+  for (const v of sorted) out[Math.min(bins - 1, Math.floor((v - min) / width))].count++;
+  out[bins - 1].overflow = sorted[sorted.length - 1] > max;
+  return out;
+}
+
+/** CDF sampled at up to `points` latencies */
+export function latencyCdf(values: number[], points = 100): CdfPoint[] {
+  if (!values.length) return [];
+  const sorted = [...values].sort((a, b) => a - b);
+  const n = sorted.length;
+  const step = Math.max(1, Math.floor(n / points));
+  const out: CdfPoint[] = [];
+  for (let i = 0; i < n; i += step) out.push({ latency: sorted[i], pct: ((i + 1) / n) * 100 });
+  if (out[out.length - 1].latency !== sorted[n - 1]) out.push({ latency: sorted[n - 1], pct: 100 });
+  return out;
+}
+
+export function latencyHeatmap(samples: { time: number; value: number }[], columns = 60, rows = 24): LatencyHeatmap | null {
+  if (samples.length < 2) return null;
+  const sorted = samples.map(s => s.value).sort((a, b) => a - b);
+  const [min, max] = clipRange(sorted);
+  const binWidth = (max - min) / rows;
+  const start = samples[0].time;
+  const span = samples[samples.length - 1].time - start || 1;
+  const colWidth = span / columns;
+
+  const counts = Array.from({ length: columns }, () => new Array<number>(rows).fill(0));
+  for (const s of samples) {
+    const col = Math.min(columns - 1, Math.floor((s.time - start) / colWidth));
+    const row = Math.min(rows - 1, Math.max(0, Math.floor((s.value - min) / binWidth)));
+    counts[col][row]++;
+  }
+  return {
+    times: Array.from({ length: columns }, (_, i) => start + i * colWidth),
+    edges: Array.from({ length: rows + 1 }, (_, i) => min + i * binWidth),
+    cells: counts.map(col => {
+      const total = col.reduce((a, b) => a + b, 0);
+      return col.map(c => (total ? c / total : 0));
+    }),
+  };
+}
+
+/** Data key of a percentile line / of the band between two percentiles */
+export const bandKey = (p: number) => `p${p}`;
+export const bandRangeKey = (lo: number, hi: number) => `p${lo}_${hi}`;
+
+/**
+ * Rolling percentiles at each chart row's time, from the samples within
+ * ±`halfWindowMs`. Adds `p<N>` values and `p<lo>_<hi>` [low, high] ranges
+ * between consecutive percentiles, ready to be merged into the chart rows.
+ */
+export function percentileBands<T extends { time: string }>(
+  rows: T[],
+  samples: { time: number; value: number }[],
+  percentiles: number[],
+  halfWindowMs: number,
+): Record<string, number | [number, number] | null>[] {
+  const ps = [...percentiles].sort((a, b) => a - b);
+  let lo = 0;
+  let hi = 0;
+  return rows.map(row => {
+    const t = new Date(row.time).getTime();
+    while (lo < samples.length && samples[lo].time < t - halfWindowMs) lo++;
+    while (hi < samples.length && samples[hi].time <= t + halfWindowMs) hi++;
+    const inWindow = samples.slice(lo, hi).map(s => s.value).sort((a, b) => a - b);
+
+    const out: Record<string, number | [number, number] | null> = {};
+    const values = ps.map(p => percentile(inWindow, p));
+    ps.forEach((p, i) => { out[bandKey(p)] = values[i]; });
+    for (let i = 1; i < ps.length; i++) {
+      const low = values[i - 1];
+      const high = values[i];
+      out[bandRangeKey(ps[i - 1], ps[i])] = low !== null && high !== null ? [low, high] : null;
+    }
+    return out;
+  });
+}
@@ -0,0 +1,138 @@
+/**
+ * Export column sets for node inventory and history records. Inventory
+ * columns follow the NodeTable layout: each visible table column maps to one
+ * or more raw fields, in table order.
+ */
+
+import type { NodeWithStatus } from '@/services/api';
+import type { RPC2PingTask, RPC2PingRecord, RPC2StatusRecord } from '@/lib/rpc2';
+import { formatExportTime, type CsvColumn, type ExportTimeZone } from '@/lib/export';
+import { calcTrafficUsage, getExpiryDays, type TrafficLimitType } from '@/lib/utils';
+
+type NodeColumn = CsvColumn<NodeWithStatus>;
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+const pct = (used: number | undefined, total: number | undefined) =>
+  used !== undefined && total ? round((used / total) * 100) : null;
+
+function trafficUsed(node: NodeWithStatus): number | null {
+  if (!node.stats || !node.traffic_limit_type || node.traffic_limit_type === 'no_limit') return null;
+  return calcTrafficUsage(node.stats.network.totalUp, node.stats.network.totalDown, node.traffic_limit_type as TrafficLimitType);
+}
+
+/** Fields per table column id; `sparkline` has nothing worth exporting */
+function fieldsFor(id: string, tz: ExportTimeZone): NodeColumn[] {
+  switch (id) {
+    case 'status': return [{ header: 'status', value: n => n.status }];
+    case 'name': return [
+      { header: 'name', value: n => n.name },
+      { header: 'region', value: n => n.region },
+      { header: 'group', value: n => n.group },
+      { header: 'tags', value: n => n.tags },
+      { header: 'os', value: n => n.os },
+    ];
+    case 'cpu': return [
+      { header: 'cpu_percent', value: n => (n.stats ? round(n.stats.cpu.usage) : null) },
+      { header: 'cpu_cores', value: n => n.cpu_cores },
+    ];
+    case 'ram': return [
+      { header: 'ram_used_bytes', value: n => n.stats?.ram.used },
+      { header: 'ram_total_bytes', value: n => n.stats?.ram.total ?? n.mem_total },
+      { header: 'ram_percent', value: n => pct(n.stats?.ram.used, n.stats?.ram.total) },
+    ];
+    case 'disk': return [
+      { header: 'disk_used_bytes', value: n => n.stats?.disk.used },
+      { header: 'disk_total_bytes', value: n => n.stats?.disk.total ?? n.disk_total },
+      { header: 'disk_percent', value: n => pct(n.stats?.disk.used, n.stats?.disk.total) },
+    ];
+    case 'network': return [
+      { header: 'net_up_bps', value: n => n.stats?.network.up },
+      { header: 'net_down_bps', value: n => n.stats?.network.down },
+      { header: 'net_total_up_bytes', value: n => n.stats?.network.totalUp },
+      { header: 'net_total_down_bytes', value: n => n.stats?.network.totalDown },
+    ];
+    case 'uptime': return [{ header: 'uptime_seconds', value: n => n.stats?.uptime }];
+    case 'load': return [{ header: 'load1', value: n => n.stats?.load.load1 }];
+    case 'load5': return [{ header: 'load5', value: n => n.stats?.load.load5 }];
+    case 'load15': return [{ header: 'load15', value: n => n.stats?.load.load15 }];
+    case 'swap': return [
+      { header: 'swap_used_bytes', value: n => n.stats?.swap.used },
+      { header: 'swap_total_bytes', value: n => n.stats?.swap.total ?? n.swap_total },
+      { header: 'swap_percent', value: n => pct(n.stats?.swap.used, n.stats?.swap.total) },
+    ];
+    case 'process': return [{ header: 'processes', value: n => n.stats?.process }];
+    case 'connections': return [
+      { header: 'tcp_connections', value: n => n.stats?.connections.tcp },
+      { header: 'udp_connections', value: n => n.stats?.connections.udp },
+    ];
+    case 'kernel': return [{ header: 'kernel', value: n => n.kernel_version }];
+    case 'virt': return [{ header: 'virtualization', value: n => n.virtualization }];
+    case 'arch': return [{ header: 'arch', value: n => n.arch }];
+    case 'cpuModel': return [{ header: 'cpu_model', value: n => n.cpu_name }];
+    case 'price': return [
+      { header: 'price', value: n => n.price },
+      { header: 'currency', value: n => n.currency },
+      { header: 'billing_cycle_days', value: n => n.billing_cycle },
+    ];
+    case 'expiry': return [
+      { header: 'expires_at', value: n => (getExpiryDays(n.expired_at) === null ? null : formatExportTime(n.expired_at, tz)) },
+      { header: 'expires_in_days', value: n => { const d = getExpiryDays(n.expired_at); return d === null ? null : round(d, 1); } },
+    ];
+    case 'traffic': return [
+      { header: 'traffic_limit_bytes', value: n => (n.traffic_limit && n.traffic_limit > 0 ? n.traffic_limit : null) },
+      { header: 'traffic_limit_type', value: n => n.traffic_limit_type },
+      { header: 'traffic_used_bytes', value: n => trafficUsed(n) },
+      { header: 'traffic_percent', value: n => { const used = trafficUsed(n); return used === null ? null : pct(used, n.traffic_limit); } },
+    ];
+    default: return [];
+  }
+}
+
+/**
+ * Inventory columns for the visible table columns. Billing fields are left
+ * out for guests, matching what the table shows them.
+ */
+export function nodeExportColumns(columnIds: string[], tz: ExportTimeZone, includeBilling: boolean): NodeColumn[] {
+  const columns: NodeColumn[] = [{ header: 'uuid', value: n => n.uuid }];
+  for (const id of columnIds) {
+    if (!includeBilling && (id === 'price' || id === 'expiry')) continue;
+    columns.push(...fieldsFor(id, tz));
+  }
+  return columns;
+}
+
+export function loadHistoryColumns(tz: ExportTimeZone): CsvColumn<RPC2StatusRecord>[] {
+  return [
+    { header: 'time', value: r => formatExportTime(r.time, tz) },
+    { header: 'cpu_percent', value: r => r.cpu },
+    { header: 'ram_used_bytes', value: r => r.ram },
+    { header: 'ram_total_bytes', value: r => r.ram_total },
+    { header: 'swap_used_bytes', value: r => r.swap },
+    { header: 'swap_total_bytes', value: r => r.swap_total },
+    { header: 'disk_used_bytes', value: r => r.disk },
+    { header: 'disk_total_bytes', value: r => r.disk_total },
+    { header: 'load1', value: r => r.load },
+    { header: 'load5', value: r => r.load5 },
+    { header: 'load15', value: r => r.load15 },
+    { header: 'net_in_bps', value: r => r.net_in },
+    { header: 'net_out_bps', value: r => r.net_out },
+    { header: 'net_total_up_bytes', value: r => r.net_total_up },
+    { header: 'net_total_down_bytes', value: r => r.net_total_down },
+    { header: 'processes', value: r => r.process },
+    { header: 'tcp_connections', value: r => r.connections },
+    { header: 'udp_connections', value: r => r.connections_udp },
+    { header: 'uptime_seconds', value: r => r.uptime },
+  ];
+}
+
+/** Ping records; a negative value from Komari marks a lost probe */
+export function pingHistoryColumns(tasks: Pick<RPC2PingTask, 'id' | 'name'>[], tz: ExportTimeZone): CsvColumn<RPC2PingRecord>[] {
+  const names = new Map(tasks.map(t => [t.id, t.name]));
+  return [
+    { header: 'time', value: r => formatExportTime(r.time, tz) },
+    { header: 'task_id', value: r => r.task_id },
+    { header: 'task_name', value: r => names.get(r.task_id) ?? '' },
+    { header: 'latency_ms', value: r => (r.value < 0 ? null : r.value) },
+    { header: 'lost', value: r => r.value < 0 },
+  ];
+}
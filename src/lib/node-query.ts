@@ -0,0 +1,422 @@
+/**
+ * Node search query language.
+ *
+ *   group:prod tag:hk cpu>80 ram%>70 -status:offline (os:debian OR arch:arm64) expires<7d
+ *
+ * Terms are `field<op>value` or bare words (substring match on name, region,
+ * group and tags). Adjacent terms are ANDed; `AND`/`&`, `OR`/`|`, `NOT`/`!`/`-`
+ * and parentheses combine them. Text fields take `:` (contains, `*` wildcards),
+ * `=` and `!=`; numeric fields also take `>`, `>=`, `<` and `<=`.
+ *
+ * The parser never throws: problems are collected as positioned errors and the
+ * offending term matches every node, so the rest of the query keeps working
+ * while it is being typed.
+ */
+
+import type { NodeWithStatus } from '@/services/api';
+import { metricValue, type AlertMetric } from '@/lib/alert-rules';
+import { extractRegionText, splitTags } from '@/lib/utils';
+
+export type QueryOperator = ':' | '=' | '!=' | '>' | '>=' | '<' | '<=';
+
+type NumericUnit = 'percent' | 'count' | 'mbps' | 'days';
+
+interface TextField {
+  kind: 'text';
+  name: string;
+  aliases?: string[];
+  values: (node: NodeWithStatus) => string[];
+}
+
+interface NumericField {
+  kind: 'number';
+  name: string;
+  aliases?: string[];
+  unit: NumericUnit;
+  value: (node: NodeWithStatus, now: number) => number | null;
+}
+
+export type QueryField = TextField | NumericField;
+
+const metric = (m: AlertMetric) => (node: NodeWithStatus, now: number) => metricValue(m, node, now);
+
+export const QUERY_FIELDS: QueryField[] = [
+  { kind: 'text', name: 'name', values: n => [n.name] },
+  { kind: 'text', name: 'group', values: n => [n.group] },
+  { kind: 'text', name: 'tag', aliases: ['tags'], values: n => splitTags(n.tags) },
+  { kind: 'text', name: 'region', values: n => [n.region, extractRegionText(n.region)] },
+  { kind: 'text', name: 'os', values: n => [n.os] },
+  { kind: 'text', name: 'arch', values: n => [n.arch] },
+  { kind: 'text', name: 'virt', aliases: ['virtualization'], values: n => [n.virtualization] },
+  { kind: 'text', name: 'status', values: n => [n.status] },
+  { kind: 'number', name: 'cpu', aliases: ['cpu%'], unit: 'percent', value: metric('cpu') },
+  { kind: 'number', name: 'ram', aliases: ['ram%', 'mem', 'mem%'], unit: 'percent', value: metric('ram') },
+  { kind: 'number', name: 'disk', aliases: ['disk%'], unit: 'percent', value: metric('disk') },
+  { kind: 'number', name: 'swap', aliases: ['swap%'], unit: 'percent', value: metric('swap') },
+  { kind: 'number', name: 'load', aliases: ['load1'], unit: 'count', value: metric('load1') },
+  { kind: 'number', name: 'load5', unit: 'count', value: metric('load5') },
+  { kind: 'number', name: 'load15', unit: 'count', value: metric('load15') },
+  { kind: 'number', name: 'up', unit: 'mbps', value: metric('net_up') },
+  { kind: 'number', name: 'down', unit: 'mbps', value: metric('net_down') },
+  { kind: 'number', name: 'conn', aliases: ['connections'], unit: 'count', value: metric('connections') },
+  { kind: 'number', name: 'traffic', aliases: ['traffic%'], unit: 'percent', value: metric('traffic') },
+  { kind: 'number', name: 'expires', aliases: ['expiry'], unit: 'days', value: metric('expiry_days') },
+  {
+    kind: 'number', name: 'uptime', unit: 'days',
+    value: n => (n.status === 'online' && n.stats ? n.stats.uptime / 86400 : null),
+  },
+  { kind: 'number', name: 'price', unit: 'count', value: n => n.price },
+  { kind: 'number', name: 'cores', unit: 'count', value: n => n.cpu_cores },
+];
+
+const fieldIndex = new Map<string, QueryField>();
+for (const f of QUERY_FIELDS) {
+  fieldIndex.set(f.name, f);
+  f.aliases?.forEach(a => fieldIndex.set(a, f));
+}
+
+/** Example shown next to a field in autocomplete */
+export function fieldExample(field: QueryField): string {
+  if (field.kind === 'text') return `${field.name}:…`;
+  switch (field.unit) {
+    case 'percent': return `${field.name}>80`;
+    case 'mbps': return `${field.name}>10m`;
+    case 'days': return `${field.name}<7d`;
+    default: return `${field.name}>=1`;
+  }
+}
+
+/* ── AST ── */
+
+export type QueryNode =
+  | { type: 'all' }
+  | { type: 'text'; value: string }
+  | { type: 'field'; field: QueryField; op: QueryOperator; value: string; number: number; pattern: RegExp | null }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'and' | 'or'; left: QueryNode; right: QueryNode };
+
+export type QueryErrorCode =
+  | 'unknownField'
+  | 'missingValue'
+  | 'badValue'
+  | 'badOperator'
+  | 'missingTerm'
+  | 'unclosedParen'
+  | 'unexpectedParen'
+  | 'unclosedQuote';
+
+export interface QueryError {
+  code: QueryErrorCode;
+  /** Offending source text, for the message */
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface ParsedQuery {
+  root: QueryNode;
+  errors: QueryError[];
+  empty: boolean;
+}
+
+/* ── Tokenizer ── */
+
+type TokenType = 'term' | 'and' | 'or' | 'not' | 'lparen' | 'rparen';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  start: number;
+  end: number;
+}
+
+const TERM_BREAK = /[\s()]/;
+
+function tokenize(input: string, errors: QueryError[]): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  const push = (type: TokenType, start: number, end: number) =>
+    tokens.push({ type, text: input.slice(start, end), start, end });
+
+  while (i < input.length) {
+    const c = input[i];
+    if (/\s/.test(c)) { i++; continue; }
+    if (c === '(') { push('lparen', i, ++i); continue; }
+    if (c === ')') { push('rparen', i, ++i); continue; }
+    if (c === '|' || c === '&') {
+      const len = input[i + 1] === c ? 2 : 1;
+      push(c === '|' ? 'or' : 'and', i, i + len);
+      i += len;
+      continue;
+    }
+    // Prefix negation only when glued to what it negates
+    if ((c === '!' || c === '-') && i + 1 < input.length && !/[\s)]/.test(input[i + 1])) {
+      push('not', i, ++i);
+      continue;
+    }
+
+    const start = i;
+    while (i < input.length && !TERM_BREAK.test(input[i])) {
+      if (input[i] === '"') {
+        const close = input.indexOf('"', i + 1);
+        if (close < 0) {
+          errors.push({ code: 'unclosedQuote', text: input.slice(i), start: i, end: input.length });
+          i = input.length;
+        } else {
+          i = close + 1;
+        }
+      } else {
+        i++;
+      }
+    }
+    const text = input.slice(start, i);
+    const keyword = text.toLowerCase();
+    push(keyword === 'and' ? 'and' : keyword === 'or' ? 'or' : keyword === 'not' ? 'not' : 'term', start, i);
+  }
+  return tokens;
+}
+
+/* ── Term parsing ── */
+
+const FIELD_TERM = /^([A-Za-z_][A-Za-z0-9_%]*)(!=|>=|<=|:|=|>|<)([\s\S]*)$/;
+
+function unquote(value: string): string {
+  if (!value.startsWith('"')) return value;
+  return value.endsWith('"') && value.length > 1 ? value.slice(1, -1) : value.slice(1);
+}
+
+const MBPS_UNITS: Record<string, number> = { '': 1, k: 1 / 1024, kb: 1 / 1024, m: 1, mb: 1, g: 1024, gb: 1024 };
+const DAY_UNITS: Record<string, number> = { '': 1, h: 1 / 24, d: 1, w: 7, mo: 30, y: 365 };
+
+/** Numeric value in the field's unit, or null when the unit does not fit */
+function parseNumber(value: string, unit: NumericUnit): number | null {
+  const m = /^(-?\d+(?:\.\d+)?)([a-z%]*)$/i.exec(value.trim());
+  if (!m) return null;
+  const n = parseFloat(m[1]);
+  const suffix = m[2].toLowerCase();
+  switch (unit) {
+    case 'percent': return suffix === '' || suffix === '%' ? n : null;
+    case 'count': return suffix === '' ? n : null;
+    case 'mbps': return suffix in MBPS_UNITS ? n * MBPS_UNITS[suffix] : null;
+    case 'days': return suffix in DAY_UNITS ? n * DAY_UNITS[suffix] : null;
+  }
+}
+
+function globPattern(value: string, anchored: boolean): RegExp | null {
+  if (!value.includes('*')) return null;
+  const body = value.split('*').map(s => s.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(anchored ? `^${body}$` : body, 'i');
+}
+
+function parseTerm(token: Token, errors: QueryError[]): QueryNode {
+  const m = FIELD_TERM.exec(token.text);
+  if (!m) {
+    const value = unquote(token.text).toLowerCase();
+    return value ? { type: 'text', value } : { type: 'all' };
+  }
+
+  const [, name, op, rawValue] = m;
+  const field = fieldIndex.get(name.toLowerCase());
+  const error = (code: QueryErrorCode, text = token.text): QueryNode => {
+    errors.push({ code, text, start: token.start, end: token.end });
+    return { type: 'all' };
+  };
+
+  if (!field) return error('unknownField', name);
+  const value = unquote(rawValue);
+  if (!value) return error('missingValue', name);
+
+  const operator = op as QueryOperator;
+  if (field.kind === 'text') {
+    if (operator !== ':' && operator !== '=' && operator !== '!=') return error('badOperator', op);
+    return {
+      type: 'field', field, op: operator, value: value.toLowerCase(), number: NaN,
+      pattern: globPattern(value, operator !== ':'),
+    };
+  }
+
+  const number = parseNumber(value, field.unit);
+  if (number === null) return error('badValue', value);
+  return { type: 'field', field, op: operator, value, number, pattern: null };
+}
+
+/* ── Parser ── */
+
+export function parseNodeQuery(input: string): ParsedQuery {
+  const errors: QueryError[] = [];
+  const tokens = tokenize(input, errors);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+
+  function primary(): QueryNode {
+    const token = peek();
+    if (!token || token.type === 'rparen' || token.type === 'and' || token.type === 'or') {
+      const at = token ?? tokens[pos - 1];
+      if (at) errors.push({ code: 'missingTerm', text: at.text, start: at.start, end: at.end });
+      return { type: 'all' };
+    }
+    pos++;
+    if (token.type === 'lparen') {
+      const inner = or();
+      if (peek()?.type === 'rparen') pos++;
+      else errors.push({ code: 'unclosedParen', text: '(', start: token.start, end: token.end });
+      return inner;
+    }
+    return parseTerm(token, errors);
+  }
+
+  function unary(): QueryNode {
+    if (peek()?.type === 'not') {
+      pos++;
+      return { type: 'not', child: unary() };
+    }
+    return primary();
+  }
+
+  function and(): QueryNode {
+    let node = unary();
+    for (;;) {
+      const token = peek();
+      if (!token || token.type === 'rparen' || token.type === 'or') return node;
+      if (token.type === 'and') pos++;
+      node = { type: 'and', left: node, right: unary() };
+    }
+  }
+
+  function or(): QueryNode {
+    let node = and();
+    while (peek()?.type === 'or') {
+      pos++;
+      node = { type: 'or', left: node, right: and() };
+    }
+    return node;
+  }
+
+  let root: QueryNode = { type: 'all' };
+  while (pos < tokens.length) {
+    const token = peek();
+    // Stray closers are reported and skipped so the rest still parses
+    if (token.type === 'rparen') {
+      errors.push({ code: 'unexpectedParen', text: ')', start: token.start, end: token.end });
+      pos++;
+      continue;
+    }
+    const node = or();
+    root = root.type === 'all' ? node : { type: 'and', left: root, right: node };
+  }
+
+  return { root, errors, empty: tokens.length === 0 };
+}
+
+/* ── Evaluation ── */
+
+function matchText(candidates: string[], node: Extract<QueryNode, { type: 'field' }>): boolean {
+  const values = candidates.filter(Boolean).map(v => v.toLowerCase());
+  const hit = values.some(v =>
+    node.pattern ? node.pattern.test(v) : node.op === ':' ? v.includes(node.value) : v === node.value,
+  );
+  return node.op === '!=' ? !hit : hit;
+}
+
+function compareNumber(value: number, op: QueryOperator, target: number): boolean {
+  switch (op) {
+    case '>': return value > target;
+    case '>=': return value >= target;
+    case '<': return value < target;
+    case '<=': return value <= target;
+    case '!=': return value !== target;
+    default: return value === target;
+  }
+}
+
+function evaluate(q: QueryNode, node: NodeWithStatus, now: number): boolean {
+  switch (q.type) {
+    case 'all': return true;
+    case 'text':
+      return node.name.toLowerCase().includes(q.value)
+        || !!node.region?.toLowerCase().includes(q.value)
+        || !!node.group?.toLowerCase().includes(q.value)
+        || !!node.tags?.toLowerCase().includes(q.value);
+    case 'field': {
+      if (q.field.kind === 'text') return matchText(q.field.values(node), q);
+      const value = q.field.value(node, now);
+      return value !== null && compareNumber(value, q.op, q.number);
+    }
+    case 'not': return !evaluate(q.child, node, now);
+    case 'and': return evaluate(q.left, node, now) && evaluate(q.right, node, now);
+    case 'or': return evaluate(q.left, node, now) || evaluate(q.right, node, now);
+  }
+}
+
+export function matchesNodeQuery(query: ParsedQuery, node: NodeWithStatus, now: number = Date.now()): boolean {
+  return evaluate(query.root, node, now);
+}
+
+/* ── Autocomplete ── */
+
+export interface QuerySuggestion {
+  label: string;
+  /** Replacement for the text between `from` and `to` */
+  insert: string;
+  hint?: string;
+}
+
+export interface QuerySuggestions {
+  from: number;
+  to: number;
+  items: QuerySuggestion[];
+}
+
+const MAX_VALUE_SUGGESTIONS = 12;
+
+function quoteIfNeeded(value: string): string {
+  return /[\s()"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+}
+
+/** Field names or known values for the term under the cursor */
+export function suggestNodeQuery(input: string, cursor: number, nodes: NodeWithStatus[]): QuerySuggestions {
+  let from = cursor;
+  while (from > 0 && !TERM_BREAK.test(input[from - 1])) from--;
+  let to = cursor;
+  while (to < input.length && !TERM_BREAK.test(input[to])) to++;
+
+  let word = input.slice(from, cursor);
+  // Keep a negation prefix out of the part being completed
+  const neg = /^[!-]/.exec(word)?.[0] ?? '';
+  from += neg.length;
+  word = word.slice(neg.length);
+
+  const m = FIELD_TERM.exec(word);
+  if (!m) {
+    const prefix = word.toLowerCase();
+    // The full field list only shows up on an empty box, not between terms
+    if (!prefix && !neg && input.trim()) return { from, to, items: [] };
+    const items = QUERY_FIELDS
+      .filter(f => f.name.startsWith(prefix) && f.name !== prefix)
+      .map(f => ({
+        label: f.name,
+        insert: f.kind === 'text' ? `${f.name}:` : `${f.name}>`,
+        hint: fieldExample(f),
+      }));
+    return { from, to, items };
+  }
+
+  const [, name, op, rawValue] = m;
+  const field = fieldIndex.get(name.toLowerCase());
+  if (!field || field.kind !== 'text') return { from, to, items: [] };
+
+  const prefix = unquote(rawValue).toLowerCase();
+  const counts = new Map<string, number>();
+  for (const node of nodes) {
+    for (const v of field.values(node)) {
+      if (v && v.toLowerCase().includes(prefix)) counts.set(v, (counts.get(v) ?? 0) + 1);
+    }
+  }
+  const items = Array.from(counts)
+    .filter(([v]) => v.toLowerCase() !== prefix)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, MAX_VALUE_SUGGESTIONS)
+    .map(([v, count]) => ({ label: v, insert: `${name}${op}${quoteIfNeeded(v)}`, hint: String(count) }));
+  return { from, to, items };
+}
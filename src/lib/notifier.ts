@@ -0,0 +1,153 @@
+/**
+ * Desktop notification + sound cue helpers.
+ * Pure pieces (quiet hours, rate limiting, grouping buffer, WebAudio cues)
+ * used by NotificationsProvider; nothing here touches React.
+ */
+
+export type NotifyKind = 'offline' | 'recovery' | 'critical';
+
+export interface NotificationSettings {
+  /** Show Web Notifications (requires browser permission) */
+  enabled: boolean;
+  /** Play an audible cue */
+  sound: boolean;
+  onOffline: boolean;
+  onRecovery: boolean;
+  onCritical: boolean;
+  /** Skip desktop notifications while the tab is visible */
+  onlyWhenHidden: boolean;
+  quietHours: {
+    enabled: boolean;
+    /** "HH:mm", local time */
+    start: string;
+    end: string;
+  };
+}
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  enabled: false,
+  sound: false,
+  onOffline: true,
+  onRecovery: true,
+  onCritical: true,
+  onlyWhenHidden: true,
+  quietHours: { enabled: false, start: '23:00', end: '07:00' },
+};
+
+export interface NotifyEvent {
+  kind: NotifyKind;
+  /** Node display name */
+  node: string;
+  /** Extra detail, e.g. the alert rule name */
+  detail?: string;
+}
+
+function toMinutes(hhmm: string): number {
+  const [h, m] = hhmm.split(':').map(Number);
+  return ((h || 0) * 60 + (m || 0)) % 1440;
+}
+
+/** Whether `date` falls inside the quiet-hours window (handles windows past midnight) */
+export function isQuietTime(settings: NotificationSettings, date: Date = new Date()): boolean {
+  if (!settings.quietHours.enabled) return false;
+  const start = toMinutes(settings.quietHours.start);
+  const end = toMinutes(settings.quietHours.end);
+  if (start === end) return false;
+  const now = date.getHours() * 60 + date.getMinutes();
+  return start < end ? now >= start && now < end : now >= start || now < end;
+}
+
+/** Sliding-window limiter: at most `limit` hits per `windowMs` */
+export class RateLimiter {
+  private hits: number[] = [];
+  private readonly limit: number;
+  private readonly windowMs: number;
+
+  constructor(limit: number, windowMs: number) {
+    this.limit = limit;
+    this.windowMs = windowMs;
+  }
+
+  tryAcquire(now: number = Date.now()): boolean {
+    this.hits = this.hits.filter(t => now - t < this.windowMs);
+    if (this.hits.length >= this.limit) return false;
+    this.hits.push(now);
+    return true;
+  }
+}
+
+/**
+ * Collects events for a short window and flushes them grouped by kind,
+ * so a rack going down produces one notification instead of thirty.
+ */
+export class NotifyBuffer {
+  private pending: NotifyEvent[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private readonly delayMs: number;
+  private readonly onFlush: (groups: Map<NotifyKind, NotifyEvent[]>) => void;
+
+  constructor(delayMs: number, onFlush: (groups: Map<NotifyKind, NotifyEvent[]>) => void) {
+    this.delayMs = delayMs;
+    this.onFlush = onFlush;
+  }
+
+  push(events: NotifyEvent[]): void {
+    if (events.length === 0) return;
+    this.pending.push(...events);
+    if (!this.timer) {
+      this.timer = setTimeout(() => this.flush(), this.delayMs);
+    }
+  }
+
+  flush(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.pending.length === 0) return;
+    const groups = new Map<NotifyKind, NotifyEvent[]>();
+    for (const ev of this.pending) {
+      const list = groups.get(ev.kind) ?? [];
+      list.push(ev);
+      groups.set(ev.kind, list);
+    }
+    this.pending = [];
+    this.onFlush(groups);
+  }
+
+  dispose(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.pending = [];
+  }
+}
+
+let audioCtx: AudioContext | null = null;
+
+/** Short synthesized cue — descending for trouble, ascending for recovery */
+export function playCue(kind: NotifyKind): void {
+  try {
+    audioCtx ??= new AudioContext();
+    const ctx = audioCtx;
+    const notes = kind === 'recovery' ? [660, 880] : kind === 'critical' ? [880, 660, 880] : [660, 440];
+    notes.forEach((freq, i) => {
+      const osc = ctx.createOscillator();
+      const gain = ctx.createGain();
+      const start = ctx.currentTime + i * 0.16;
+      osc.type = 'sine';
+      osc.frequency.value = freq;
+      gain.gain.setValueAtTime(0.0001, start);
+      gain.gain.exponentialRampToValueAtTime(0.15, start + 0.02);
+      gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.14);
+      osc.connect(gain).connect(ctx.destination);
+      osc.start(start);
+      osc.stop(start + 0.15);
+    });
+  } catch {
+    // Audio unavailable (autoplay policy, no device) — cues are best-effort
+  }
+}
+
+export function notificationsSupported(): boolean {
+  return typeof window !== 'undefined' && 'Notification' in window;
+}
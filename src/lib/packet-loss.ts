@@ -0,0 +1,107 @@
+/**
+ * Packet-loss views for ping tasks — a bucketed loss strip, discrete loss
+ * events and loss rate by hour of day.
+ *
+ * `processPingRecords` turns lost probes into null gaps, which hides partial
+ * loss; everything here works on the raw records, where a lost probe is a
+ * negative value.
+ */
+import type { PingRecord } from './chart-utils';
+
+export interface LossBucket {
+  start: number;
+  end: number;
+  sent: number;
+  lost: number;
+}
+
+export interface LossEvent {
+  taskId: number;
+  /** Time of the first lost probe, epoch ms */
+  start: number;
+  /** Time of the last lost probe, epoch ms */
+  end: number;
+  lost: number;
+  /** Probes sent between start and end, lost ones included */
+  sent: number;
+}
+
+export interface HourlyLoss {
+  /** Local hour of day, 0–23 */
+  hour: number;
+  sent: number;
+  lost: number;
+  /** Loss rate in percent, null when nothing was sent in that hour */
+  rate: number | null;
+}
+
+/** Successful probes allowed inside one event before it is considered over */
+export const LOSS_EVENT_GAP = 2;
+
+const isLost = (r: PingRecord) => r.value < 0;
+
+/** Probes of one task as [time ms, lost], ascending */
+function taskProbes(records: PingRecord[], taskId: number): [number, boolean][] {
+  return records
+    .filter(r => r.task_id === taskId)
+    .map(r => [new Date(r.time).getTime(), isLost(r)] as [number, boolean])
+    .sort((a, b) => a[0] - b[0]);
+}
+
+/** Loss per equal-width time bucket between `start` and `end` */
+export function lossStrip(records: PingRecord[], taskId: number, start: number, end: number, buckets = 120): LossBucket[] {
+  const width = Math.max(1, (end - start) / buckets);
+  const out: LossBucket[] = Array.from({ length: buckets }, (_, i) => ({
+    start: start + i * width,
+    end: start + (i + 1) * width,
+    sent: 0,
+    lost: 0,
+  }));
+  for (const [time, lost] of taskProbes(records, taskId)) {
+    if (time < start || time > end) continue;
+    const bucket = out[Math.min(buckets - 1, Math.floor((time - start) / width))];
+    bucket.sent++;
+    if (lost) bucket.lost++;
+  }
+  return out;
+}
+
+/**
+ * Runs of lost probes, merged while fewer than `gap` consecutive probes get
+ * through — partial loss shows up as one event rather than dozens of blips.
+ */
+export function lossEvents(records: PingRecord[], taskId: number, gap = LOSS_EVENT_GAP): LossEvent[] {
+  const events: LossEvent[] = [];
+  let current: LossEvent | null = null;
+  // Successful probes since the last loss, counted into `sent` only if the event continues
+  let pending = 0;
+
+  for (const [time, lost] of taskProbes(records, taskId)) {
+    if (lost) {
+      if (current) {
+        current.sent += pending + 1;
+        current.lost++;
+        current.end = time;
+      } else {
+        current = { taskId, start: time, end: time, lost: 1, sent: 1 };
+        events.push(current);
+      }
+      pending = 0;
+    } else if (current && ++pending >= gap) {
+      current = null;
+    }
+  }
+  return events;
+}
+
+/** Loss rate per local hour of day, over however many days `records` spans */
+export function lossByHour(records: PingRecord[], taskId: number): HourlyLoss[] {
+  const out: HourlyLoss[] = Array.from({ length: 24 }, (_, hour) => ({ hour, sent: 0, lost: 0, rate: null }));
+  for (const [time, lost] of taskProbes(records, taskId)) {
+    const slot = out[new Date(time).getHours()];
+    slot.sent++;
+    if (lost) slot.lost++;
+  }
+  for (const slot of out) slot.rate = slot.sent ? (slot.lost / slot.sent) * 100 : null;
+  return out;
+}
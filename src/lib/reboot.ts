@@ -0,0 +1,53 @@
+/**
+ * Reboot detection from uptime counters.
+ *
+ * Agents report uptime in seconds; a reboot shows up as the counter going
+ * backwards between two samples, whether those come from the live status
+ * stream or from recorded load history.
+ */
+
+/** Uptime must drop by more than this (seconds) to count as a reboot, absorbing clock jitter */
+const UPTIME_RESET_TOLERANCE = 60;
+
+/** Boots younger than this are flagged as "recently rebooted" */
+export const RECENT_REBOOT_SECONDS = 6 * 3600;
+
+export interface RebootMark {
+  /** ISO time of the first sample after the reboot (matches chart data points) */
+  time: string;
+  /** Estimated boot time, epoch ms */
+  bootAt: number;
+  /** Uptime (seconds) before the reset */
+  prevUptime: number;
+}
+
+/** True when uptime went backwards by more than the tolerance */
+export function isUptimeReset(prevUptime: number, uptime: number): boolean {
+  return prevUptime > 0 && uptime > 0 && uptime + UPTIME_RESET_TOLERANCE < prevUptime;
+}
+
+/**
+ * Find uptime resets in time-ordered records. Samples without uptime are
+ * skipped rather than treated as a reset.
+ */
+export function detectReboots(records: { time: string; uptime?: number }[]): RebootMark[] {
+  const marks: RebootMark[] = [];
+  let prevUptime = 0;
+  for (const r of records) {
+    const uptime = r.uptime ?? 0;
+    if (uptime <= 0) continue;
+    const at = new Date(r.time).getTime();
+    if (isNaN(at)) continue;
+    if (isUptimeReset(prevUptime, uptime)) {
+      marks.push({ time: new Date(at).toISOString(), bootAt: at - uptime * 1000, prevUptime });
+    }
+    prevUptime = uptime;
+  }
+  return marks;
+}
+
+/** Seconds since boot when the node came up recently, otherwise null */
+export function recentRebootAge(uptime: number | undefined): number | null {
+  if (!uptime || uptime <= 0 || uptime >= RECENT_REBOOT_SECONDS) return null;
+  return uptime;
+}
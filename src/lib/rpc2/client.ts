@@ -2,12 +2,14 @@
 import type {
   JSONRPC2Request,
   JSONRPC2Response,
+  JSONRPC2Notification,
   JSONRPC2BatchRequest,
   JSONRPC2BatchResponse,
   RPC2ConnectionStateType,
   RPC2ConnectionOptions,
   RPC2CallOptions,
   RPC2EventListeners,
+  RPC2NotificationHandler,
 } from "./types";
 import { RPC2ConnectionState } from "./types";
 
@@ -28,6 +30,7 @@ export class RPC2Client {
   private reconnectTimeout?: ReturnType<typeof setTimeout>;
   private heartbeatInterval?: ReturnType<typeof setInterval>;
   private eventListeners: RPC2EventListeners = {};
+  private notificationHandlers = new Map<string, Set<RPC2NotificationHandler>>();
 
   private readonly baseUrl: string;
   private readonly options: Required<RPC2ConnectionOptions>;
@@ -71,6 +74,33 @@ export class RPC2Client {
     this.eventListeners = { ...this.eventListeners, ...listeners };
   }
 
+  /**
+   * Subscribe to server-pushed notifications with the given method name.
+   * Returns an unsubscribe function.
+   */
+  subscribe<TParams = any>(method: string, handler: RPC2NotificationHandler<TParams>): () => void {
+    let handlers = this.notificationHandlers.get(method);
+    if (!handlers) {
+      handlers = new Set();
+      this.notificationHandlers.set(method, handlers);
+    }
+    handlers.add(handler);
+    return () => this.unsubscribe(method, handler);
+  }
+
+  /** Remove a notification handler, or every handler of the method when omitted */
+  unsubscribe(method: string, handler?: RPC2NotificationHandler): void {
+    const handlers = this.notificationHandlers.get(method);
+    if (!handlers) return;
+
+    if (handler) {
+      handlers.delete(handler);
+    }
+    if (!handler || handlers.size === 0) {
+      this.notificationHandlers.delete(method);
+    }
+  }
+
   /** Establish WebSocket connection */
   async connect(): Promise<void> {
     if (this.connectionState === RPC2ConnectionState.CONNECTED ||
@@ -336,7 +366,12 @@ export class RPC2Client {
     };
   }
 
-  private handleMessage(data: JSONRPC2Response): void {
+  private handleMessage(data: JSONRPC2Response | JSONRPC2Notification): void {
+    if ("method" in data) {
+      this.dispatchNotification(data);
+      return;
+    }
+
     if (!data.id) return;
 
     const pending = this.pendingRequests.get(data.id);
@@ -355,6 +390,20 @@ export class RPC2Client {
     }
   }
 
+  /** Route an id-less notification to the handlers subscribed to its method */
+  private dispatchNotification(notification: JSONRPC2Notification): void {
+    const handlers = this.notificationHandlers.get(notification.method);
+    if (!handlers) return;
+
+    for (const handler of [...handlers]) {
+      try {
+        handler(notification.params);
+      } catch (error) {
+        console.error(`Notification handler for ${notification.method} failed:`, error);
+      }
+    }
+  }
+
   private sendMessage(message: JSONRPC2Request): void {
     if (!this._ws || this._ws.readyState !== WebSocket.OPEN) {
       throw new Error("WebSocket not connected");
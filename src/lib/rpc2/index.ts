@@ -6,6 +6,7 @@ export type {
   JSONRPC2SuccessResponse,
   JSONRPC2ErrorResponse,
   JSONRPC2Error,
+  JSONRPC2Notification,
   JSONRPC2BatchRequest,
   JSONRPC2BatchResponse,
   JSONRPC2ErrorCodeType,
@@ -13,6 +14,7 @@ export type {
   RPC2ConnectionOptions,
   RPC2CallOptions,
   RPC2EventListeners,
+  RPC2NotificationHandler,
   RPC2NodeData,
   RPC2NodeStatus,
   RPC2StatusRecord,
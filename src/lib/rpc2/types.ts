@@ -59,6 +59,18 @@ export interface JSONRPC2ErrorResponse {
  */
 export type JSONRPC2Response<T = any> = JSONRPC2SuccessResponse<T> | JSONRPC2ErrorResponse;
 
+/**
+ * JSON-RPC 2.0 Notification Object (server-pushed, carries no id)
+ */
+export interface JSONRPC2Notification<T = any> {
+  /** JSON-RPC version, must be "2.0" */
+  jsonrpc: "2.0";
+  /** Notification method name, used to route to subscribers */
+  method: string;
+  /** Notification payload (optional) */
+  params?: T;
+}
+
 /**
  * JSON-RPC 2.0 Batch Request
  */
@@ -143,6 +155,11 @@ export interface RPC2EventListeners {
   onMessage?: (data: any) => void;
 }
 
+/**
+ * Handler for server-pushed notifications of a given method
+ */
+export type RPC2NotificationHandler<T = any> = (params: T) => void;
+
 // ============================================================
 // Komari Business Types — data structures returned by RPC2 API
 // ============================================================
@@ -0,0 +1,87 @@
+/**
+ * Saved dashboard views — named snapshots of the dashboard query parameters
+ * (view mode, filters, search query, sorting, table grouping) and the table
+ * column layout, plus JSON import/export so views can be shared between browsers.
+ */
+import { normalizeColumnSettings, type TableColumnSettings } from './table-columns';
+
+/** Query parameters a saved view captures; everything else is left out */
+export const SAVED_VIEW_PARAMS = ['view', 'group', 'tag', 'status', 'q', 'sort', 'groupBy'] as const;
+
+/** Column layout a saved view restores; widths stay a per-browser preference */
+export type SavedViewColumns = Pick<TableColumnSettings, 'order' | 'hidden' | 'pinName'>;
+
+export interface SavedView {
+  id: string;
+  name: string;
+  params: Record<string, string>;
+  /** Missing on views saved before layouts were captured — those leave columns alone */
+  columns?: SavedViewColumns;
+}
+
+const EXPORT_VERSION = 1;
+
+export function newViewId(): string {
+  return `view-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/** The saved-view subset of a query string */
+export function pickViewParams(search: string | URLSearchParams): Record<string, string> {
+  const params = new URLSearchParams(search);
+  const picked: Record<string, string> = {};
+  for (const key of SAVED_VIEW_PARAMS) {
+    const value = params.get(key);
+    if (value) picked[key] = value;
+  }
+  return picked;
+}
+
+export function pickViewColumns(settings: TableColumnSettings): SavedViewColumns {
+  const { order, hidden, pinName } = normalizeColumnSettings(settings);
+  return { order, hidden, pinName };
+}
+
+/** Current settings with a view's layout applied, keeping the user's column widths */
+export function applyViewColumns(current: TableColumnSettings, columns: SavedViewColumns): TableColumnSettings {
+  return normalizeColumnSettings({ ...columns, sizes: current.sizes });
+}
+
+export function viewSearch(view: SavedView): string {
+  const params = new URLSearchParams(view.params);
+  const search = params.toString();
+  return search ? `?${search}` : '';
+}
+
+/** True when the current query string shows exactly this view */
+export function isViewActive(view: SavedView, search: string): boolean {
+  const current = pickViewParams(search);
+  const keys = new Set([...Object.keys(current), ...Object.keys(view.params)]);
+  // The view mode alone is not a distinguishing filter when a view leaves it out
+  return Array.from(keys).every(k => (k === 'view' && !view.params.view) || current[k] === view.params[k]);
+}
+
+export function exportViews(views: SavedView[]): string {
+  return JSON.stringify({ version: EXPORT_VERSION, views: views.map(({ name, params, columns }) => ({ name, params, columns })) }, null, 2);
+}
+
+/**
+ * Parse an export file (or a bare array of views). Entries without a name are
+ * dropped, unknown parameters are stripped and column layouts normalised;
+ * throws on malformed JSON.
+ */
+export function parseViewsFile(text: string): SavedView[] {
+  const data = JSON.parse(text);
+  const list = Array.isArray(data) ? data : data?.views;
+  if (!Array.isArray(list)) throw new Error('No views found');
+  const views: SavedView[] = [];
+  for (const entry of list) {
+    if (!entry || typeof entry.name !== 'string' || !entry.name.trim()) continue;
+    const raw = entry.params && typeof entry.params === 'object' ? entry.params : {};
+    const params = pickViewParams(
+      new URLSearchParams(Object.entries(raw).filter(([, v]) => typeof v === 'string') as [string, string][]),
+    );
+    const columns = entry.columns && typeof entry.columns === 'object' ? pickViewColumns(entry.columns) : undefined;
+    views.push({ id: newViewId(), name: entry.name.trim(), params, columns });
+  }
+  return views;
+}
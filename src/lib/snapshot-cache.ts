@@ -0,0 +1,84 @@
+/**
+ * Offline snapshot cache backed by IndexedDB
+ * Keeps the last node list, live status map and recent load history so the
+ * dashboard can hydrate instantly on reload and survive backend restarts.
+ * All operations are best-effort: failures resolve to null / no-op.
+ */
+
+const DB_NAME = 'komari-commander';
+const DB_VERSION = 1;
+const STORE_NAME = 'snapshot';
+
+export interface CachedValue<T> {
+  /** Epoch ms when the value was written */
+  savedAt: number;
+  value: T;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => resolve(null);
+      request.onblocked = () => resolve(null);
+    } catch {
+      resolve(null);
+    }
+  });
+  return dbPromise;
+}
+
+/** Read a cached value */
+export async function readSnapshot<T>(key: string): Promise<CachedValue<T> | null> {
+  const db = await openDb();
+  if (!db) return null;
+  return new Promise((resolve) => {
+    try {
+      const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key);
+      request.onsuccess = () => resolve((request.result as CachedValue<T> | undefined) ?? null);
+      request.onerror = () => resolve(null);
+    } catch {
+      resolve(null);
+    }
+  });
+}
+
+/** Write a value, stamped with the current time */
+export async function writeSnapshot<T>(key: string, value: T): Promise<void> {
+  const db = await openDb();
+  if (!db) return;
+  return new Promise((resolve) => {
+    try {
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      tx.objectStore(STORE_NAME).put({ savedAt: Date.now(), value } satisfies CachedValue<T>, key);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => resolve();
+      tx.onabort = () => resolve();
+    } catch {
+      resolve();
+    }
+  });
+}
+
+/** Cache keys shared by the services that persist snapshots */
+export const SNAPSHOT_KEYS = {
+  nodes: 'nodes',
+  status: 'status',
+  loadHistory: (uuid: string, hours: number) => `load:${uuid}:${hours}`,
+} as const;
+
+/** Only short windows are cached — long ranges are large and rarely reopened */
+export const MAX_CACHED_HISTORY_HOURS = 24;
@@ -0,0 +1,161 @@
+/**
+ * Live node status store
+ * Holds the previous snapshot and emits deltas (added / removed / changed uuids
+ * plus the fields that changed) instead of whole-fleet updates. Per-uuid
+ * subscriptions let a single card re-render only when its own node changes.
+ */
+
+import type { NodeStats, NodeWithStatus } from '@/services/api';
+
+export interface NodeStatusEntry {
+  status: 'online' | 'offline';
+  stats: NodeStats | undefined;
+  /** Restored from the offline snapshot; cleared by the node's first live report */
+  cached?: boolean;
+}
+
+/** A changed field: the online status, the cached flag, or one top-level NodeStats key */
+export type NodeStatusField = 'status' | 'cached' | keyof NodeStats;
+
+export interface StatusDelta {
+  /** Uuids seen for the first time */
+  added: string[];
+  /** Uuids no longer reported by the backend */
+  removed: string[];
+  /** Existing uuids whose entry changed, with the fields that differ */
+  changed: Map<string, NodeStatusField[]>;
+}
+
+const STATS_FIELDS: (keyof NodeStats)[] = [
+  'cpu', 'ram', 'swap', 'disk', 'network', 'load',
+  'uptime', 'process', 'connections', 'message', 'updated_at',
+];
+
+/** Shallow-compare two values one level deep (nested stat groups are flat objects) */
+function shallowEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object') return false;
+  const ka = Object.keys(a);
+  if (ka.length !== Object.keys(b).length) return false;
+  return ka.every(k => (a as Record<string, unknown>)[k] === (b as Record<string, unknown>)[k]);
+}
+
+/** List the fields that differ between two entries */
+export function diffStatusEntry(prev: NodeStatusEntry, next: NodeStatusEntry): NodeStatusField[] {
+  const fields: NodeStatusField[] = [];
+  if (prev.status !== next.status) fields.push('status');
+  if (!!prev.cached !== !!next.cached) fields.push('cached');
+  if (prev.stats === next.stats) return fields;
+  if (!prev.stats || !next.stats) return [...fields, ...STATS_FIELDS];
+  for (const key of STATS_FIELDS) {
+    if (!shallowEqual(prev.stats[key], next.stats[key])) fields.push(key);
+  }
+  return fields;
+}
+
+/** True when two nodes share everything except their live status/stats */
+export function sameNodeMeta(a: NodeWithStatus, b: NodeWithStatus): boolean {
+  if (a === b) return true;
+  const keys = Object.keys(a) as (keyof NodeWithStatus)[];
+  if (keys.length !== Object.keys(b).length) return false;
+  return keys.every(k => k === 'status' || k === 'stats' || k === 'cached' || a[k] === b[k]);
+}
+
+export class NodeStatusStore {
+  private entries = new Map<string, NodeStatusEntry>();
+  private listeners = new Set<(delta: StatusDelta) => void>();
+  private nodeListeners = new Map<string, Set<() => void>>();
+
+  /** Current entry for a node — identity is stable until the node changes */
+  get(uuid: string): NodeStatusEntry | undefined {
+    return this.entries.get(uuid);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /** Plain-object copy of every entry (for persistence) */
+  toRecord(): Record<string, NodeStatusEntry> {
+    return Object.fromEntries(this.entries);
+  }
+
+  /** Uuids currently reported online */
+  onlineUuids(): string[] {
+    const result: string[] = [];
+    for (const [uuid, entry] of this.entries) {
+      if (entry.status === 'online') result.push(uuid);
+    }
+    return result;
+  }
+
+  /** Apply a full snapshot — nodes missing from it are removed */
+  replace(next: Map<string, NodeStatusEntry>): StatusDelta {
+    const delta = this.applyEntries(next);
+    for (const uuid of [...this.entries.keys()]) {
+      if (!next.has(uuid)) {
+        this.entries.delete(uuid);
+        delta.removed.push(uuid);
+      }
+    }
+    this.commit(delta);
+    return delta;
+  }
+
+  /** Apply a partial update (e.g. a push carrying only some nodes) */
+  merge(next: Map<string, NodeStatusEntry>): StatusDelta {
+    const delta = this.applyEntries(next);
+    this.commit(delta);
+    return delta;
+  }
+
+  /** Listen for fleet-wide deltas; empty updates are never emitted */
+  subscribe(listener: (delta: StatusDelta) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Listen for changes to a single node (useSyncExternalStore-compatible) */
+  subscribeNode(uuid: string, listener: () => void): () => void {
+    let set = this.nodeListeners.get(uuid);
+    if (!set) {
+      set = new Set();
+      this.nodeListeners.set(uuid, set);
+    }
+    set.add(listener);
+    return () => {
+      set.delete(listener);
+      if (set.size === 0) this.nodeListeners.delete(uuid);
+    };
+  }
+
+  private applyEntries(next: Map<string, NodeStatusEntry>): StatusDelta {
+    const delta: StatusDelta = { added: [], removed: [], changed: new Map() };
+    for (const [uuid, entry] of next) {
+      const prev = this.entries.get(uuid);
+      if (!prev) {
+        this.entries.set(uuid, entry);
+        delta.added.push(uuid);
+        continue;
+      }
+      const fields = diffStatusEntry(prev, entry);
+      if (fields.length > 0) {
+        this.entries.set(uuid, entry);
+        delta.changed.set(uuid, fields);
+      }
+    }
+    return delta;
+  }
+
+  private commit(delta: StatusDelta): void {
+    if (delta.added.length === 0 && delta.removed.length === 0 && delta.changed.size === 0) return;
+
+    const touched = [...delta.added, ...delta.removed, ...delta.changed.keys()];
+    for (const uuid of touched) {
+      this.nodeListeners.get(uuid)?.forEach(listener => listener());
+    }
+    this.listeners.forEach(listener => listener(delta));
+  }
+}
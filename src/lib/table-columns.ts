@@ -0,0 +1,95 @@
+/**
+ * NodeTable column layout — which columns show, in what order, at what width
+ * and whether the name column is pinned while scrolling horizontally.
+ */
+
+/** Shown by default, in default order */
+export const DEFAULT_COLUMNS = ['status', 'name', 'cpu', 'ram', 'disk', 'network', 'uptime', 'load', 'sparkline'];
+
+/** Available from the column manager, hidden by default */
+export const OPTIONAL_COLUMNS = [
+  'swap', 'load5', 'load15', 'process', 'connections',
+  'kernel', 'virt', 'arch', 'cpuModel', 'price', 'expiry', 'traffic', 'anomalies',
+];
+
+/** Always first and not configurable */
+export const FIXED_COLUMNS = ['select'];
+
+/** i18n key per column for the manager and for headers */
+export const COLUMN_LABELS: Record<string, string> = {
+  status: 'table.status',
+  name: 'table.node',
+  cpu: 'label.cpu',
+  ram: 'label.ram',
+  disk: 'label.disk',
+  network: 'label.network',
+  uptime: 'label.uptime',
+  load: 'label.load',
+  sparkline: 'table.cpuTrend',
+  swap: 'label.swap',
+  load5: 'table.load5',
+  load15: 'table.load15',
+  process: 'label.proc',
+  connections: 'label.tcpUdp',
+  kernel: 'label.kernel',
+  virt: 'label.virt',
+  arch: 'label.arch',
+  cpuModel: 'table.cpuModel',
+  price: 'table.price',
+  expiry: 'table.expiry',
+  traffic: 'table.traffic',
+  anomalies: 'table.anomalies',
+};
+
+export interface TableColumnSettings {
+  /** Configurable column ids in display order */
+  order: string[];
+  hidden: string[];
+  /** Widths changed by resizing, px */
+  sizes: Record<string, number>;
+  pinName: boolean;
+}
+
+export const DEFAULT_COLUMN_SETTINGS: TableColumnSettings = {
+  order: [...DEFAULT_COLUMNS, ...OPTIONAL_COLUMNS],
+  hidden: [...OPTIONAL_COLUMNS],
+  sizes: {},
+  pinName: false,
+};
+
+const KNOWN = new Set([...DEFAULT_COLUMNS, ...OPTIONAL_COLUMNS]);
+
+/**
+ * Drop unknown ids and append columns added since the settings were stored
+ * (hidden when optional), so old or imported layouts stay usable.
+ */
+export function normalizeColumnSettings(value: Partial<TableColumnSettings> | null | undefined): TableColumnSettings {
+  if (!value || typeof value !== 'object') return DEFAULT_COLUMN_SETTINGS;
+  const order = Array.isArray(value.order) ? value.order.filter(id => KNOWN.has(id)) : [];
+  const hidden = new Set(Array.isArray(value.hidden) ? value.hidden.filter(id => KNOWN.has(id)) : []);
+  for (const id of DEFAULT_COLUMN_SETTINGS.order) {
+    if (order.includes(id)) continue;
+    order.push(id);
+    if (OPTIONAL_COLUMNS.includes(id)) hidden.add(id);
+  }
+  const sizes: Record<string, number> = {};
+  if (value.sizes && typeof value.sizes === 'object') {
+    for (const [id, size] of Object.entries(value.sizes)) {
+      if (KNOWN.has(id) && typeof size === 'number' && size > 0) sizes[id] = size;
+    }
+  }
+  // The name column cannot be hidden — it is the only link to the node page
+  hidden.delete('name');
+  return { order: Array.from(new Set(order)), hidden: Array.from(hidden), sizes, pinName: !!value.pinName };
+}
+
+/** Move `id` to sit where `target` is, shifting the rest */
+export function moveColumn(order: string[], id: string, target: string): string[] {
+  if (id === target) return order;
+  const next = order.filter(c => c !== id);
+  const idx = next.indexOf(target);
+  if (idx < 0) return order;
+  const insertAt = order.indexOf(id) < order.indexOf(target) ? idx + 1 : idx;
+  next.splice(insertAt, 0, id);
+  return next;
+}
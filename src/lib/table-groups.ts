@@ -0,0 +1,121 @@
+/**
+ * NodeTable grouping — partition sorted rows into groups by a node attribute
+ * and aggregate each group for its header row.
+ *
+ * Komari has no provider field, so the provider comes from a tag written as
+ * "provider:Name" (or "provider=Name"). Grouping by tag puts a node in every
+ * group it is tagged with.
+ */
+
+import type { NodeWithStatus } from '@/services/api';
+import { isBillable, nodeCost, type BillingSettings } from '@/lib/billing';
+import { splitTags } from '@/lib/utils';
+
+export const GROUP_BY_KEYS = ['group', 'region', 'tag', 'os', 'provider'] as const;
+export type GroupByKey = typeof GROUP_BY_KEYS[number];
+
+/** Label for nodes without a value for the grouping attribute */
+export const UNGROUPED = '—';
+
+export function isGroupByKey(value: string | null): value is GroupByKey {
+  return (GROUP_BY_KEYS as readonly string[]).includes(value ?? '');
+}
+
+const PROVIDER_TAG = /^provider\s*[:=]\s*(.+)$/i;
+
+export function groupKeys(node: NodeWithStatus, by: GroupByKey): string[] {
+  switch (by) {
+    case 'group': return [node.group || UNGROUPED];
+    case 'region': return [node.region || UNGROUPED];
+    // Distribution family only — "Ubuntu 22.04.3 LTS" and "Ubuntu 24.04" share a group
+    case 'os': return [node.os?.trim().split(/\s+/)[0] || UNGROUPED];
+    case 'tag': {
+      const tags = splitTags(node.tags);
+      return tags.length ? tags : [UNGROUPED];
+    }
+    case 'provider': {
+      const match = splitTags(node.tags).map(t => PROVIDER_TAG.exec(t)).find(Boolean);
+      return [match ? match[1].trim() : UNGROUPED];
+    }
+  }
+}
+
+export interface GroupAggregate {
+  online: number;
+  total: number;
+  /** Mean CPU usage of the online members, null when none report stats */
+  avgCpu: number | null;
+  up: number;
+  down: number;
+  /** Monthly cost in the base currency, null when no member is billable */
+  monthly: number | null;
+}
+
+export interface RowGroup<T> {
+  key: string;
+  rows: T[];
+  aggregate: GroupAggregate;
+}
+
+/**
+ * Group items in their current (sorted) order. Groups are ordered by name
+ * with the ungrouped bucket last; `billing` is omitted to skip cost sums.
+ */
+export function groupRows<T>(
+  items: T[],
+  nodeOf: (item: T) => NodeWithStatus,
+  by: GroupByKey,
+  billing?: BillingSettings,
+): RowGroup<T>[] {
+  const buckets = new Map<string, T[]>();
+  for (const item of items) {
+    for (const key of groupKeys(nodeOf(item), by)) {
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(item);
+      else buckets.set(key, [item]);
+    }
+  }
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => (a === UNGROUPED ? 1 : b === UNGROUPED ? -1 : a.localeCompare(b)))
+    .map(([key, rows]) => ({ key, rows, aggregate: aggregateNodes(rows.map(nodeOf), billing) }));
+}
+
+export function aggregateNodes(nodes: NodeWithStatus[], billing?: BillingSettings): GroupAggregate {
+  let online = 0, cpuSum = 0, cpuCount = 0, up = 0, down = 0, monthly: number | null = null;
+  for (const node of nodes) {
+    if (node.status === 'online') {
+      online++;
+      if (node.stats) {
+        cpuSum += node.stats.cpu.usage;
+        cpuCount++;
+        up += node.stats.network.up;
+        down += node.stats.network.down;
+      }
+    }
+    if (billing && isBillable(node)) {
+      const cost = nodeCost(node, billing).monthly;
+      if (cost !== null) monthly = (monthly ?? 0) + cost;
+    }
+  }
+  return { online, total: nodes.length, avgCpu: cpuCount ? cpuSum / cpuCount : null, up, down, monthly };
+}
+
+const COLLAPSED_KEY = 'nodeTableCollapsed';
+
+/** Collapsed groups as "by:key" entries, so each grouping keeps its own state */
+export function loadCollapsedGroups(): string[] {
+  try {
+    const saved = localStorage.getItem(COLLAPSED_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (Array.isArray(parsed)) return parsed.filter(v => typeof v === 'string');
+    }
+  } catch {
+    // Corrupt storage — everything expanded
+  }
+  return [];
+}
+
+export function saveCollapsedGroups(collapsed: string[]): void {
+  localStorage.setItem(COLLAPSED_KEY, JSON.stringify(collapsed));
+}
@@ -0,0 +1,71 @@
+/**
+ * Absolute time windows for history charts — a custom from/to range chosen
+ * in the picker, or a zoom window dragged out on a chart.
+ *
+ * The records API only takes "hours back from now", so an absolute window is
+ * fetched as the look-back that reaches its start and then clipped.
+ */
+
+export interface TimeWindow {
+  /** Epoch ms, inclusive */
+  from: number;
+  /** Epoch ms, inclusive */
+  to: number;
+}
+
+const HOUR = 3600_000;
+
+/**
+ * Read `from`/`to` query parameters (epoch ms). The window is clamped to the
+ * retention period and to now; null when missing or empty after clamping.
+ */
+export function parseWindowParams(from: string | null, to: string | null, maxHours: number, now = Date.now()): TimeWindow | null {
+  const start = Number(from);
+  const end = Number(to);
+  if (!from || !to || !Number.isFinite(start) || !Number.isFinite(end)) return null;
+  return clampWindow({ from: start, to: end }, maxHours, now);
+}
+
+export function clampWindow(window: TimeWindow, maxHours: number, now = Date.now()): TimeWindow | null {
+  const from = Math.max(window.from, now - maxHours * HOUR);
+  const to = Math.min(window.to, now);
+  return from < to ? { from, to } : null;
+}
+
+/** Hours to request so the fetched history reaches back to the window start */
+export function windowFetchHours(window: TimeWindow, now = Date.now()): number {
+  return Math.max(1, Math.ceil((now - window.from) / HOUR));
+}
+
+/** Keep rows whose `time` (ISO string) falls inside the window */
+export function clipToWindow<T extends { time: string | number }>(rows: T[], window: TimeWindow | null): T[] {
+  if (!window) return rows;
+  return rows.filter(row => {
+    const t = new Date(row.time).getTime();
+    return t >= window.from && t <= window.to;
+  });
+}
+
+/** Value for an `<input type="datetime-local">` in the browser's zone */
+export function toDateTimeLocal(ms: number): string {
+  const d = new Date(ms);
+  const p = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${p(d.getMonth() + 1)}-${p(d.getDate())}T${p(d.getHours())}:${p(d.getMinutes())}`;
+}
+
+export function fromDateTimeLocal(value: string): number | null {
+  if (!value) return null;
+  const ms = new Date(value).getTime();
+  return Number.isNaN(ms) ? null : ms;
+}
+
+/** Compact label, e.g. "10-19 08:00 – 10-19 08:10"; the date is dropped when both ends share it */
+export function formatWindow(window: TimeWindow): string {
+  const fmt = (ms: number, withDate: boolean) => new Date(ms).toLocaleString([], {
+    ...(withDate ? { month: '2-digit', day: '2-digit' } : {}),
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+  const sameDay = new Date(window.from).toDateString() === new Date(window.to).toDateString();
+  return `${fmt(window.from, true)} – ${fmt(window.to, !sameDay)}`;
+}
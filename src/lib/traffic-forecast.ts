@@ -0,0 +1,120 @@
+/**
+ * Traffic quota forecasting.
+ *
+ * The usage rate is a least-squares slope over recent `net_total_*` history;
+ * when no usable history exists the average rate since the start of the
+ * current cycle is used instead. Quotas are assumed to reset every billing
+ * cycle, capped at one month, anchored on the node's expiry date.
+ */
+
+import type { NodeData, NodeStats } from '@/services/api';
+import type { LoadRecord } from '@/lib/chart-utils';
+import { calcTrafficUsage } from '@/lib/utils';
+import type { TrafficLimitType } from '@/lib/utils';
+
+const DAY_MS = 86400_000;
+const MONTH_MS = (365 / 12) * DAY_MS;
+/** History must span at least this long before its slope is trusted */
+const MIN_RATE_SPAN_MS = 3600_000;
+
+export interface TrafficForecast {
+  used: number;
+  limit: number;
+  /** Bytes per second */
+  rate: number;
+  rateSource: 'history' | 'cycle';
+  cycleStart: number;
+  cycleEnd: number;
+  /** Usage expected at cycle end, bytes */
+  projected: number;
+  projectedPct: number;
+  /** When the quota runs out before the cycle ends, epoch ms */
+  exhaustAt: number | null;
+  /** Projected bytes above the limit, 0 when within quota */
+  overage: number;
+}
+
+export function hasTrafficLimit(node: NodeData): boolean {
+  return !!(node.traffic_limit && node.traffic_limit > 0 && node.traffic_limit_type && node.traffic_limit_type !== 'no_limit');
+}
+
+/** Current quota cycle window; falls back to the calendar month without an expiry date */
+export function trafficCycle(node: NodeData, now: number = Date.now()): { start: number; end: number } {
+  const cycleMs = node.billing_cycle > 0 ? Math.min(node.billing_cycle * DAY_MS, MONTH_MS) : MONTH_MS;
+  const anchor = node.expired_at ? new Date(node.expired_at).getTime() : NaN;
+  if (!Number.isFinite(anchor) || new Date(anchor).getFullYear() <= 1) {
+    const d = new Date(now);
+    const start = new Date(d.getFullYear(), d.getMonth(), 1).getTime();
+    const end = new Date(d.getFullYear(), d.getMonth() + 1, 1).getTime();
+    return { start, end };
+  }
+  const steps = Math.ceil((now - anchor) / cycleMs);
+  const end = anchor + steps * cycleMs;
+  return end > now ? { start: end - cycleMs, end } : { start: end, end: end + cycleMs };
+}
+
+/**
+ * Bytes/s from time-ordered load records. Only the segment after the last
+ * counter reset is used so a quota reset inside the window does not skew it.
+ */
+export function usageRate(records: LoadRecord[], type: TrafficLimitType): number | null {
+  const points: { t: number; v: number }[] = [];
+  for (const r of records) {
+    if (r.net_total_up === undefined || r.net_total_down === undefined) continue;
+    const t = new Date(r.time).getTime();
+    if (isNaN(t)) continue;
+    const v = calcTrafficUsage(r.net_total_up, r.net_total_down, type);
+    if (points.length && v < points[points.length - 1].v) points.length = 0;
+    points.push({ t, v });
+  }
+  if (points.length < 2 || points[points.length - 1].t - points[0].t < MIN_RATE_SPAN_MS) return null;
+
+  const t0 = points[0].t;
+  let sx = 0, sy = 0, sxx = 0, sxy = 0;
+  for (const p of points) {
+    const x = (p.t - t0) / 1000;
+    sx += x; sy += p.v; sxx += x * x; sxy += x * p.v;
+  }
+  const n = points.length;
+  const denom = n * sxx - sx * sx;
+  if (denom <= 0) return null;
+  return Math.max(0, (n * sxy - sx * sy) / denom);
+}
+
+export function forecastTraffic(
+  node: NodeData,
+  stats: NodeStats | undefined,
+  historyRate: number | null | undefined,
+  now: number = Date.now(),
+): TrafficForecast | null {
+  if (!stats || !hasTrafficLimit(node)) return null;
+  const limit = node.traffic_limit!;
+  const type = node.traffic_limit_type as TrafficLimitType;
+  const used = calcTrafficUsage(stats.network.totalUp, stats.network.totalDown, type);
+  const { start, end } = trafficCycle(node, now);
+
+  const elapsed = Math.max(1, (now - start) / 1000);
+  const rate = historyRate ?? used / elapsed;
+  const remaining = Math.max(0, (end - now) / 1000);
+  const projected = used + rate * remaining;
+
+  let exhaustAt: number | null = null;
+  if (used >= limit) exhaustAt = now;
+  else if (rate > 0) {
+    const at = now + ((limit - used) / rate) * 1000;
+    if (at < end) exhaustAt = at;
+  }
+
+  return {
+    used,
+    limit,
+    rate,
+    rateSource: historyRate != null ? 'history' : 'cycle',
+    cycleStart: start,
+    cycleEnd: end,
+    projected,
+    projectedPct: (projected / limit) * 100,
+    exhaustAt,
+    overage: Math.max(0, projected - limit),
+  };
+}
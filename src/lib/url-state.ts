@@ -0,0 +1,46 @@
+/**
+ * Helpers for keeping view state in the query string so a dashboard view
+ * (filters, sorting, view mode, time range) can be linked and restored with
+ * browser back/forward.
+ */
+
+/** Null, undefined or empty string removes the parameter */
+export type QueryPatch = Record<string, string | null | undefined>;
+
+export function patchParams(params: URLSearchParams, patch: QueryPatch): URLSearchParams {
+  const next = new URLSearchParams(params);
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null || value === undefined || value === '') next.delete(key);
+    else next.set(key, value);
+  }
+  return next;
+}
+
+export interface SortParam {
+  id: string;
+  desc: boolean;
+}
+
+/** Parse "cpu:desc,name" — direction defaults to ascending */
+export function parseSortParam(value: string | null): SortParam[] {
+  if (!value) return [];
+  const seen = new Set<string>();
+  const result: SortParam[] = [];
+  for (const part of value.split(',')) {
+    const [id, dir] = part.trim().split(':');
+    if (!id || seen.has(id)) continue;
+    seen.add(id);
+    result.push({ id, desc: dir === 'desc' });
+  }
+  return result;
+}
+
+export function formatSortParam(sorting: SortParam[]): string {
+  return sorting.map(s => `${s.id}:${s.desc ? 'desc' : 'asc'}`).join(',');
+}
+
+/** Hours from a `range` parameter, limited to the ranges the page offers */
+export function parseRangeParam(value: string | null, allowed: number[], fallback: number): number {
+  const hours = Number(value);
+  return allowed.includes(hours) ? hours : fallback;
+}
@@ -3,6 +3,7 @@ import { extendTailwindMerge } from "tailwind-merge"
 import prettyBytes from "pretty-bytes"
 import dayjs from "dayjs"
 import duration from "dayjs/plugin/duration"
+import { getExpirySettings } from "@/lib/expiry"
 
 dayjs.extend(duration)
 
@@ -140,17 +141,19 @@ export function formatTrafficType(type: string): string {
 
 /**
  * Determine expiry status.
- * Returns null if no expiry date is set.
+ * Returns null if no expiry date is set. The warning window defaults to the
+ * user's expiry settings.
  */
 export function getExpiryStatus(
-  expiredAt: string | null | undefined
+  expiredAt: string | null | undefined,
+  warningDays: number = getExpirySettings().warningDays,
 ): 'normal' | 'warning' | 'expired' | null {
   if (!expiredAt) return null;
   const d = dayjs(expiredAt);
   if (!d.isValid() || d.year() <= 1) return null;
   const now = dayjs();
   if (d.isBefore(now)) return 'expired';
-  if (d.diff(now, 'day') <= 7) return 'warning';
+  if (d.diff(now, 'day') <= warningDays) return 'warning';
   return 'normal';
 }
 
@@ -168,3 +171,17 @@ export function formatExpiry(expiredAt: string): string {
   if (days <= 30) return `${days}d left`;
   return d.format('YYYY-MM-DD');
 }
+
+/** Split a node's comma/semicolon separated tag string */
+export function splitTags(tags: string | null | undefined): string[] {
+  if (!tags) return []
+  return tags.split(/[,;]/).map(t => t.trim()).filter(Boolean)
+}
+
+/** Days until expiry (negative once expired), or null when no expiry is set */
+export function getExpiryDays(expiredAt: string | null | undefined): number | null {
+  if (!expiredAt) return null
+  const d = dayjs(expiredAt)
+  if (!d.isValid() || d.year() <= 1) return null
+  return d.diff(dayjs(), 'day', true)
+}
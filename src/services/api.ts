@@ -1,6 +1,9 @@
 // API Service — communicates with Komari backend via RPC2
 
 import { rpc2Client } from '@/lib/rpc2';
+import { NodeStatusStore } from '@/lib/status-store';
+import type { NodeStatusEntry, StatusDelta } from '@/lib/status-store';
+import { readSnapshot, writeSnapshot, SNAPSHOT_KEYS, MAX_CACHED_HISTORY_HOURS } from '@/lib/snapshot-cache';
 import type {
   RPC2NodeData,
   RPC2NodeStatus,
@@ -70,6 +73,8 @@ export interface NodeStats {
 export interface NodeWithStatus extends NodeData {
   status: 'online' | 'offline';
   stats?: NodeStats;
+  /** Status and stats come from the offline snapshot, not a live report yet */
+  cached?: boolean;
 }
 
 export interface ApiResponse<T> {
@@ -190,7 +195,9 @@ class ApiService {
           'common:getNodes'
         );
         if (!result) return [];
-        return Object.entries(result).map(([uuid, client]) => adaptNodeData(uuid, client));
+        const nodes = Object.entries(result).map(([uuid, client]) => adaptNodeData(uuid, client));
+        writeSnapshot(SNAPSHOT_KEYS.nodes, nodes);
+        return nodes;
       } catch (error) {
         console.error('RPC2 getNodes failed:', error);
         return [];
@@ -220,40 +227,63 @@ class ApiService {
     });
   }
 
-  // Fetch load history records
+  // Fetch load history records, falling back to the offline cache when the backend is unreachable
   async getLoadHistory(uuid: string, hours: number = 24): Promise<{ count: number; records: RPC2StatusRecord[] } | null> {
     return dedup(`getLoadHistory:${uuid}:${hours}`, async () => {
       try {
-        const result = await rpc2Client.call<
-          { type: string; uuid: string; hours: number },
-          { count: number; records: RPC2StatusRecord[]; from: string; to: string }
-        >(
-          'common:getRecords',
-          { type: 'load', uuid, hours }
-        );
-        if (!result) return null;
-        // RPC2 may return records as { [uuid]: StatusRecord[] } object map; flatten to array
-        const rawRecords = result.records;
-        let records: RPC2StatusRecord[];
-        if (Array.isArray(rawRecords)) {
-          records = rawRecords;
-        } else if (rawRecords && typeof rawRecords === 'object') {
-          // { uuid: StatusRecord[] } → extract all values and flatten
-          records = (Object.values(rawRecords) as RPC2StatusRecord[][]).flat();
-        } else {
-          records = [];
-        }
-        return {
-          count: result.count,
-          records,
-        };
+        return await this.getLiveLoadHistory(uuid, hours);
       } catch (error) {
         console.error('RPC2 getLoadHistory failed:', error);
-        return null;
+        // Backend unreachable — serve the last cached window if we have one
+        const cached = await this.getCachedLoadHistory(uuid, hours);
+        return cached?.value ?? null;
       }
     });
   }
 
+  // Fetch load history from the backend only; rejects instead of serving cached records (exports)
+  async getLiveLoadHistory(uuid: string, hours: number = 24): Promise<{ count: number; records: RPC2StatusRecord[] } | null> {
+    return dedup(`getLiveLoadHistory:${uuid}:${hours}`, async () => {
+      const result = await rpc2Client.call<
+        { type: string; uuid: string; hours: number },
+        { count: number; records: RPC2StatusRecord[]; from: string; to: string }
+      >(
+        'common:getRecords',
+        { type: 'load', uuid, hours }
+      );
+      if (!result) return null;
+      // RPC2 may return records as { [uuid]: StatusRecord[] } object map; flatten to array
+      const rawRecords = result.records;
+      let records: RPC2StatusRecord[];
+      if (Array.isArray(rawRecords)) {
+        records = rawRecords;
+      } else if (rawRecords && typeof rawRecords === 'object') {
+        // { uuid: StatusRecord[] } → extract all values and flatten
+        records = (Object.values(rawRecords) as RPC2StatusRecord[][]).flat();
+      } else {
+        records = [];
+      }
+      const history = {
+        count: result.count,
+        records,
+      };
+      if (hours <= MAX_CACHED_HISTORY_HOURS) {
+        writeSnapshot(SNAPSHOT_KEYS.loadHistory(uuid, hours), history);
+      }
+      return history;
+    });
+  }
+
+  // Read load history persisted by a previous successful fetch
+  async getCachedLoadHistory(uuid: string, hours: number = 24) {
+    return readSnapshot<{ count: number; records: RPC2StatusRecord[] }>(SNAPSHOT_KEYS.loadHistory(uuid, hours));
+  }
+
+  // Read the node list persisted by the last successful getNodes
+  async getCachedNodes() {
+    return readSnapshot<NodeData[]>(SNAPSHOT_KEYS.nodes);
+  }
+
   // Fetch ping history records
   async getPingHistory(uuid: string, hours: number = 24): Promise<{ count: number; records: RPC2PingRecord[]; tasks: { id: number; name: string; interval: number; loss: number; type?: string; avg?: number; latest?: number; max?: number; min?: number; p50?: number; p99?: number; p99_p50_ratio?: number; total?: number }[] } | null> {
     return dedup(`getPingHistory:${uuid}:${hours}`, async () => {
@@ -366,28 +396,143 @@ class ApiService {
 export const apiService = new ApiService();
 
 // ============================================================
-// WebSocketService — polls common:getNodesLatestStatus via RPC2
+// WebSocketService — live node status via RPC2 push, with polling fallback
 // ============================================================
 
-export interface WsMessage {
-  online: string[];
-  data: Record<string, NodeStats>;
+/** Adapt a raw status map into store entries */
+function toStatusEntries(raw: Record<string, RPC2NodeStatus>): Map<string, NodeStatusEntry> {
+  const entries = new Map<string, NodeStatusEntry>();
+  for (const [uuid, status] of Object.entries(raw)) {
+    entries.set(uuid, {
+      status: status.online ? 'online' : 'offline',
+      stats: adaptNodeStatus(status),
+    });
+  }
+  return entries;
 }
 
+/** Notification method the server pushes status updates on */
+const STATUS_PUSH_METHOD = 'common:nodesLatestStatus';
+/** Polling interval used when push is unavailable */
+const POLL_INTERVAL_MS = 2000;
+/** Minimum gap between status snapshot writes to IndexedDB */
+const STATUS_PERSIST_INTERVAL_MS = 30000;
+
 export class WebSocketService {
-  private listeners: Set<(data: WsMessage) => void> = new Set();
-  private onlineNodes: Set<string> = new Set();
-  private nodeData: Map<string, NodeStats> = new Map();
+  /** Live status snapshot; listeners receive only what changed */
+  readonly store = new NodeStatusStore();
   private pollingInterval: ReturnType<typeof setInterval> | null = null;
+  private unsubscribePush: (() => void) | null = null;
+  /** Socket the server-side subscription was registered on; push dies with it */
+  private pushSocket: WebSocket | null = null;
+  private pushRequested: WebSocket | null = null;
+  private lastPersistAt = 0;
+  /** Epoch ms of the last live status received (or of the hydrated cache) */
+  private _lastUpdatedAt: number | null = null;
+  private _fromCache = false;
 
   connect() {
     // Ensure RPC2 client is connected
     if (rpc2Client.state === 'disconnected') {
       rpc2Client.connect().catch(() => {});
     }
-    console.log('WebSocket (RPC2) connected');
+
+    if (!this.unsubscribePush) {
+      this.unsubscribePush = rpc2Client.subscribe<Record<string, RPC2NodeStatus>>(
+        STATUS_PUSH_METHOD,
+        (params) => this.handlePush(params),
+      );
+    }
+
     // Initial data fetch
     this.fetchLatestStatus();
+    this.requestPush();
+
+    if (!this.pollingInterval) {
+      this.pollingInterval = setInterval(() => this.tick(), POLL_INTERVAL_MS);
+    }
+  }
+
+  /** When status data was last refreshed from the backend, or saved when served from cache */
+  get lastUpdatedAt(): number | null {
+    return this._lastUpdatedAt;
+  }
+
+  /** True while the store only holds data restored from the offline cache */
+  get isFromCache(): boolean {
+    return this._fromCache;
+  }
+
+  /** Restore the last persisted status map; ignored once live data has arrived */
+  async hydrateFromCache(): Promise<boolean> {
+    const cached = await readSnapshot<Record<string, NodeStatusEntry>>(SNAPSHOT_KEYS.status);
+    if (!cached || this.store.size > 0) return false;
+    this._fromCache = true;
+    this._lastUpdatedAt = cached.savedAt;
+    const entries = new Map<string, NodeStatusEntry>();
+    for (const [uuid, entry] of Object.entries(cached.value)) {
+      entries.set(uuid, { ...entry, cached: true });
+    }
+    this.store.merge(entries);
+    return true;
+  }
+
+  /**
+   * Whether status currently arrives by server push: the subscription succeeded
+   * on the socket that is still open. Pushes only carry changes, so a quiet fleet
+   * may send nothing for a long time — silence alone is not a failure; the
+   * client heartbeat closes a dead socket, which ends the subscription.
+   */
+  get isPushActive(): boolean {
+    return this.pushSocket !== null &&
+      this.pushSocket === rpc2Client.ws &&
+      rpc2Client.state === 'connected' &&
+      this.pushSocket.readyState === WebSocket.OPEN;
+  }
+
+  /** Ask the server to push status updates on the current socket */
+  private async requestPush() {
+    const socket = rpc2Client.ws;
+    if (rpc2Client.state !== 'connected' || !socket || this.pushRequested === socket) return;
+    this.pushRequested = socket;
+
+    try {
+      await rpc2Client.callViaWebSocket('rpc.subscribe', { method: STATUS_PUSH_METHOD });
+      this.pushSocket = socket;
+    } catch {
+      // Server has no push support — keep polling on this socket
+      this.pushSocket = null;
+    }
+  }
+
+  /** Polling fallback: skipped while push is healthy */
+  private tick() {
+    if (this.isPushActive) return;
+
+    // A new socket (after reconnect) loses the server-side subscription
+    this.requestPush();
+
+    if (this.store.size === 0 || this.store.onlineUuids().length > 0) {
+      this.fetchLatestStatus();
+    }
+  }
+
+  /** Merge a pushed status update (may carry only a subset of nodes) */
+  private handlePush(params: Record<string, RPC2NodeStatus>) {
+    if (!params) return;
+    this.store.merge(toStatusEntries(params));
+    this.markLive();
+  }
+
+  /** Record a successful live update and persist the snapshot (throttled) */
+  private markLive() {
+    const now = Date.now();
+    this._lastUpdatedAt = now;
+    this._fromCache = false;
+    if (now - this.lastPersistAt >= STATUS_PERSIST_INTERVAL_MS) {
+      this.lastPersistAt = now;
+      writeSnapshot(SNAPSHOT_KEYS.status, this.store.toRecord());
+    }
   }
 
   /** Fetch latest node status via RPC2 */
@@ -397,26 +542,8 @@ export class WebSocketService {
         'common:getNodesLatestStatus'
       );
       if (!result) return;
-
-      // Extract online node list
-      const onlineList: string[] = [];
-      const dataMap: Record<string, NodeStats> = {};
-
-      for (const [uuid, status] of Object.entries(result)) {
-        if (status.online) {
-          onlineList.push(uuid);
-        }
-        dataMap[uuid] = adaptNodeStatus(status);
-      }
-
-      this.onlineNodes = new Set(onlineList);
-      this.nodeData = new Map(Object.entries(dataMap));
-
-      // Notify all listeners (format compatible with original WebSocket)
-      this.listeners.forEach(listener => listener({
-        online: onlineList,
-        data: dataMap,
-      }));
+      this.store.replace(toStatusEntries(result));
+      this.markLive();
     } catch (error) {
       console.error('RPC2 fetchLatestStatus failed:', error);
     }
@@ -428,9 +555,8 @@ export class WebSocketService {
     }
   }
 
-  subscribe(listener: (data: WsMessage) => void) {
-    this.listeners.add(listener);
-    return () => this.listeners.delete(listener);
+  subscribe(listener: (delta: StatusDelta) => void) {
+    return this.store.subscribe(listener);
   }
 
   disconnect() {
@@ -438,14 +564,24 @@ export class WebSocketService {
       clearInterval(this.pollingInterval);
       this.pollingInterval = null;
     }
+    if (this.unsubscribePush) {
+      this.unsubscribePush();
+      this.unsubscribePush = null;
+    }
+    if (this.pushSocket && this.pushSocket === rpc2Client.ws) {
+      rpc2Client.callViaWebSocket('rpc.unsubscribe', { method: STATUS_PUSH_METHOD }, { notification: true })
+        .catch(() => {});
+    }
+    this.pushSocket = null;
+    this.pushRequested = null;
   }
 
   getOnlineNodes(): string[] {
-    return Array.from(this.onlineNodes);
+    return this.store.onlineUuids();
   }
 
   getNodeData(uuid: string): NodeStats | undefined {
-    return this.nodeData.get(uuid);
+    return this.store.get(uuid)?.stats;
   }
 
   /** Expose ws property for WebSocketStatus component compatibility */